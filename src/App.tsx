@@ -4,24 +4,27 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useAuth } from '@/hooks/useAuth';
-import { config } from '@/config/environment';
+import { useIdleLock } from '@/hooks/useIdleLock';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import SessionExpiredModal from '@/components/SessionExpiredModal';
 
 // Lazy load components for code splitting
 const LandingPage = lazy(() => import('@/components/LandingPage'));
 const TokenSubmission = lazy(() => import('@/components/TokenSubmission'));
 const Dashboard = lazy(() => import('@/components/Dashboard'));
 const NewRepoSuccessPage = lazy(() => import('@/components/NewRepoSuccessPage'));
+const ActivityPage = lazy(() => import('@/components/ActivityPage'));
+const VaultUnlockScreen = lazy(() => import('@/components/VaultUnlockScreen'));
 
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       retry: (failureCount, error) => {
-        // Don't retry on 401/403 errors (authentication issues)
+        // Don't retry on 401/403 errors (authentication issues) or exhausted rate limits
         if (error instanceof Error && 'status' in error) {
           const status = (error as any).status;
-          if (status === 401 || status === 403) {
+          if (status === 401 || status === 403 || status === 429) {
             return false;
           }
         }
@@ -36,11 +39,30 @@ const queryClient = new QueryClient({
   },
 });
 
-// Protected Route Component
+// Protected Route Component: a rejected token keeps the page mounted behind
+// the re-authentication modal so paused requests can resume in place
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isSessionExpired } = useAuth();
   
-  return isAuthenticated() ? <>{children}</> : <Navigate to="/token" replace />;
+  if (!isAuthenticated()) {
+    return <Navigate to="/token" replace />;
+  }
+
+  return (
+    <>
+      {children}
+      {isSessionExpired && <SessionExpiredModal />}
+    </>
+  );
+};
+
+// Vault Gate: asks for the passphrase while stored tokens are locked, and
+// locks them again after the configured idle time
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { vaultStatus } = useAuth();
+  useIdleLock();
+
+  return vaultStatus === 'locked' ? <VaultUnlockScreen /> : <>{children}</>;
 };
 
 // Loading component for Suspense
@@ -59,29 +81,50 @@ function App() {
             <Suspense fallback={<SuspenseLoader />}>
               <Routes>
                 <Route path="/" element={<LandingPage />} />
-                <Route path="/token" element={<TokenSubmission />} />
+                <Route
+                  path="/token"
+                  element={
+                    <VaultGate>
+                      <TokenSubmission />
+                    </VaultGate>
+                  }
+                />
                 <Route 
                   path="/dashboard" 
                   element={
-                    <ProtectedRoute>
-                      <Dashboard />
-                    </ProtectedRoute>
+                    <VaultGate>
+                      <ProtectedRoute>
+                        <Dashboard />
+                      </ProtectedRoute>
+                    </VaultGate>
                   } 
                 />
                 <Route 
                   path="/repo-success" 
                   element={
-                    <ProtectedRoute>
-                      <NewRepoSuccessPage />
-                    </ProtectedRoute>
+                    <VaultGate>
+                      <ProtectedRoute>
+                        <NewRepoSuccessPage />
+                      </ProtectedRoute>
+                    </VaultGate>
                   } 
                 />
+                <Route
+                  path="/activity"
+                  element={
+                    <VaultGate>
+                      <ProtectedRoute>
+                        <ActivityPage />
+                      </ProtectedRoute>
+                    </VaultGate>
+                  }
+                />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
             </Suspense>
           </div>
         </Router>
-        {config.isDevelopment && <ReactQueryDevtools initialIsOpen={false} />}
+        {import.meta.env.DEV && <ReactQueryDevtools initialIsOpen={false} />}
       </QueryClientProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, Check, Plus, User } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import type { StoredAccount } from '@/types';
+
+const AccountAvatar: React.FC<{ account: StoredAccount; size?: string }> = ({ account, size = 'w-6 h-6' }) => {
+  return account.user?.avatar_url ? (
+    <img src={account.user.avatar_url} alt={account.label} className={`${size} rounded-full flex-shrink-0`} />
+  ) : (
+    <div className={`${size} rounded-full bg-purple-600/50 flex items-center justify-center flex-shrink-0`}>
+      <User className="w-3 h-3" />
+    </div>
+  );
+};
+
+const describeAccount = (account: StoredAccount) => {
+  const login = account.user?.login ?? 'unknown user';
+  return account.host.kind === 'enterprise' ? `${login} @ ${new URL(account.host.url).hostname}` : login;
+};
+
+const AccountSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const { accounts, activeAccount, switchAccount } = useAccounts();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on outside clicks
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  if (!activeAccount) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-white/10 text-purple-200 hover:bg-white/20 border border-white/20 transition-colors font-light"
+      >
+        <AccountAvatar account={activeAccount} />
+        <span className="max-w-32 truncate">{activeAccount.label}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.2 }}
+            className="absolute right-0 mt-2 w-72 rounded-xl bg-gray-900/95 backdrop-blur-lg border border-purple-400/30 shadow-2xl overflow-hidden z-40"
+          >
+            <div className="p-2 space-y-1">
+              {accounts.map((account) => (
+                <button
+                  key={account.id}
+                  onClick={() => {
+                    switchAccount(account.id);
+                    setIsOpen(false);
+                  }}
+                  className={`w-full flex items-center space-x-3 p-2 rounded-lg text-left transition-colors ${
+                    account.id === activeAccount.id ? 'bg-purple-600/30' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <AccountAvatar account={account} size="w-8 h-8" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white truncate">{account.label}</div>
+                    <div className="text-xs text-purple-300/70 truncate">{describeAccount(account)}</div>
+                  </div>
+                  {account.id === activeAccount.id && <Check className="w-4 h-4 text-purple-300" />}
+                </button>
+              ))}
+            </div>
+            <div className="border-t border-white/10 p-2">
+              <button
+                onClick={() => navigate('/token')}
+                className="w-full flex items-center space-x-2 p-2 rounded-lg text-sm text-purple-200 hover:bg-white/10 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add account</span>
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AccountSwitcher;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, AlertCircle, Download, History, Search } from 'lucide-react';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { auditEntriesToCsv, searchAuditEntries } from '@/utils/auditLog';
+import { downloadFile } from '@/utils/download';
+import { formatDateTime } from '@/utils/formatters';
+import type { AuditEntry, AuditValues } from '@/types';
+
+type ResultFilter = 'all' | AuditEntry['result'];
+
+const formatValue = (value: AuditValues[string] | undefined): string => {
+  if (value === undefined || value === null) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+};
+
+// One line per field the entry touched
+const describeChanges = (entry: AuditEntry): string[] => {
+  const fields = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  return fields.map((field) => `${field}: ${formatValue(entry.before?.[field])} → ${formatValue(entry.after?.[field])}`);
+};
+
+// Searchable view of the local audit log, with JSON and CSV export of the filtered entries
+const ActivityPage: React.FC = () => {
+  const navigate = useNavigate();
+  const entries = useAuditLog();
+  const [query, setQuery] = useState('');
+  const [accountFilter, setAccountFilter] = useState('all');
+  const [resultFilter, setResultFilter] = useState<ResultFilter>('all');
+
+  const accounts = useMemo(() => [...new Set(entries.map(({ accountLogin }) => accountLogin))].sort(), [entries]);
+
+  const filteredEntries = useMemo(
+    () =>
+      searchAuditEntries(entries, query).filter(
+        (entry) =>
+          (accountFilter === 'all' || entry.accountLogin === accountFilter) &&
+          (resultFilter === 'all' || entry.result === resultFilter)
+      ),
+    [entries, query, accountFilter, resultFilter]
+  );
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadFile(`vlast-activity-${stamp}.json`, JSON.stringify(filteredEntries, null, 2), 'application/json');
+    } else {
+      downloadFile(`vlast-activity-${stamp}.csv`, auditEntriesToCsv(filteredEntries), 'text/csv');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white">
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        <motion.button
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => navigate('/dashboard')}
+          className="flex items-center space-x-2 text-purple-300 hover:text-white transition-colors mb-6"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Dashboard</span>
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="flex items-center space-x-3 text-3xl font-thin text-purple-100">
+              <History className="w-7 h-7 text-purple-300" />
+              <span>Activity</span>
+            </h1>
+            <p className="text-sm text-purple-300/70 font-light mt-1">
+              Every change made through Vlast in this browser, newest first. Entries cannot be edited or removed.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            {(['json', 'csv'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={filteredEntries.length === 0}
+                className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-white/10 text-purple-100 hover:bg-white/20 border border-white/20 text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export {format.toUpperCase()}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-purple-300" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by repository, action, account or error..."
+              aria-label="Search activity"
+              className="w-full pl-10 pr-4 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-purple-300/60 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <select
+            value={accountFilter}
+            onChange={(e) => setAccountFilter(e.target.value)}
+            aria-label="Filter by account"
+            className="px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="all" className="bg-gray-800">All accounts</option>
+            {accounts.map((login) => (
+              <option key={login} value={login} className="bg-gray-800">
+                {login}
+              </option>
+            ))}
+          </select>
+          <select
+            value={resultFilter}
+            onChange={(e) => setResultFilter(e.target.value as ResultFilter)}
+            aria-label="Filter by result"
+            className="px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="all" className="bg-gray-800">All results</option>
+            <option value="success" className="bg-gray-800">Succeeded</option>
+            <option value="failure" className="bg-gray-800">Failed</option>
+          </select>
+        </div>
+
+        {filteredEntries.length === 0 ? (
+          <p className="text-center text-purple-300/70 font-light py-16">
+            {entries.length === 0 ? 'No activity recorded yet' : 'No activity matches these filters'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {filteredEntries.map((entry) => (
+              <li key={entry.id} className="p-4 rounded-xl bg-white/5 border border-white/10">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  {entry.result === 'success' ? (
+                    <CheckCircle className="w-4 h-4 text-green-400" aria-label="Succeeded" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-red-300" aria-label="Failed" />
+                  )}
+                  <span className="font-mono text-purple-200">{entry.action}</span>
+                  <span className="text-white">
+                    {entry.repository}
+                    {entry.path && <span className="text-purple-300/70">/{entry.path}</span>}
+                  </span>
+                  <span className="text-purple-300/70">by {entry.accountLogin}</span>
+                  <time dateTime={entry.timestamp} className="ml-auto text-xs text-purple-300/60">
+                    {formatDateTime(entry.timestamp)}
+                  </time>
+                </div>
+                {describeChanges(entry).map((line) => (
+                  <p key={line} className="ml-7 text-xs text-purple-200/80 font-mono">
+                    {line}
+                  </p>
+                ))}
+                {entry.error && <p className="ml-7 text-xs text-red-300">{entry.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityPage;
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BatchOperationModal from './BatchOperationModal';
+import type { BatchOperationKind } from './BatchOperationModal';
+import { githubApi } from '@/utils/api';
+import { testServer } from '@/test/fakeFetch';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+
+const renderModal = async (kind: BatchOperationKind) => {
+  const repositories = await Promise.all([
+    githubApi.fetchRepository('octo-dev', 'vlast-cli'),
+    githubApi.fetchRepository('octo-dev', 'dotfiles'),
+  ]);
+  renderWithClient(<BatchOperationModal kind={kind} repositories={repositories} isOpen onClose={vi.fn()} />);
+};
+
+describe('BatchOperationModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('rejects a settings patch that disables every merge method, then applies a valid one', async () => {
+    const user = userEvent.setup();
+    await renderModal('settings');
+
+    await user.selectOptions(screen.getByLabelText('Allow merge commits'), 'Off');
+    await user.selectOptions(screen.getByLabelText('Allow squash merging'), 'Off');
+    await user.selectOptions(screen.getByLabelText('Allow rebase merging'), 'Off');
+    await user.click(screen.getByRole('button', { name: 'Review plan' }));
+    expect(screen.getByText('At least one merge method must stay enabled')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Allow rebase merging'), 'Leave unchanged');
+    await user.selectOptions(screen.getByLabelText('Wiki'), 'Off');
+    await user.click(screen.getByRole('button', { name: 'Review plan' }));
+    expect(screen.getByText('2 to change · 0 to delete · 0 skipped')).toBeInTheDocument();
+    expect(screen.getAllByText('Wiki:')).toHaveLength(2);
+
+    await user.click(screen.getByRole('button', { name: 'Update settings 2' }));
+
+    expect(await screen.findByText('2 of 2 done')).toBeInTheDocument();
+    const patched = testServer.getRepositories().filter((repo) => ['vlast-cli', 'dotfiles'].includes(repo.name));
+    expect(patched.every((repo) => !repo.has_wiki && !repo.allow_merge_commit)).toBe(true);
+  });
+
+  it('toggles a single repository\'s visibility through a one-repository plan', async () => {
+    const user = userEvent.setup();
+    const repository = await githubApi.fetchRepository('octo-dev', 'billing-service');
+    renderWithClient(<BatchOperationModal kind="visibility" repositories={[repository]} isOpen onClose={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Review plan' }));
+    expect(screen.getByText('1 to change · 0 to delete · 0 skipped')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Make public 1' }));
+
+    expect(await screen.findByText('1 succeeded · 0 failed · 0 skipped')).toBeInTheDocument();
+    expect((await githubApi.fetchRepository('octo-dev', 'billing-service')).private).toBe(false);
+  });
+
+  it('only deletes once the count phrase is typed', async () => {
+    const user = userEvent.setup();
+    await renderModal('delete');
+
+    await user.click(screen.getByRole('button', { name: 'Review plan' }));
+    expect(screen.getAllByText('Will be deleted permanently')).toHaveLength(2);
+    const deleteButton = screen.getByRole('button', { name: 'Delete 2' });
+    await user.type(screen.getByLabelText(/to confirm/), 'delete 2 repos');
+    expect(deleteButton).toBeDisabled();
+
+    await user.clear(screen.getByLabelText(/to confirm/));
+    await user.type(screen.getByLabelText(/to confirm/), 'delete 2 repositories');
+    await user.click(deleteButton);
+
+    await waitFor(() => expect(screen.getByText('2 succeeded · 0 failed · 0 skipped')).toBeInTheDocument());
+    expect(testServer.getRepositories().some((repo) => ['vlast-cli', 'dotfiles'].includes(repo.name))).toBe(false);
+  });
+});
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Layers, Loader2, Trash2, Download } from 'lucide-react';
+import type { BatchOperation, BatchSettingsField, Repository, RepositoryPlan } from '@/types';
+import { useBatchOperations } from '@/hooks/useBatchOperations';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import {
+  BATCH_SETTINGS_FIELDS,
+  buildPlan,
+  describeBatchOperation,
+  downloadPlan,
+  validateBatchOperation,
+} from '@/utils/batchOperations';
+import { SETTING_LABELS } from '@/utils/repositorySettings';
+import { getMissingScopeMessage } from '@/utils/scopes';
+import BatchProgress from './BatchProgress';
+import PlanReview from './PlanReview';
+
+export type BatchOperationKind = Exclude<BatchOperation['kind'], 'topics'>;
+
+interface BatchOperationModalProps {
+  kind: BatchOperationKind;
+  repositories: Repository[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SettingChoice = 'unchanged' | 'on' | 'off';
+
+const BatchOperationModal: React.FC<BatchOperationModalProps> = ({ kind, repositories, isOpen, onClose }) => {
+  // Default to the direction that changes something, so a single repository is simply toggled
+  const [makePrivate, setMakePrivate] = useState(() => !repositories.every((repo) => repo.private));
+  const [archive, setArchive] = useState(() => !repositories.every((repo) => repo.archived));
+  const [settings, setSettings] = useState<Partial<Record<BatchSettingsField, SettingChoice>>>({});
+  const [confirmText, setConfirmText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [plan, setPlan] = useState<RepositoryPlan | null>(null);
+  const batch = useBatchOperations();
+  const { canDelete } = useTokenPermissions();
+
+  const hasRun = batch.jobs.length > 0;
+  const nonAdmins = repositories.filter((repo) => !repo.permissions?.admin);
+  const deletePhrase = `delete ${repositories.length} ${repositories.length === 1 ? 'repository' : 'repositories'}`;
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = isOpen ? 'hidden' : 'unset';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  const buildOperation = (): BatchOperation => {
+    switch (kind) {
+      case 'visibility':
+        return { kind, private: makePrivate };
+      case 'archive':
+        return { kind, archived: archive };
+      case 'settings': {
+        const updates: Partial<Record<BatchSettingsField, boolean>> = {};
+        for (const [field, choice] of Object.entries(settings)) {
+          if (choice !== 'unchanged') updates[field as BatchSettingsField] = choice === 'on';
+        }
+        return { kind, updates };
+      }
+      case 'delete':
+        return { kind };
+    }
+  };
+
+  const operation = buildOperation();
+  const blocked = kind === 'delete' && (!canDelete || confirmText !== deletePhrase);
+  const plannedCount = plan?.items.filter((item) => item.action !== 'skip').length ?? 0;
+
+  // Any change to the options invalidates the reviewed plan
+  const changeOption = (apply: () => void) => {
+    apply();
+    setError(null);
+    setPlan(null);
+    batch.reset();
+  };
+
+  const handleReview = () => {
+    const validationError = validateBatchOperation(operation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    setPlan(buildPlan(operation, repositories));
+  };
+
+  const handleApply = () => {
+    if (plan) void batch.apply(plan);
+  };
+
+  const handleExport = () => {
+    if (plan) downloadPlan(plan, batch.jobs);
+  };
+
+  const handleClose = () => {
+    if (!batch.isRunning) onClose();
+  };
+
+  const renderChoice = (label: string, checked: boolean, onSelect: () => void) => (
+    <label
+      className={`flex-1 px-4 py-3 rounded-xl border cursor-pointer text-sm text-center transition-colors ${
+        checked ? 'bg-purple-500/20 border-purple-400/50 text-purple-100' : 'bg-white/5 border-white/20 text-purple-200'
+      }`}
+    >
+      <input
+        type="radio"
+        name={`batch-${kind}`}
+        checked={checked}
+        onChange={onSelect}
+        disabled={batch.isRunning}
+        className="sr-only"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className={`relative w-full max-w-lg max-h-[95vh] bg-gray-900/95 backdrop-blur-lg border rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col ${
+              kind === 'delete' ? 'border-red-500/30' : 'border-purple-400/30'
+            }`}
+          >
+            <div className="flex-shrink-0 p-4 sm:p-6 border-b border-purple-400/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className={`p-2 rounded-full ${kind === 'delete' ? 'bg-red-500/20' : 'bg-purple-500/20'}`}>
+                    {kind === 'delete' ? (
+                      <Trash2 className="w-5 h-5 sm:w-6 sm:h-6 text-red-400" />
+                    ) : (
+                      <Layers className="w-5 h-5 sm:w-6 sm:h-6 text-purple-300" />
+                    )}
+                  </div>
+                  <h2 className="text-lg sm:text-xl font-semibold text-purple-100">
+                    {describeBatchOperation(operation)} {repositories.length} Repositor
+                    {repositories.length === 1 ? 'y' : 'ies'}
+                  </h2>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={handleClose}
+                  aria-label="Close"
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+                >
+                  <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-5">
+              {kind === 'visibility' && (
+                <div className="flex gap-3">
+                  {renderChoice('Make private', makePrivate, () => changeOption(() => setMakePrivate(true)))}
+                  {renderChoice('Make public', !makePrivate, () => changeOption(() => setMakePrivate(false)))}
+                </div>
+              )}
+
+              {kind === 'archive' && (
+                <div className="space-y-3">
+                  <div className="flex gap-3">
+                    {renderChoice('Archive', archive, () => changeOption(() => setArchive(true)))}
+                    {renderChoice('Unarchive', !archive, () => changeOption(() => setArchive(false)))}
+                  </div>
+                  {archive && (
+                    <p className="text-xs text-purple-200/70">
+                      Archived repositories become read-only for everyone. Nothing is deleted and they can be unarchived
+                      at any time.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {kind === 'settings' && (
+                <div className="space-y-2">
+                  <p className="text-xs text-purple-200/70">Settings left unchanged keep each repository's own value.</p>
+                  {BATCH_SETTINGS_FIELDS.map((field) => (
+                    <div key={field} className="flex items-center justify-between gap-3">
+                      <label htmlFor={`batch-setting-${field}`} className="text-sm text-white">
+                        {SETTING_LABELS[field]}
+                      </label>
+                      <select
+                        id={`batch-setting-${field}`}
+                        value={settings[field] ?? 'unchanged'}
+                        onChange={(e) =>
+                          changeOption(() =>
+                            setSettings((current) => ({ ...current, [field]: e.target.value as SettingChoice }))
+                          )
+                        }
+                        disabled={batch.isRunning}
+                        className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/20 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <option value="unchanged" className="bg-gray-800">Leave unchanged</option>
+                        <option value="on" className="bg-gray-800">On</option>
+                        <option value="off" className="bg-gray-800">Off</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {kind === 'delete' && (
+                <div className="space-y-3">
+                  <p className="text-sm text-red-200">
+                    This permanently deletes {repositories.map((repo) => repo.full_name).join(', ')}, including their
+                    issues, pull requests and wikis. It cannot be undone.
+                  </p>
+                  {!canDelete && (
+                    <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                      {getMissingScopeMessage('delete_repo')}
+                    </div>
+                  )}
+                  <label htmlFor="batch-delete-confirm" className="block text-sm font-medium text-purple-200">
+                    Type '{deletePhrase}' to confirm:
+                  </label>
+                  <input
+                    id="batch-delete-confirm"
+                    type="text"
+                    value={confirmText}
+                    onChange={(e) => setConfirmText(e.target.value)}
+                    placeholder={deletePhrase}
+                    disabled={batch.isRunning || hasRun || !canDelete}
+                    className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-red-300/50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50 text-sm sm:text-base"
+                  />
+                </div>
+              )}
+
+              {nonAdmins.length > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                  You are not an admin of {nonAdmins.map((repo) => repo.full_name).join(', ')}; changing{' '}
+                  {nonAdmins.length === 1 ? 'it' : 'them'} will fail.
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">{error}</div>
+              )}
+
+              {plan && !hasRun && <PlanReview plan={plan} />}
+
+              {hasRun && (
+                <BatchProgress
+                  jobs={batch.jobs}
+                  counts={batch.counts}
+                  isRunning={batch.isRunning}
+                  onRetryFailed={() => void batch.retryFailed()}
+                />
+              )}
+            </div>
+
+            <div className="flex-shrink-0 p-4 sm:p-6 border-t border-purple-400/20">
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleClose}
+                  disabled={batch.isRunning}
+                  className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 text-sm sm:text-base"
+                >
+                  {hasRun ? 'Done' : 'Cancel'}
+                </button>
+                {plan && (
+                  <button
+                    onClick={handleExport}
+                    disabled={batch.isRunning}
+                    aria-label="Export plan as JSON"
+                    title={hasRun ? 'Export the plan with each outcome' : 'Export the plan'}
+                    className="px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={plan ? handleApply : handleReview}
+                  disabled={
+                    batch.isRunning || hasRun || repositories.length === 0 || (plan !== null && (blocked || plannedCount === 0))
+                  }
+                  className={`flex-1 px-4 py-3 text-white rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base ${
+                    kind === 'delete'
+                      ? 'bg-red-600 hover:bg-red-700 disabled:bg-red-600/50'
+                      : 'bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50'
+                  }`}
+                >
+                  {batch.isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{plan ? `${describeBatchOperation(operation)} ${plannedCount}` : 'Review plan'}</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BatchOperationModal;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Loader2, MinusCircle, Clock, RotateCcw } from 'lucide-react';
+import type { BatchJob, BatchJobStatus } from '@/types';
+
+interface BatchProgressProps {
+  jobs: BatchJob[];
+  counts: Record<BatchJobStatus, number>;
+  isRunning: boolean;
+  onRetryFailed: () => void;
+}
+
+const STATUS_ICONS: Record<BatchJobStatus, React.ReactNode> = {
+  queued: <Clock className="w-4 h-4 flex-shrink-0 text-purple-300/60" />,
+  running: <Loader2 className="w-4 h-4 flex-shrink-0 text-purple-300 animate-spin" />,
+  succeeded: <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-400" />,
+  failed: <AlertCircle className="w-4 h-4 flex-shrink-0 text-red-300" />,
+  skipped: <MinusCircle className="w-4 h-4 flex-shrink-0 text-purple-300/60" />,
+};
+
+// Per-repository progress of a batch with a summary and retry for failures
+const BatchProgress: React.FC<BatchProgressProps> = ({ jobs, counts, isRunning, onRetryFailed }) => {
+  const finished = counts.succeeded + counts.failed + counts.skipped;
+  const percent = jobs.length > 0 ? Math.round((finished / jobs.length) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between text-xs text-purple-200 mb-1">
+          <span>
+            {finished} of {jobs.length} done
+          </span>
+          <span>
+            {counts.succeeded} succeeded · {counts.failed} failed · {counts.skipped} skipped
+          </span>
+        </div>
+        <div
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          className="h-2 rounded-full bg-white/10 overflow-hidden"
+        >
+          <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      <ul className="space-y-1 text-sm max-h-64 overflow-y-auto custom-scrollbar">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-start space-x-2">
+            {STATUS_ICONS[job.status]}
+            <span className={job.status === 'failed' ? 'text-red-300' : 'text-purple-100'}>
+              {job.label}
+              {job.message && <span className="text-purple-300/70">: {job.message}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {!isRunning && counts.failed > 0 && (
+        <button
+          onClick={onRetryFailed}
+          className="flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-white/10 text-purple-100 hover:bg-white/20 text-sm"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Retry {counts.failed} failed</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BatchProgress;
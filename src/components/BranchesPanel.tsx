@@ -0,0 +1,405 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  GitBranch, Plus, Trash2, Shield, Star, Loader2, CheckCircle, Copy, Search, AlertCircle,
+} from 'lucide-react';
+import type { BranchDeletionResult, Repository } from '@/types';
+import {
+  useBranches,
+  useCreateBranch,
+  useDeleteBranches,
+  useMergedBranches,
+  useSetDefaultBranch,
+} from '@/hooks/useBranches';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import { formatDate, generateGitCommands, validateBranchName } from '@/utils/formatters';
+import { getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
+
+interface BranchesPanelProps {
+  repository: Repository;
+  onRepoChanged?: () => void;
+}
+
+const BranchesPanel: React.FC<BranchesPanelProps> = ({ repository, onRepoChanged }) => {
+  const owner = repository.owner.login;
+  const repo = repository.name;
+
+  const [newBranch, setNewBranch] = useState('');
+  const [fromRef, setFromRef] = useState(repository.default_branch);
+  const [createdBranch, setCreatedBranch] = useState<string | null>(null);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [checkMerged, setCheckMerged] = useState(false);
+  const [confirmCleanup, setConfirmCleanup] = useState(false);
+  const [cleanupResult, setCleanupResult] = useState<BranchDeletionResult | null>(null);
+
+  const [pendingDefault, setPendingDefault] = useState<string | null>(null);
+  const [defaultError, setDefaultError] = useState<string | null>(null);
+
+  const { canModify, isReadOnly } = useTokenPermissions();
+  const { data: branches = [], isLoading, error } = useBranches(owner, repo);
+  const mergedQuery = useMergedBranches(owner, repo, repository.default_branch, branches, checkMerged);
+  const createBranch = useCreateBranch();
+  const deleteBranches = useDeleteBranches();
+  const setDefaultBranch = useSetDefaultBranch();
+
+  const writable = canModify(repository);
+  const isAdmin = repository.permissions?.admin ?? false;
+  const merged = mergedQuery.data ?? [];
+  const nameError = newBranch ? validateBranchName(newBranch) : null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateBranchName(newBranch);
+    if (validationError) {
+      setCreateError(validationError);
+      return;
+    }
+
+    setCreateError(null);
+    try {
+      await createBranch.mutateAsync({ owner, repo, branch: newBranch, fromRef: fromRef.trim() || repository.default_branch });
+      setCreatedBranch(newBranch);
+      setNewBranch('');
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create branch');
+    }
+  };
+
+  const handleCleanup = async () => {
+    const result = await deleteBranches.mutateAsync({ owner, repo, branches: merged });
+    setCleanupResult(result);
+    setConfirmCleanup(false);
+    setCheckMerged(false);
+  };
+
+  const handleSetDefault = async (branch: string) => {
+    setDefaultError(null);
+    try {
+      await setDefaultBranch.mutateAsync({ owner, repo, branch });
+      setPendingDefault(null);
+      setFromRef(branch);
+      if (onRepoChanged) onRepoChanged();
+    } catch (err) {
+      setDefaultError(err instanceof Error ? err.message : 'Failed to change the default branch');
+    }
+  };
+
+  const copyCheckout = async (command: string) => {
+    try {
+      await navigator.clipboard.writeText(command);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const checkoutCommand = createdBranch ? generateGitCommands(repository, createdBranch).checkoutBranch : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg sm:text-xl font-semibold text-purple-100">Branches</h3>
+        <span className="text-xs sm:text-sm text-purple-200">
+          {branches.length} branch{branches.length === 1 ? '' : 'es'}
+        </span>
+      </div>
+
+      {!writable && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          {isReadOnly(repository)
+            ? READ_ONLY_MESSAGE
+            : getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')}
+        </div>
+      )}
+
+      {/* Create Branch */}
+      {writable && (
+        <form onSubmit={handleCreate} className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 space-y-4">
+          <h4 className="text-base sm:text-lg font-medium text-purple-100">Create Branch</h4>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="branch-name" className="block text-sm font-medium text-purple-200 mb-2">
+                Branch name
+              </label>
+              <input
+                id="branch-name"
+                type="text"
+                value={newBranch}
+                onChange={(e) => setNewBranch(e.target.value)}
+                disabled={createBranch.isPending}
+                placeholder="feature/new-feature"
+                className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="branch-source" className="block text-sm font-medium text-purple-200 mb-2">
+                From branch, tag or commit
+              </label>
+              <input
+                id="branch-source"
+                type="text"
+                list="branch-source-options"
+                value={fromRef}
+                onChange={(e) => setFromRef(e.target.value)}
+                disabled={createBranch.isPending}
+                className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm"
+              />
+              <datalist id="branch-source-options">
+                {branches.map((branch) => (
+                  <option key={branch.name} value={branch.name} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {(nameError || createError) && (
+            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              {nameError ?? createError}
+            </div>
+          )}
+
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            type="submit"
+            disabled={createBranch.isPending || !newBranch || !!nameError}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-lg font-medium transition-colors disabled:cursor-not-allowed text-sm"
+          >
+            {createBranch.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            <span>Create Branch</span>
+          </motion.button>
+
+          {checkoutCommand && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2 text-green-400 text-sm">
+                <CheckCircle className="w-4 h-4" />
+                <span>Created {createdBranch}. Check it out locally:</span>
+              </div>
+              <div className="relative">
+                <pre className="bg-gray-900/50 border border-white/10 rounded-lg p-3 text-xs sm:text-sm text-green-400 font-mono overflow-x-auto">
+                  <code>{checkoutCommand}</code>
+                </pre>
+                <button
+                  type="button"
+                  onClick={() => copyCheckout(checkoutCommand)}
+                  className="absolute top-2 right-2 p-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                >
+                  {copied ? (
+                    <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 text-green-400" />
+                  ) : (
+                    <Copy className="w-3 h-3 sm:w-4 sm:h-4 text-purple-400" />
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+      )}
+
+      {/* Merged Branch Cleanup */}
+      {writable && (
+        <div className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h4 className="text-base sm:text-lg font-medium text-purple-100">Clean Up Merged Branches</h4>
+              <p className="text-xs sm:text-sm text-purple-200/70">
+                Branches with no commits beyond {repository.default_branch}. Protected branches are skipped.
+              </p>
+            </div>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => {
+                setCleanupResult(null);
+                setConfirmCleanup(false);
+                // Enabling the query runs the first check; later clicks re-run it
+                if (checkMerged) {
+                  void mergedQuery.refetch();
+                } else {
+                  setCheckMerged(true);
+                }
+              }}
+              disabled={mergedQuery.isFetching || branches.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-white/10 text-purple-100 hover:bg-white/20 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm flex-shrink-0"
+            >
+              {mergedQuery.isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              <span>Find merged</span>
+            </motion.button>
+          </div>
+
+          {mergedQuery.error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              {mergedQuery.error.message}
+            </div>
+          )}
+
+          {checkMerged && mergedQuery.isSuccess && (
+            merged.length === 0 ? (
+              <p className="text-sm text-purple-200">No merged branches to clean up.</p>
+            ) : confirmCleanup ? (
+              <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-3">
+                <p className="text-sm text-red-200">
+                  Delete {merged.length} merged branch{merged.length === 1 ? '' : 'es'}? This cannot be undone from here.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCleanup}
+                    disabled={deleteBranches.isPending}
+                    className="flex items-center space-x-2 px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+                  >
+                    {deleteBranches.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    <span>Delete branches</span>
+                  </button>
+                  <button
+                    onClick={() => setConfirmCleanup(false)}
+                    disabled={deleteBranches.isPending}
+                    className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-purple-100 rounded-lg text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {merged.map((name) => (
+                    <code key={name} className="px-2 py-1 rounded bg-white/10 text-xs text-purple-100 font-mono">{name}</code>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setConfirmCleanup(true)}
+                  className="flex items-center space-x-2 px-3 py-1.5 bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 rounded-lg text-sm font-medium"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete {merged.length} merged</span>
+                </button>
+              </div>
+            )
+          )}
+
+          {cleanupResult && (
+            <div className="space-y-2 text-sm">
+              {cleanupResult.deleted.length > 0 && (
+                <div className="flex items-center space-x-2 text-green-400">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Deleted {cleanupResult.deleted.join(', ')}</span>
+                </div>
+              )}
+              {cleanupResult.failed.map(({ branch, message }) => (
+                <div key={branch} className="flex items-center space-x-2 text-red-300">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{branch}: {message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Branch List */}
+      <div className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10">
+        <h4 className="text-base sm:text-lg font-medium text-purple-100 mb-4">All Branches</h4>
+
+        {defaultError && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            {defaultError}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-purple-400 animate-spin mr-3" />
+            <span className="text-purple-200 text-sm">Loading branches...</span>
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            {error.message}
+          </div>
+        ) : branches.length === 0 ? (
+          <div className="text-center py-8 text-purple-200 text-sm">
+            This repository is empty
+          </div>
+        ) : (
+          <ul className="space-y-2 max-h-64 sm:max-h-80 overflow-y-auto custom-scrollbar">
+            {branches.map((branch) => {
+              const isDefault = branch.name === repository.default_branch;
+              return (
+                <li key={branch.name} className="p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center flex-wrap gap-2">
+                        <GitBranch className="w-4 h-4 text-purple-400 flex-shrink-0" />
+                        <span className="text-white font-medium text-sm font-mono truncate">{branch.name}</span>
+                        {isDefault && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-200 text-xs">
+                            <Star className="w-3 h-3" /> default
+                          </span>
+                        )}
+                        {branch.protected && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-200 text-xs">
+                            <Shield className="w-3 h-3" /> protected
+                          </span>
+                        )}
+                        {checkMerged && merged.includes(branch.name) && (
+                          <span className="px-2 py-0.5 rounded-full bg-green-500/20 text-green-300 text-xs">merged</span>
+                        )}
+                      </div>
+                      {branch.lastCommit && (
+                        <div className="mt-1 text-xs text-purple-200 truncate">
+                          <code className="font-mono">{branch.lastCommit.oid.slice(0, 7)}</code>
+                          {' '}{branch.lastCommit.messageHeadline}
+                          {branch.lastCommit.authorName && ` · ${branch.lastCommit.authorName}`}
+                          {branch.lastCommit.committedDate && ` · ${formatDate(branch.lastCommit.committedDate)}`}
+                        </div>
+                      )}
+                    </div>
+
+                    {!isDefault && isAdmin && writable && pendingDefault !== branch.name && (
+                      <button
+                        onClick={() => setPendingDefault(branch.name)}
+                        className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-purple-100 text-xs flex-shrink-0"
+                      >
+                        Make default
+                      </button>
+                    )}
+                  </div>
+
+                  {pendingDefault === branch.name && (
+                    <div className="mt-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-2">
+                      <p className="text-yellow-200 text-xs sm:text-sm">
+                        Switch the default branch from {repository.default_branch} to {branch.name}? New pull requests and
+                        clones will target {branch.name}; local clones need their remote HEAD updated.
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleSetDefault(branch.name)}
+                          disabled={setDefaultBranch.isPending}
+                          className="flex items-center space-x-2 px-3 py-1.5 bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 text-white rounded-lg text-xs sm:text-sm font-medium"
+                        >
+                          {setDefaultBranch.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+                          <span>Switch default</span>
+                        </button>
+                        <button
+                          onClick={() => setPendingDefault(null)}
+                          disabled={setDefaultBranch.isPending}
+                          className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-purple-100 rounded-lg text-xs sm:text-sm"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BranchesPanel;
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BulkTopicsModal from './BulkTopicsModal';
+import { githubApi } from '@/utils/api';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+
+describe('BulkTopicsModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('reviews the plan before changing any topics', async () => {
+    const user = userEvent.setup();
+    const repositories = await Promise.all([
+      githubApi.fetchRepository('octo-dev', 'vlast-cli'),
+      githubApi.fetchRepository('octo-dev', 'dotfiles'),
+    ]);
+    renderWithClient(<BulkTopicsModal repositories={repositories} isOpen onClose={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Add topics'), 'cli{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Review plan' }));
+
+    expect(screen.getByText('1 to change · 0 to delete · 1 skipped')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export plan as JSON' })).toBeInTheDocument();
+    expect((await githubApi.fetchRepository('octo-dev', 'dotfiles')).topics).not.toContain('cli');
+
+    await user.click(screen.getByRole('button', { name: 'Apply topics to 1' }));
+
+    expect(await screen.findByText('1 succeeded · 0 failed · 1 skipped')).toBeInTheDocument();
+    expect((await githubApi.fetchRepository('octo-dev', 'dotfiles')).topics).toContain('cli');
+  });
+});
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tag, Loader2, Download } from 'lucide-react';
+import type { Repository, RepositoryPlan } from '@/types';
+import { useBatchOperations } from '@/hooks/useBatchOperations';
+import { buildPlan, downloadPlan } from '@/utils/batchOperations';
+import { countTopics } from '@/utils/topics';
+import TopicInput from './TopicInput';
+import BatchProgress from './BatchProgress';
+import PlanReview from './PlanReview';
+
+interface BulkTopicsModalProps {
+  repositories: Repository[];
+  suggestions?: string[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Adds and removes topics on every selected repository at once, after reviewing the plan
+const BulkTopicsModal: React.FC<BulkTopicsModalProps> = ({ repositories, suggestions = [], isOpen, onClose }) => {
+  const [add, setAdd] = useState<string[]>([]);
+  const [remove, setRemove] = useState<string[]>([]);
+  const [plan, setPlan] = useState<RepositoryPlan | null>(null);
+  const batch = useBatchOperations();
+  const hasRun = batch.jobs.length > 0;
+  const plannedCount = plan?.items.filter((item) => item.action !== 'skip').length ?? 0;
+
+  // Only topics some selected repository has can be removed
+  const presentTopics = useMemo(() => countTopics(repositories), [repositories]);
+  const nonAdmins = repositories.filter((repo) => !repo.permissions?.admin);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = isOpen ? 'hidden' : 'unset';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  // Any change to the topics invalidates the reviewed plan
+  const changeTopics = (apply: () => void) => {
+    apply();
+    setPlan(null);
+    batch.reset();
+  };
+
+  const toggleRemove = (topic: string) => {
+    changeTopics(() =>
+      setRemove((current) => (current.includes(topic) ? current.filter((t) => t !== topic) : [...current, topic]))
+    );
+  };
+
+  const handleReview = () => {
+    setPlan(buildPlan({ kind: 'topics', add, remove }, repositories));
+  };
+
+  const handleApply = () => {
+    if (plan) void batch.apply(plan);
+  };
+
+  const handleClose = () => {
+    if (!batch.isRunning) onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className="relative w-full max-w-lg max-h-[95vh] bg-gray-900/95 backdrop-blur-lg border border-purple-400/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+          >
+            <div className="flex-shrink-0 p-4 sm:p-6 border-b border-purple-400/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className="p-2 rounded-full bg-purple-500/20">
+                    <Tag className="w-5 h-5 sm:w-6 sm:h-6 text-purple-300" />
+                  </div>
+                  <h2 className="text-lg sm:text-xl font-semibold text-purple-100">
+                    Edit Topics on {repositories.length} Repositor{repositories.length === 1 ? 'y' : 'ies'}
+                  </h2>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={handleClose}
+                  aria-label="Close"
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+                >
+                  <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-5">
+              <div>
+                <label htmlFor="bulk-add-topics" className="block text-sm font-medium text-purple-200 mb-2">
+                  Add topics
+                </label>
+                <TopicInput
+                  id="bulk-add-topics"
+                  topics={add}
+                  onChange={(topics) => changeTopics(() => setAdd(topics))}
+                  suggestions={suggestions}
+                  disabled={batch.isRunning}
+                />
+              </div>
+
+              {presentTopics.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-purple-200 mb-2">Remove topics</div>
+                  <div className="flex flex-wrap gap-2">
+                    {presentTopics.map(({ topic, count }) => (
+                      <button
+                        key={topic}
+                        onClick={() => toggleRemove(topic)}
+                        disabled={batch.isRunning}
+                        aria-pressed={remove.includes(topic)}
+                        className={`px-3 py-1 rounded-full text-xs sm:text-sm border transition-colors ${
+                          remove.includes(topic)
+                            ? 'bg-red-500/20 text-red-300 border-red-500/40 line-through'
+                            : 'bg-purple-500/20 text-purple-300 border-purple-500/30 hover:bg-purple-500/30'
+                        }`}
+                      >
+                        {topic} ({count})
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {nonAdmins.length > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                  You are not an admin of {nonAdmins.map((repo) => repo.full_name).join(', ')}; updating{' '}
+                  {nonAdmins.length === 1 ? 'it' : 'them'} will fail.
+                </div>
+              )}
+
+              {plan && !hasRun && <PlanReview plan={plan} />}
+
+              {hasRun && (
+                <BatchProgress
+                  jobs={batch.jobs}
+                  counts={batch.counts}
+                  isRunning={batch.isRunning}
+                  onRetryFailed={() => void batch.retryFailed()}
+                />
+              )}
+            </div>
+
+            <div className="flex-shrink-0 p-4 sm:p-6 border-t border-purple-400/20">
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleClose}
+                  disabled={batch.isRunning}
+                  className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 text-sm sm:text-base"
+                >
+                  {hasRun ? 'Done' : 'Cancel'}
+                </button>
+                {plan && (
+                  <button
+                    onClick={() => downloadPlan(plan, batch.jobs)}
+                    disabled={batch.isRunning}
+                    aria-label="Export plan as JSON"
+                    title={hasRun ? 'Export the plan with each outcome' : 'Export the plan'}
+                    className="px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={plan ? handleApply : handleReview}
+                  disabled={
+                    batch.isRunning ||
+                    hasRun ||
+                    (add.length === 0 && remove.length === 0) ||
+                    (plan !== null && plannedCount === 0)
+                  }
+                  className="flex-1 px-4 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
+                >
+                  {batch.isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Tag className="w-4 h-4" />}
+                  <span>{plan ? `Apply topics to ${plannedCount}` : 'Review plan'}</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BulkTopicsModal;
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ConfirmArchiveModal from './ConfirmArchiveModal';
+import { githubApi } from '@/utils/api';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+import type { Repository } from '@/types';
+
+const renderModal = (repository: Repository) => {
+  const onClose = vi.fn();
+  const onArchivedChange = vi.fn();
+  renderWithClient(
+    <ConfirmArchiveModal repository={repository} isOpen onClose={onClose} onArchivedChange={onArchivedChange} />
+  );
+  return { onClose, onArchivedChange };
+};
+
+describe('ConfirmArchiveModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('explains the consequences and archives the repository', async () => {
+    const user = userEvent.setup();
+    const { onClose, onArchivedChange } = renderModal(await githubApi.fetchRepository('octo-dev', 'dotfiles'));
+
+    expect(screen.getByText(/read-only for everyone/)).toBeInTheDocument();
+    expect(screen.getByText('1 to change · 0 to delete · 0 skipped')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /archive repository/i }));
+
+    expect(await screen.findByText('1 succeeded · 0 failed · 0 skipped')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onClose).toHaveBeenCalled();
+    expect(onArchivedChange).toHaveBeenCalledWith(expect.objectContaining({ archived: true }));
+    await expect(
+      githubApi.uploadFile('octo-dev', 'dotfiles', { path: 'notes.md', content: 'notes', message: 'Add notes' })
+    ).rejects.toThrow('Repository was archived so is read-only.');
+  });
+
+  it('unarchives an archived repository', async () => {
+    const user = userEvent.setup();
+    await githubApi.setRepositoryArchived('octo-dev', 'dotfiles', true);
+    const { onClose } = renderModal(await githubApi.fetchRepository('octo-dev', 'dotfiles'));
+
+    await user.click(screen.getByRole('button', { name: /unarchive repository/i }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Done' })).toBeEnabled());
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onClose).toHaveBeenCalled();
+    expect((await githubApi.fetchRepository('octo-dev', 'dotfiles')).archived).toBe(false);
+  });
+
+  it('only lets admins archive', async () => {
+    renderModal(await githubApi.fetchRepository('lena-park', 'design-tokens'));
+
+    expect(screen.getByText(/only repository admins/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /archive repository/i })).toBeDisabled();
+  });
+});
@@ -0,0 +1,212 @@
+import React, { useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Archive, ArchiveRestore, X, Loader2, Info, Download } from 'lucide-react';
+import type { Repository } from '@/types';
+import { useBatchOperations } from '@/hooks/useBatchOperations';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import { buildPlan, downloadPlan } from '@/utils/batchOperations';
+import { getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
+import BatchProgress from './BatchProgress';
+import PlanReview from './PlanReview';
+
+interface ConfirmArchiveModalProps {
+  repository: Repository | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onArchivedChange?: (repository: Repository) => void;
+}
+
+// Archives or unarchives, depending on the repository's current state, through a one-repository plan
+const ConfirmArchiveModal: React.FC<ConfirmArchiveModalProps> = ({
+  repository,
+  isOpen,
+  onClose,
+  onArchivedChange,
+}) => {
+  const batch = useBatchOperations();
+  const { canModify, isReadOnly } = useTokenPermissions();
+  // Planned afresh each time the modal opens
+  const plan = useMemo(
+    () => (repository && isOpen ? buildPlan({ kind: 'archive', archived: !repository.archived }, [repository]) : null),
+    [repository, isOpen]
+  );
+
+  // Prevent body scroll when modal is open
+  React.useEffect(() => {
+    document.body.style.overflow = isOpen ? 'hidden' : 'unset';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  if (!repository) return null;
+
+  const archiving = !repository.archived;
+  const isAdmin = repository.permissions?.admin ?? false;
+  const allowed = canModify(repository) && isAdmin;
+
+  const hasRun = batch.jobs.length > 0;
+  const plannedCount = plan?.items.filter((item) => item.action !== 'skip').length ?? 0;
+
+  const handleConfirm = () => {
+    if (plan) void batch.apply(plan);
+  };
+
+  const handleClose = () => {
+    if (!batch.isRunning) {
+      const changed = batch.counts.succeeded > 0;
+      batch.reset();
+      onClose();
+      if (changed && onArchivedChange) onArchivedChange({ ...repository, archived: archiving });
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className="relative w-full max-w-md max-h-[95vh] bg-gray-900/95 backdrop-blur-lg border border-yellow-500/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+          >
+            {/* Header */}
+            <div className="flex-shrink-0 p-4 sm:p-6 border-b border-yellow-500/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className="p-2 rounded-full bg-yellow-500/20">
+                    {archiving ? (
+                      <Archive className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-400" />
+                    ) : (
+                      <ArchiveRestore className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-400" />
+                    )}
+                  </div>
+                  <h2 className="text-lg sm:text-xl font-semibold text-yellow-200">
+                    {archiving ? 'Archive Repository' : 'Unarchive Repository'}
+                  </h2>
+                </div>
+                {!batch.isRunning && (
+                  <motion.button
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={handleClose}
+                    aria-label="Close"
+                    className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+                  >
+                    <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                  </motion.button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+                <p className="text-white font-medium text-sm sm:text-base">
+                  {archiving ? 'Archive' : 'Unarchive'}{' '}
+                  <span className="text-yellow-300 font-bold">{repository.full_name}</span>?
+                </p>
+                <div className="p-3 sm:p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                  <div className="flex items-start space-x-2">
+                    <Info className="w-4 h-4 sm:w-5 sm:h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+                    {archiving ? (
+                      <div className="text-xs sm:text-sm text-yellow-100 space-y-2">
+                        <p>The repository becomes read-only for everyone, including you:</p>
+                        <ul className="list-disc ml-4 space-y-1">
+                          <li>No pushes, new branches, file uploads or file deletions</li>
+                          <li>No new issues, pull requests or comments</li>
+                          <li>Settings, topics, visibility and branch protection cannot be changed</li>
+                        </ul>
+                        <p>
+                          Nothing is deleted. Code, history, stars and forks are kept, and you can unarchive it at any
+                          time. Unlike deleting, this is fully reversible.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="text-xs sm:text-sm text-yellow-100">
+                        The repository becomes writable again: pushes, issues, pull requests and settings changes are
+                        allowed for everyone with access.
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {!allowed && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                    {isReadOnly(repository)
+                      ? READ_ONLY_MESSAGE
+                      : !canModify(repository)
+                        ? getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')
+                        : 'Only repository admins can archive or unarchive it.'}
+                  </div>
+                )}
+
+                {plan &&
+                  (hasRun ? (
+                    <BatchProgress
+                      jobs={batch.jobs}
+                      counts={batch.counts}
+                      isRunning={batch.isRunning}
+                      onRetryFailed={() => void batch.retryFailed()}
+                    />
+                  ) : (
+                    <PlanReview plan={plan} />
+                  ))}
+              </div>
+            </div>
+
+            {/* Fixed Footer Actions */}
+            <div className="flex-shrink-0 p-4 sm:p-6 border-t border-yellow-500/20">
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleClose}
+                  disabled={batch.isRunning}
+                  className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+                >
+                  {hasRun ? 'Done' : 'Cancel'}
+                </button>
+                {plan && (
+                  <button
+                    onClick={() => downloadPlan(plan, batch.jobs)}
+                    disabled={batch.isRunning}
+                    aria-label="Export plan as JSON"
+                    title={hasRun ? 'Export the plan with its outcome' : 'Export the plan'}
+                    className="px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={handleConfirm}
+                  disabled={batch.isRunning || hasRun || !allowed || plannedCount === 0}
+                  className="flex-1 px-4 py-3 bg-yellow-600 text-white hover:bg-yellow-700 disabled:bg-yellow-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
+                >
+                  {batch.isRunning ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : archiving ? (
+                    <Archive className="w-4 h-4" />
+                  ) : (
+                    <ArchiveRestore className="w-4 h-4" />
+                  )}
+                  <span>{archiving ? 'Archive Repository' : 'Unarchive Repository'}</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ConfirmArchiveModal;
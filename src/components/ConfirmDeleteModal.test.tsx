@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ConfirmDeleteModal from './ConfirmDeleteModal';
+import { buildRepository } from '@/mocks/fixtures';
+import { githubApi } from '@/utils/api';
+import { testServer } from '@/test/fakeFetch';
+import { CLASSIC_PERMISSIONS, renderWithClient, signInTestAccount } from '@/test/utils';
+import type { Repository } from '@/types';
+
+const renderModal = (repository: Repository = buildRepository({ name: 'dotfiles' })) => {
+  const onClose = vi.fn();
+  const onDeleted = vi.fn();
+  renderWithClient(
+    <ConfirmDeleteModal repository={repository} isOpen onClose={onClose} onDeleted={onDeleted} />
+  );
+  return { onDeleted, onClose };
+};
+
+const isOnServer = (name: string) => testServer.getRepositories().some((repo) => repo.name === name);
+
+const deleteButton = () => screen.getByRole('button', { name: /delete repository/i });
+
+describe('ConfirmDeleteModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('only enables deletion once the exact name is typed', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    expect(deleteButton()).toBeDisabled();
+
+    await user.type(screen.getByPlaceholderText('dotfiles'), 'dotfile');
+    expect(deleteButton()).toBeDisabled();
+
+    await user.type(screen.getByPlaceholderText('dotfiles'), 's');
+    expect(deleteButton()).toBeEnabled();
+  });
+
+  it('reviews the plan, deletes the repository and reports the outcome', async () => {
+    const user = userEvent.setup();
+    const { onDeleted, onClose } = renderModal();
+
+    expect(screen.getByText('Will be deleted permanently')).toBeInTheDocument();
+    await user.type(screen.getByPlaceholderText('dotfiles'), 'dotfiles');
+    await user.click(deleteButton());
+
+    expect(await screen.findByText('1 succeeded · 0 failed · 0 skipped')).toBeInTheDocument();
+    expect(isOnServer('dotfiles')).toBe(false);
+    expect(onClose).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onClose).toHaveBeenCalled();
+    expect(onDeleted).toHaveBeenCalledWith(expect.objectContaining({ name: 'dotfiles' }));
+  });
+
+  it('shows the error and stays open when deletion fails', async () => {
+    const user = userEvent.setup();
+    const { onClose, onDeleted } = renderModal(await githubApi.fetchRepository('lena-park', 'design-tokens'));
+
+    await user.type(screen.getByPlaceholderText('design-tokens'), 'design-tokens');
+    await user.click(deleteButton());
+
+    expect(await screen.findByText(/Must have admin rights to Repository\./)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry 1 failed' })).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onDeleted).not.toHaveBeenCalled();
+  });
+
+  it('cancel closes without deleting', async () => {
+    const user = userEvent.setup();
+    const { onDeleted, onClose } = renderModal();
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onClose).toHaveBeenCalled();
+    expect(onDeleted).not.toHaveBeenCalled();
+    expect(isOnServer('dotfiles')).toBe(true);
+  });
+
+  it('blocks deletion when the token lacks delete_repo', async () => {
+    signInTestAccount({ ...CLASSIC_PERMISSIONS, scopes: ['repo', 'user'] });
+    renderModal();
+
+    expect(screen.getByText(/delete_repo/)).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('dotfiles')).toBeDisabled();
+    expect(deleteButton()).toBeDisabled();
+  });
+});
@@ -1,24 +1,44 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertTriangle, X, Trash2, Loader2 } from 'lucide-react';
-import { Repository } from '../data/fakeRepos';
+import { AlertTriangle, X, Trash2, Loader2, Archive, Download } from 'lucide-react';
+import type { Repository } from '@/types';
+import { useBatchOperations } from '@/hooks/useBatchOperations';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import { buildPlan, downloadPlan } from '@/utils/batchOperations';
+import { getMissingScopeMessage } from '@/utils/scopes';
+import BatchProgress from './BatchProgress';
+import PlanReview from './PlanReview';
 
 interface ConfirmDeleteModalProps {
   repository: Repository | null;
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (repo: Repository) => Promise<void>;
+  // Called when the modal is closed after the repository was deleted
+  onDeleted?: (repo: Repository) => void;
+  // Offered as a reversible alternative while the repository is not archived yet
+  onArchiveInstead?: (repo: Repository) => void;
 }
 
+// Deletion goes through the same reviewable, exportable plan as batch deletes
 const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
   repository,
   isOpen,
   onClose,
-  onConfirm,
+  onDeleted,
+  onArchiveInstead,
 }) => {
   const [confirmText, setConfirmText] = useState('');
-  const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState('');
+  const { canDelete } = useTokenPermissions();
+  const batch = useBatchOperations();
+  // Planned afresh each time the modal opens
+  const plan = useMemo(
+    () => (repository && isOpen ? buildPlan({ kind: 'delete' }, [repository]) : null),
+    [repository, isOpen]
+  );
+
+  const hasRun = batch.jobs.length > 0;
+  const isDeleting = batch.isRunning;
 
   // Prevent body scroll when modal is open
   React.useEffect(() => {
@@ -33,32 +53,26 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
     };
   }, [isOpen]);
 
-  const handleConfirm = async () => {
-    if (!repository) return;
+  const handleConfirm = () => {
+    if (!repository || !plan || !canDelete) return;
 
     if (confirmText !== repository.name) {
       setError(`The typed repository name does not match. Deletion cancelled.`);
       return;
     }
 
-    try {
-      setIsDeleting(true);
-      setError('');
-      await onConfirm(repository);
-      onClose();
-      setConfirmText('');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete repository');
-    } finally {
-      setIsDeleting(false);
-    }
+    setError('');
+    void batch.apply(plan);
   };
 
   const handleClose = () => {
     if (!isDeleting) {
+      const deleted = batch.counts.succeeded > 0;
       setConfirmText('');
       setError('');
+      batch.reset();
       onClose();
+      if (deleted && repository) onDeleted?.(repository);
     }
   };
 
@@ -128,6 +142,26 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
                   </div>
                 </div>
 
+                {onArchiveInstead && !repository.archived && !hasRun && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-100 text-xs sm:text-sm flex items-center justify-between gap-3">
+                    <span>Only want to stop changes? Archiving keeps everything and can be undone.</span>
+                    <button
+                      onClick={() => onArchiveInstead(repository)}
+                      disabled={isDeleting}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-yellow-500/20 text-yellow-200 hover:bg-yellow-500/30 border border-yellow-500/30 whitespace-nowrap disabled:opacity-50"
+                    >
+                      <Archive className="w-3 h-3" />
+                      <span>Archive instead</span>
+                    </button>
+                  </div>
+                )}
+
+                {!canDelete && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                    {getMissingScopeMessage('delete_repo')}
+                  </div>
+                )}
+
                 <div className="space-y-3">
                   <label className="block text-sm font-medium text-purple-200">
                     Type the repository name '{repository.name}' to confirm deletion:
@@ -140,7 +174,7 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
                       setError('');
                     }}
                     placeholder={repository.name}
-                    disabled={isDeleting}
+                    disabled={isDeleting || hasRun || !canDelete}
                     className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-red-300/50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm sm:text-base"
                   />
                 </div>
@@ -154,6 +188,18 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
                     {error}
                   </motion.div>
                 )}
+
+                {plan &&
+                  (hasRun ? (
+                    <BatchProgress
+                      jobs={batch.jobs}
+                      counts={batch.counts}
+                      isRunning={batch.isRunning}
+                      onRetryFailed={() => void batch.retryFailed()}
+                    />
+                  ) : (
+                    <PlanReview plan={plan} />
+                  ))}
               </div>
             </div>
 
@@ -167,13 +213,24 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
                   disabled={isDeleting}
                   className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
                 >
-                  Cancel
+                  {hasRun ? 'Done' : 'Cancel'}
                 </motion.button>
+                {plan && (
+                  <button
+                    onClick={() => downloadPlan(plan, batch.jobs)}
+                    disabled={isDeleting}
+                    aria-label="Export plan as JSON"
+                    title={hasRun ? 'Export the plan with its outcome' : 'Export the plan'}
+                    className="px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                   onClick={handleConfirm}
-                  disabled={isDeleting || confirmText !== repository.name}
+                  disabled={isDeleting || hasRun || !canDelete || confirmText !== repository.name}
                   className="flex-1 px-4 py-3 bg-red-600 text-white hover:bg-red-700 disabled:bg-red-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
                 >
                   {isDeleting ? (
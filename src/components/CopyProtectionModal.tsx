@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Shield, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import type { ProtectionCopyResult, Repository } from '@/types';
+import { useCopyProtection } from '@/hooks/useProtection';
+
+interface CopyProtectionModalProps {
+  repositories: Repository[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Copies one selected repository's default-branch protection to the rest of the selection
+const CopyProtectionModal: React.FC<CopyProtectionModalProps> = ({ repositories, isOpen, onClose }) => {
+  const admins = repositories.filter((repo) => repo.permissions?.admin);
+  const [sourceId, setSourceId] = useState<number | null>(admins[0]?.id ?? null);
+  const [includeRulesets, setIncludeRulesets] = useState(true);
+  const [result, setResult] = useState<ProtectionCopyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const copyProtection = useCopyProtection();
+
+  const source = repositories.find((repo) => repo.id === sourceId) ?? null;
+  const targets = repositories.filter((repo) => repo.id !== sourceId);
+  const nonAdminTargets = targets.filter((repo) => !repo.permissions?.admin);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = isOpen ? 'hidden' : 'unset';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  const handleCopy = async () => {
+    if (!source || targets.length === 0) return;
+
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await copyProtection.mutateAsync({ source, targets, includeRulesets }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy protection');
+    }
+  };
+
+  const handleClose = () => {
+    if (!copyProtection.isPending) onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className="relative w-full max-w-lg max-h-[95vh] bg-gray-900/95 backdrop-blur-lg border border-purple-400/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+          >
+            <div className="flex-shrink-0 p-4 sm:p-6 border-b border-purple-400/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className="p-2 rounded-full bg-purple-500/20">
+                    <Shield className="w-5 h-5 sm:w-6 sm:h-6 text-purple-300" />
+                  </div>
+                  <h2 className="text-lg sm:text-xl font-semibold text-purple-100">Copy Branch Protection</h2>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={handleClose}
+                  aria-label="Close"
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+                >
+                  <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-5">
+              {admins.length === 0 ? (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+                  You need admin rights on at least one selected repository to copy its protection.
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label htmlFor="protection-source" className="block text-sm font-medium text-purple-200 mb-2">
+                      Copy from
+                    </label>
+                    <select
+                      id="protection-source"
+                      value={sourceId ?? ''}
+                      disabled={copyProtection.isPending}
+                      onChange={(e) => {
+                        setSourceId(Number(e.target.value));
+                        setResult(null);
+                      }}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+                    >
+                      {admins.map((repo) => (
+                        <option key={repo.id} value={repo.id}>
+                          {repo.full_name} ({repo.default_branch})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <div className="text-sm font-medium text-purple-200 mb-2">
+                      Apply to the default branch of {targets.length} repositor{targets.length === 1 ? 'y' : 'ies'}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {targets.map((repo) => (
+                        <code key={repo.id} className="px-2 py-1 rounded bg-white/10 text-xs text-purple-100 font-mono">
+                          {repo.full_name}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeRulesets}
+                      disabled={copyProtection.isPending}
+                      onChange={(e) => setIncludeRulesets(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 bg-white/5 border-white/20 rounded focus:ring-purple-500"
+                    />
+                    <span className="text-sm text-white">Also copy rulesets (same-named rulesets are replaced)</span>
+                  </label>
+
+                  {nonAdminTargets.length > 0 && (
+                    <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                      You are not an admin of {nonAdminTargets.map((repo) => repo.full_name).join(', ')}; copying to{' '}
+                      {nonAdminTargets.length === 1 ? 'it' : 'them'} will fail.
+                    </div>
+                  )}
+                </>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">{error}</div>
+              )}
+
+              {result && (
+                <div className="space-y-2 text-sm">
+                  {result.applied.map((name) => (
+                    <div key={name} className="flex items-center space-x-2 text-green-400">
+                      <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                      <span>{name}</span>
+                    </div>
+                  ))}
+                  {result.failed.map(({ repository, message }) => (
+                    <div key={repository} className="flex items-center space-x-2 text-red-300">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      <span>{repository}: {message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex-shrink-0 p-4 sm:p-6 border-t border-purple-400/20">
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleClose}
+                  disabled={copyProtection.isPending}
+                  className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 text-sm sm:text-base"
+                >
+                  {result ? 'Done' : 'Cancel'}
+                </button>
+                <button
+                  onClick={handleCopy}
+                  disabled={copyProtection.isPending || !source || targets.length === 0}
+                  className="flex-1 px-4 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
+                >
+                  {copyProtection.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shield className="w-4 h-4" />}
+                  <span>Copy protection</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CopyProtectionModal;
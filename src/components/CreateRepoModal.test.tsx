@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CreateRepoModal from './CreateRepoModal';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+
+describe('CreateRepoModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('offers internal visibility only for organizations and creates the repository there', async () => {
+    const user = userEvent.setup();
+    const onSuccess = vi.fn();
+    renderWithClient(<CreateRepoModal isOpen onClose={vi.fn()} onSuccess={onSuccess} />);
+
+    const owner = await screen.findByLabelText('Owner');
+    expect(screen.queryByText('Internal')).not.toBeInTheDocument();
+
+    await user.selectOptions(owner, 'vlast-labs');
+    await user.click(screen.getByText('Internal'));
+    await user.type(screen.getByPlaceholderText('my-awesome-project'), 'handbook');
+    await user.click(screen.getByRole('button', { name: /create repository/i }));
+
+    await waitFor(() => expect(onSuccess).toHaveBeenCalled());
+    expect(onSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({ full_name: 'vlast-labs/handbook', visibility: 'internal' })
+    );
+
+    // Switching back to the personal account falls back to private
+    await user.selectOptions(owner, 'vlast-labs');
+    await user.click(screen.getByText('Internal'));
+    await user.selectOptions(owner, '');
+    expect(screen.queryByText('Internal')).not.toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: /private/i })).toBeChecked();
+  });
+});
@@ -1,22 +1,71 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Plus, AlertCircle, Loader2, CheckCircle, Lock, Unlock, FileText } from 'lucide-react';
-import { config } from '../config/environment';
-import { githubApi } from '../utils/githubApi';
+import { X, Plus, AlertCircle, Loader2, CheckCircle, Lock, Unlock, FileText, Building2 } from 'lucide-react';
+import { useAccounts } from '../hooks/useAccounts';
+import { useOrganizations } from '../hooks/useOrganizations';
+import { useCreateRepository } from '../hooks/useRepositories';
+import type { CreateRepoFormData, RepositoryVisibility } from '@/types';
 
 interface CreateRepoModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: (repository: any) => void;
+  defaultOwner?: string; // an organization to preselect
 }
 
-const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSuccess }) => {
-  const [formData, setFormData] = useState({
+const VISIBILITY_OPTIONS: Array<{
+  value: RepositoryVisibility;
+  label: string;
+  icon: React.ReactNode;
+  selectedClass: string;
+  organizationOnly?: boolean;
+}> = [
+  {
+    value: 'public',
+    label: 'Public',
+    icon: <Unlock className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />,
+    selectedClass: 'bg-green-500/10 border-green-500/30 text-green-300',
+  },
+  {
+    value: 'private',
+    label: 'Private',
+    icon: <Lock className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />,
+    selectedClass: 'bg-red-500/10 border-red-500/30 text-red-300',
+  },
+  {
+    value: 'internal',
+    label: 'Internal',
+    icon: <Building2 className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />,
+    selectedClass: 'bg-blue-500/10 border-blue-500/30 text-blue-300',
+    organizationOnly: true,
+  },
+];
+
+const describeVisibility = (visibility: RepositoryVisibility, org: string | null): string => {
+  switch (visibility) {
+    case 'public':
+      return 'Anyone can see this repository';
+    case 'private':
+      return org ? `Only ${org} members you grant access can see this repository` : 'Only you can see this repository';
+    case 'internal':
+      return `Everyone in ${org}'s enterprise can see this repository`;
+  }
+};
+
+const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSuccess, defaultOwner }) => {
+  const { activeAccount } = useAccounts();
+  const { data: organizations = [] } = useOrganizations();
+  const createRepository = useCreateRepository();
+
+  // An empty owner means the user's own account
+  const initialFormData = (): CreateRepoFormData => ({
+    owner: defaultOwner ?? '',
     name: '',
     description: '',
-    private: false,
+    visibility: 'public',
     autoInit: true,
   });
+  const [formData, setFormData] = useState<CreateRepoFormData>(initialFormData);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState('');
   const [nameError, setNameError] = useState('');
@@ -56,6 +105,18 @@ const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSu
     return '';
   };
 
+  const org = formData.owner || null;
+
+  const handleOwnerChange = (owner: string) => {
+    setFormData(prev => ({
+      ...prev,
+      owner,
+      // Personal accounts have no internal repositories
+      visibility: !owner && prev.visibility === 'internal' ? 'private' : prev.visibility,
+    }));
+    setError('');
+  };
+
   const handleNameChange = (name: string) => {
     setFormData(prev => ({ ...prev, name }));
     setNameError(validateRepoName(name));
@@ -76,53 +137,18 @@ const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSu
       setError('');
       setNameError('');
 
-      let newRepo;
-      
-      if (config.isDevelopment) {
-        // Mock repository creation for development
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        newRepo = {
-          id: Date.now(),
-          name: formData.name,
-          full_name: `user/${formData.name}`,
-          description: formData.description,
-          private: formData.private,
-          html_url: `https://github.com/user/${formData.name}`,
-          clone_url: `https://github.com/user/${formData.name}.git`,
-          ssh_url: `git@github.com:user/${formData.name}.git`,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          pushed_at: new Date().toISOString(),
-          stargazers_count: 0,
-          forks_count: 0,
-          watchers_count: 0,
-          language: null,
-          size: 0,
-          default_branch: 'main',
-          open_issues_count: 0,
-          topics: [],
-          visibility: formData.private ? 'private' : 'public',
-          archived: false,
-          disabled: false,
-        };
-      } else {
-        newRepo = await githubApi.createRepository({
-          name: formData.name,
-          description: formData.description,
-          private: formData.private,
-          auto_init: formData.autoInit,
-        });
-      }
+      // Only the organization endpoint understands `visibility`
+      const newRepo = await createRepository.mutateAsync({
+        name: formData.name,
+        description: formData.description,
+        ...(org ? { org, visibility: formData.visibility } : { private: formData.visibility === 'private' }),
+        auto_init: formData.autoInit,
+      });
 
       onSuccess(newRepo);
       
       // Reset form
-      setFormData({
-        name: '',
-        description: '',
-        private: false,
-        autoInit: true,
-      });
+      setFormData(initialFormData());
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create repository. Please try again.');
@@ -133,12 +159,7 @@ const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSu
 
   const handleClose = () => {
     if (!isCreating) {
-      setFormData({
-        name: '',
-        description: '',
-        private: false,
-        autoInit: true,
-      });
+      setFormData(initialFormData());
       setError('');
       setNameError('');
       onClose();
@@ -193,6 +214,31 @@ const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSu
             {/* Scrollable Form Content */}
             <div className="flex-1 overflow-y-auto">
               <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+                {/* Owner */}
+                {organizations.length > 0 && (
+                  <div>
+                    <label htmlFor="create-repo-owner" className="block text-sm font-medium text-purple-200 mb-2">
+                      Owner
+                    </label>
+                    <select
+                      id="create-repo-owner"
+                      value={formData.owner}
+                      onChange={(e) => handleOwnerChange(e.target.value)}
+                      disabled={isCreating}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm sm:text-base"
+                    >
+                      <option value="" className="bg-gray-800">
+                        {activeAccount?.user?.login ?? 'Your account'} (you)
+                      </option>
+                      {organizations.map(({ login }) => (
+                        <option key={login} value={login} className="bg-gray-800">
+                          {login}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Repository Name */}
                 <div>
                   <label className="block text-sm font-medium text-purple-200 mb-2">
@@ -241,51 +287,31 @@ const CreateRepoModal: React.FC<CreateRepoModalProps> = ({ isOpen, onClose, onSu
                     Repository Visibility
                   </label>
                   <div className="space-y-2 sm:space-y-3">
-                    <motion.label
-                      whileHover={{ scale: 1.02 }}
-                      className={`flex items-center space-x-3 p-3 sm:p-4 rounded-xl border cursor-pointer transition-all ${
-                        !formData.private
-                          ? 'bg-green-500/10 border-green-500/30 text-green-300'
-                          : 'bg-white/5 border-white/20 text-purple-200 hover:bg-white/10'
-                      }`}
-                    >
-                      <input
-                        type="radio"
-                        name="visibility"
-                        checked={!formData.private}
-                        onChange={() => setFormData(prev => ({ ...prev, private: false }))}
-                        disabled={isCreating}
-                        className="sr-only"
-                      />
-                      <Unlock className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />
-                      <div>
-                        <div className="font-medium text-sm sm:text-base">Public</div>
-                        <div className="text-xs sm:text-sm opacity-70">Anyone can see this repository</div>
-                      </div>
-                    </motion.label>
-
-                    <motion.label
-                      whileHover={{ scale: 1.02 }}
-                      className={`flex items-center space-x-3 p-3 sm:p-4 rounded-xl border cursor-pointer transition-all ${
-                        formData.private
-                          ? 'bg-red-500/10 border-red-500/30 text-red-300'
-                          : 'bg-white/5 border-white/20 text-purple-200 hover:bg-white/10'
-                      }`}
-                    >
-                      <input
-                        type="radio"
-                        name="visibility"
-                        checked={formData.private}
-                        onChange={() => setFormData(prev => ({ ...prev, private: true }))}
-                        disabled={isCreating}
-                        className="sr-only"
-                      />
-                      <Lock className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />
-                      <div>
-                        <div className="font-medium text-sm sm:text-base">Private</div>
-                        <div className="text-xs sm:text-sm opacity-70">Only you can see this repository</div>
-                      </div>
-                    </motion.label>
+                    {VISIBILITY_OPTIONS.filter(({ organizationOnly }) => !organizationOnly || org).map((option) => (
+                      <motion.label
+                        key={option.value}
+                        whileHover={{ scale: 1.02 }}
+                        className={`flex items-center space-x-3 p-3 sm:p-4 rounded-xl border cursor-pointer transition-all ${
+                          formData.visibility === option.value
+                            ? option.selectedClass
+                            : 'bg-white/5 border-white/20 text-purple-200 hover:bg-white/10'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="visibility"
+                          checked={formData.visibility === option.value}
+                          onChange={() => setFormData(prev => ({ ...prev, visibility: option.value }))}
+                          disabled={isCreating}
+                          className="sr-only"
+                        />
+                        {option.icon}
+                        <div>
+                          <div className="font-medium text-sm sm:text-base">{option.label}</div>
+                          <div className="text-xs sm:text-sm opacity-70">{describeVisibility(option.value, org)}</div>
+                        </div>
+                      </motion.label>
+                    ))}
                   </div>
                 </div>
 
@@ -1,33 +1,51 @@
 import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LogOut, Search, RefreshCw, Grid3X3, List, User, Plus } from 'lucide-react';
-import { useRepositories, useToggleRepositoryVisibility, useDeleteRepository } from '@/hooks/useRepositories';
+import {
+  LogOut, Search, RefreshCw, Grid3X3, List, User, Plus, Shield, ShieldCheck, CheckSquare, X, Tag,
+  Lock, Archive, Settings, Trash2, History,
+} from 'lucide-react';
+import { useRepositories } from '@/hooks/useRepositories';
 import { useAuth } from '@/hooks/useAuth';
+import { useAccounts, useActiveAccountId } from '@/hooks/useAccounts';
+import { useOrganizations } from '@/hooks/useOrganizations';
 import { calculateRepositoryStats } from '@/utils/formatters';
+import { countTopics } from '@/utils/topics';
+import { isOwnedBy, summarizeOwners } from '@/utils/owners';
 import RepoCard from '@/components/RepoCard';
 import RepoDetailModal from '@/components/RepoDetailModal';
 import WidgetComponent from '@/components/WidgetComponent';
 import UserProfileChart from '@/components/UserProfileChart';
 import ConfirmDeleteModal from '@/components/ConfirmDeleteModal';
+import ConfirmArchiveModal from '@/components/ConfirmArchiveModal';
 import CreateRepoModal from '@/components/CreateRepoModal';
+import CopyProtectionModal from '@/components/CopyProtectionModal';
+import BulkTopicsModal from '@/components/BulkTopicsModal';
+import BatchOperationModal from '@/components/BatchOperationModal';
+import type { BatchOperationKind } from '@/components/BatchOperationModal';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import type { Repository, VisibilityFilter, ViewMode } from '@/types';
+import RateLimitIndicator from '@/components/RateLimitIndicator';
+import AccountSwitcher from '@/components/AccountSwitcher';
+import VaultSettingsModal from '@/components/VaultSettingsModal';
+import TokenExpiryIndicator from '@/components/TokenExpiryIndicator';
+import TokenExpiryBanner from '@/components/TokenExpiryBanner';
+import type { ArchivedFilter, Repository, VisibilityFilter, ViewMode } from '@/types';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { logout } = useAuth();
+  const { logout, vaultStatus } = useAuth();
   
   // Data fetching
-  const { data: repositories = [], isLoading, error, refetch, isRefetching } = useRepositories();
-  
-  // Mutations
-  const toggleVisibilityMutation = useToggleRepositoryVisibility();
-  const deleteRepositoryMutation = useDeleteRepository();
+  const { data: repositories = [], isLoading, error, refetch, isRefetching } = useRepositories({ source: 'graphql' });
+  const { data: organizations = [] } = useOrganizations();
+  const { activeAccount } = useAccounts();
   
   // Local state
   const [searchQuery, setSearchQuery] = useState('');
+  const [ownerFilter, setOwnerFilter] = useState<string>('all');
   const [visibilityFilter, setVisibilityFilter] = useState<VisibilityFilter>('all');
+  const [archivedFilter, setArchivedFilter] = useState<ArchivedFilter>('all');
   const [languageFilter, setLanguageFilter] = useState<string>('all');
+  const [topicFilter, setTopicFilter] = useState<string>('all');
   const [selectedRepo, setSelectedRepo] = useState<Repository | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -36,10 +54,24 @@ const Dashboard: React.FC = () => {
   // Delete confirmation state
   const [repoToDelete, setRepoToDelete] = useState<Repository | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // Archive confirmation state
+  const [repoToArchive, setRepoToArchive] = useState<Repository | null>(null);
   
   // Create repository state
   const [showCreateModal, setShowCreateModal] = useState(false);
 
+  const [showVaultSettings, setShowVaultSettings] = useState(false);
+
+  // Multi-select state
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [showCopyProtection, setShowCopyProtection] = useState(false);
+  const [showBulkTopics, setShowBulkTopics] = useState(false);
+  // The selection is captured when a batch starts, so deleted repositories stay listed in its progress
+  const [batchAction, setBatchAction] = useState<{ kind: BatchOperationKind; repositories: Repository[] } | null>(null);
+  const selectionAnchorRef = useRef<number | null>(null);
+
   // Ref for debouncing refresh
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -52,12 +84,26 @@ const Dashboard: React.FC = () => {
     return Array.from(new Set(repositories.map(repo => repo.language).filter((lang): lang is string => lang !== null)));
   }, [repositories]);
 
+  // Topic facet counts, also used as autocomplete suggestions
+  const topicCounts = useMemo(() => countTopics(repositories), [repositories]);
+  const knownTopics = useMemo(() => topicCounts.map(({ topic }) => topic), [topicCounts]);
+
   const realTimeStats = useMemo(() => {
     return calculateRepositoryStats(repositories);
   }, [repositories]);
 
+  const owners = useMemo(
+    () => summarizeOwners(repositories, organizations, activeAccount?.user),
+    [repositories, organizations, activeAccount]
+  );
+
+  // The owner filter also scopes the stats widgets
+  const ownerRepos = useMemo(() => {
+    return ownerFilter === 'all' ? repositories : repositories.filter(repo => isOwnedBy(repo, ownerFilter));
+  }, [repositories, ownerFilter]);
+
   const filteredRepos = useMemo(() => {
-    let filtered = repositories;
+    let filtered = ownerRepos;
 
     // Apply search filter
     if (searchQuery) {
@@ -74,13 +120,23 @@ const Dashboard: React.FC = () => {
       );
     }
 
+    // Apply archived filter
+    if (archivedFilter !== 'all') {
+      filtered = filtered.filter(repo => repo.archived === (archivedFilter === 'archived'));
+    }
+
     // Apply language filter
     if (languageFilter !== 'all') {
       filtered = filtered.filter(repo => repo.language === languageFilter);
     }
 
+    // Apply topic filter
+    if (topicFilter !== 'all') {
+      filtered = filtered.filter(repo => repo.topics?.includes(topicFilter));
+    }
+
     return filtered;
-  }, [repositories, searchQuery, visibilityFilter, languageFilter]);
+  }, [ownerRepos, searchQuery, visibilityFilter, archivedFilter, languageFilter, topicFilter]);
 
   // Calculate paginated repos
   const totalPages = Math.ceil(filteredRepos.length / reposPerPage);
@@ -94,6 +150,67 @@ const Dashboard: React.FC = () => {
     if (currentPage > totalPages) setCurrentPage(1);
   }, [filteredRepos, totalPages]);
 
+  // Drop the topic filter once no repository has that topic any more
+  React.useEffect(() => {
+    if (topicFilter !== 'all' && !knownTopics.includes(topicFilter)) setTopicFilter('all');
+  }, [knownTopics, topicFilter]);
+
+  // Likewise for an owner that is gone, e.g. after leaving an organization
+  React.useEffect(() => {
+    if (ownerFilter !== 'all' && !owners.some(({ login }) => login === ownerFilter)) setOwnerFilter('all');
+  }, [owners, ownerFilter]);
+
+  // Selected repositories, kept in sync with the list so deleted ones drop out
+  const selectedRepos = useMemo(() => {
+    return repositories.filter(repo => selectedIds.has(repo.id));
+  }, [repositories, selectedIds]);
+
+  // Close per-repository views when switching accounts
+  const accountId = useActiveAccountId();
+  React.useEffect(() => {
+    setIsModalOpen(false);
+    setSelectedRepo(null);
+    setShowDeleteConfirm(false);
+    setRepoToDelete(null);
+    setRepoToArchive(null);
+    setCurrentPage(1);
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    setShowCopyProtection(false);
+    setShowBulkTopics(false);
+    setBatchAction(null);
+    setTopicFilter('all');
+    setOwnerFilter('all');
+  }, [accountId]);
+
+  // Shift-click selects every filtered repository between the last clicked one and this one
+  const handleSelectRepo = useCallback((repo: Repository, extendRange: boolean) => {
+    const anchorIndex = extendRange
+      ? filteredRepos.findIndex(candidate => candidate.id === selectionAnchorRef.current)
+      : -1;
+    const index = filteredRepos.findIndex(candidate => candidate.id === repo.id);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (anchorIndex !== -1 && index !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        filteredRepos.slice(start, end + 1).forEach(candidate => next.add(candidate.id));
+      } else if (next.has(repo.id)) {
+        next.delete(repo.id);
+      } else {
+        next.add(repo.id);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = repo.id;
+  }, [filteredRepos]);
+
+  const exitSelectionMode = useCallback(() => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
   // Enhanced refresh handler with debouncing
   const handleRefresh = useCallback(async () => {
     // Clear any existing timeout
@@ -136,41 +253,27 @@ const Dashboard: React.FC = () => {
   }, []);
 
   // Event handlers
-  const handleToggleVisibility = useCallback(async (repo: Repository) => {
-    try {
-      const [owner, repoName] = repo.full_name.split('/');
-      if (!owner || !repoName) {
-        throw new Error('Invalid repository name format');
-      }
-      await toggleVisibilityMutation.mutateAsync({
-        owner: owner!,
-        repo: repoName!,
-        makePrivate: !repo.private,
-      });
-    } catch (err) {
-      console.error('Failed to toggle repository visibility:', err);
-    }
-  }, [toggleVisibilityMutation]);
-
-  const handleDeleteRepository = useCallback(async (repo: Repository) => {
-    try {
-      const [owner, repoName] = repo.full_name.split('/');
-      if (!owner || !repoName) {
-        throw new Error('Invalid repository name format');
-      }
-      await deleteRepositoryMutation.mutateAsync({ owner: owner!, repo: repoName! });
-      await refetch();
-    } catch (err) {
-      console.error('Failed to delete repository:', err);
-      throw err; // Re-throw to be handled by the confirmation modal
-    }
-  }, [deleteRepositoryMutation, refetch]);
+  // Single-repository changes are reviewed as a one-repository plan, like batch ones
+  const handleToggleVisibility = useCallback((repo: Repository) => {
+    setBatchAction({ kind: 'visibility', repositories: [repo] });
+  }, []);
 
   const handleDeleteClick = useCallback((repo: Repository) => {
     setRepoToDelete(repo);
     setShowDeleteConfirm(true);
   }, []);
 
+  const handleArchiveClick = useCallback((repo: Repository) => {
+    setRepoToArchive(repo);
+  }, []);
+
+  // Offered from the delete confirmation as the reversible option
+  const handleArchiveInstead = useCallback((repo: Repository) => {
+    setShowDeleteConfirm(false);
+    setRepoToDelete(null);
+    setRepoToArchive(repo);
+  }, []);
+
   const handleRepoClick = useCallback((repo: Repository) => {
     setSelectedRepo(repo);
     setIsModalOpen(true);
@@ -224,6 +327,9 @@ const Dashboard: React.FC = () => {
               </div>
               
               <div className="flex items-center space-x-4">
+                <RateLimitIndicator />
+                <TokenExpiryIndicator />
+
                 <button
                   onClick={() => setShowCreateModal(true)}
                   className="flex items-center space-x-2 px-4 py-2 bg-purple-600/50 text-white hover:bg-purple-600 border border-purple-400/50 rounded-lg transition-colors font-light"
@@ -262,6 +368,28 @@ const Dashboard: React.FC = () => {
                   <RefreshCw className={`w-5 h-5 ${isRefetching ? 'animate-spin' : ''}`} />
                 </button>
                 
+                <AccountSwitcher />
+
+                <button
+                  onClick={() => navigate('/activity')}
+                  title="Activity log"
+                  className="p-2 rounded-lg bg-white/10 text-purple-300 hover:bg-white/20 border border-white/20 transition-colors"
+                >
+                  <History className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setShowVaultSettings(true)}
+                  title={vaultStatus === 'disabled' ? 'Encrypt stored tokens' : 'Token vault settings'}
+                  className={`p-2 rounded-lg border transition-colors ${
+                    vaultStatus === 'disabled'
+                      ? 'bg-white/10 text-purple-300 hover:bg-white/20 border-white/20'
+                      : 'bg-green-500/20 text-green-300 hover:bg-green-500/30 border-green-500/30'
+                  }`}
+                >
+                  {vaultStatus === 'disabled' ? <Shield className="w-5 h-5" /> : <ShieldCheck className="w-5 h-5" />}
+                </button>
+
                 <button
                   onClick={logout}
                   className="flex items-center space-x-2 px-4 py-2 bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 rounded-lg transition-colors font-light"
@@ -276,6 +404,8 @@ const Dashboard: React.FC = () => {
 
         {/* Main Content - Proper spacing from fixed header */}
         <div className="container mx-auto px-6 py-8">
+          <TokenExpiryBanner />
+
           {error && (
             <div className="mb-6 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 font-light">
               <div className="flex items-center justify-between">
@@ -292,7 +422,12 @@ const Dashboard: React.FC = () => {
 
           {/* Stats Widgets - Now using real data */}
           <div className="mb-8">
-            <WidgetComponent repositories={repositories} />
+            <WidgetComponent
+              repositories={ownerRepos}
+              owners={owners}
+              selectedOwner={ownerFilter}
+              onSelectOwner={(login) => setOwnerFilter(current => (current === login ? 'all' : login))}
+            />
           </div>
 
           {/* User Profile Chart Section */}
@@ -319,6 +454,23 @@ const Dashboard: React.FC = () => {
                 </div>
               </div>
 
+              {/* Owner Filter */}
+              {owners.length > 1 && (
+                <select
+                  value={ownerFilter}
+                  onChange={(e) => setOwnerFilter(e.target.value)}
+                  aria-label="Filter by owner"
+                  className="px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:ring-1 focus:ring-purple-400/50 focus:border-purple-400/50 transition-all duration-300 font-light custom-scrollbar"
+                >
+                  <option value="all">All Owners</option>
+                  {owners.map(({ login, isViewer, stats }) => (
+                    <option key={login} value={login}>
+                      {login}{isViewer ? ' (you)' : ''} ({stats.totalRepos})
+                    </option>
+                  ))}
+                </select>
+              )}
+
               {/* Visibility Filter */}
               <select
                 value={visibilityFilter}
@@ -330,6 +482,18 @@ const Dashboard: React.FC = () => {
                 <option value="private">Private Only</option>
               </select>
 
+              {/* Archived Filter */}
+              <select
+                value={archivedFilter}
+                onChange={(e) => setArchivedFilter(e.target.value as ArchivedFilter)}
+                aria-label="Filter by archived state"
+                className="px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:ring-1 focus:ring-purple-400/50 focus:border-purple-400/50 transition-all duration-300 font-light"
+              >
+                <option value="all">Active & Archived</option>
+                <option value="active">Active Only</option>
+                <option value="archived">Archived Only</option>
+              </select>
+
               {/* Language Filter */}
               <select
                 value={languageFilter}
@@ -341,11 +505,101 @@ const Dashboard: React.FC = () => {
                   <option key={language} value={language}>{language}</option>
                 ))}
               </select>
+
+              {/* Topic Filter */}
+              {topicCounts.length > 0 && (
+                <select
+                  value={topicFilter}
+                  onChange={(e) => setTopicFilter(e.target.value)}
+                  aria-label="Filter by topic"
+                  className="px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:ring-1 focus:ring-purple-400/50 focus:border-purple-400/50 transition-all duration-300 font-light custom-scrollbar"
+                >
+                  <option value="all">All Topics</option>
+                  {topicCounts.map(({ topic, count }) => (
+                    <option key={topic} value={topic}>{topic} ({count})</option>
+                  ))}
+                </select>
+              )}
             </div>
 
-            <div className="text-sm text-purple-300/70 font-light">
-              Showing {filteredRepos.length} of {repositories.length} repositories
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm text-purple-300/70 font-light">
+                Showing {filteredRepos.length} of {repositories.length} repositories
+              </div>
+              <button
+                onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+                className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-light border transition-colors ${
+                  selectionMode
+                    ? 'bg-purple-600/50 text-white border-purple-400/50'
+                    : 'bg-white/10 text-purple-300 hover:bg-white/20 border-white/20'
+                }`}
+              >
+                <CheckSquare className="w-4 h-4" />
+                <span>{selectionMode ? 'Done selecting' : 'Select'}</span>
+              </button>
             </div>
+
+            {selectionMode && (
+              <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl bg-purple-600/20 border border-purple-400/30">
+                <span className="text-sm text-purple-100">
+                  {selectedRepos.length} selected
+                </span>
+                <button
+                  onClick={() => setSelectedIds(new Set(filteredRepos.map(repo => repo.id)))}
+                  className="px-3 py-1 rounded-lg bg-white/10 text-purple-200 hover:bg-white/20 text-sm font-light"
+                >
+                  Select all {filteredRepos.length}
+                </button>
+                {([
+                  { kind: 'visibility', label: 'Visibility', icon: <Lock className="w-4 h-4" /> },
+                  { kind: 'archive', label: 'Archive', icon: <Archive className="w-4 h-4" /> },
+                  { kind: 'settings', label: 'Settings', icon: <Settings className="w-4 h-4" /> },
+                ] as const).map(({ kind, label, icon }) => (
+                  <button
+                    key={kind}
+                    onClick={() => setBatchAction({ kind, repositories: selectedRepos })}
+                    disabled={selectedRepos.length === 0}
+                    className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-purple-600/50 text-white hover:bg-purple-600 border border-purple-400/50 text-sm font-light disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {icon}
+                    <span>{label}</span>
+                  </button>
+                ))}
+                <button
+                  onClick={() => setShowCopyProtection(true)}
+                  disabled={selectedRepos.length < 2}
+                  title={selectedRepos.length < 2 ? 'Select a source and at least one target repository' : undefined}
+                  className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-purple-600/50 text-white hover:bg-purple-600 border border-purple-400/50 text-sm font-light disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Shield className="w-4 h-4" />
+                  <span>Copy protection</span>
+                </button>
+                <button
+                  onClick={() => setShowBulkTopics(true)}
+                  disabled={selectedRepos.length === 0}
+                  className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-purple-600/50 text-white hover:bg-purple-600 border border-purple-400/50 text-sm font-light disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Tag className="w-4 h-4" />
+                  <span>Topics</span>
+                </button>
+                <button
+                  onClick={() => setBatchAction({ kind: 'delete', repositories: selectedRepos })}
+                  disabled={selectedRepos.length === 0}
+                  className="flex items-center space-x-2 px-3 py-1 rounded-lg bg-red-600/50 text-white hover:bg-red-600 border border-red-400/50 text-sm font-light disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete</span>
+                </button>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  disabled={selectedRepos.length === 0}
+                  className="flex items-center space-x-1 ml-auto px-3 py-1 rounded-lg text-purple-300 hover:bg-white/10 text-sm font-light disabled:opacity-40"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Clear</span>
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Repository Grid */}
@@ -369,6 +623,10 @@ const Dashboard: React.FC = () => {
                       onToggleVisibility={handleToggleVisibility}
                       onDelete={handleDeleteClick}
                       onClick={handleRepoClick}
+                      onToggleArchived={handleArchiveClick}
+                      selectable={selectionMode}
+                      selected={selectedIds.has(repo.id)}
+                      onSelect={handleSelectRepo}
                     />
                   </div>
                 ))}
@@ -405,8 +663,8 @@ const Dashboard: React.FC = () => {
           isOpen={isModalOpen}
           onClose={handleCloseModal}
           onToggleVisibility={handleToggleVisibility}
-          onDelete={handleDeleteClick}
           onRepoChanged={refetch}
+          topicSuggestions={knownTopics}
         />
       )}
 
@@ -416,7 +674,16 @@ const Dashboard: React.FC = () => {
           repository={repoToDelete}
           isOpen={showDeleteConfirm}
           onClose={handleCloseDeleteConfirm}
-          onConfirm={handleDeleteRepository}
+          onArchiveInstead={handleArchiveInstead}
+        />
+      )}
+
+      {/* Archive Confirmation Modal */}
+      {repoToArchive && (
+        <ConfirmArchiveModal
+          repository={repoToArchive}
+          isOpen={!!repoToArchive}
+          onClose={() => setRepoToArchive(null)}
         />
       )}
 
@@ -426,8 +693,43 @@ const Dashboard: React.FC = () => {
           isOpen={showCreateModal}
           onClose={() => setShowCreateModal(false)}
           onSuccess={handleCreateSuccess}
+          {...(owners.some(({ login, isOrganization }) => isOrganization && login === ownerFilter) && { defaultOwner: ownerFilter })}
+        />
+      )}
+
+      {/* Copy Branch Protection Modal */}
+      {showCopyProtection && (
+        <CopyProtectionModal
+          repositories={selectedRepos}
+          isOpen={showCopyProtection}
+          onClose={() => setShowCopyProtection(false)}
+        />
+      )}
+
+      {/* Bulk Topics Modal */}
+      {showBulkTopics && (
+        <BulkTopicsModal
+          repositories={selectedRepos}
+          suggestions={knownTopics}
+          isOpen={showBulkTopics}
+          onClose={() => setShowBulkTopics(false)}
+        />
+      )}
+
+      {batchAction && (
+        <BatchOperationModal
+          kind={batchAction.kind}
+          repositories={batchAction.repositories}
+          isOpen
+          onClose={() => setBatchAction(null)}
         />
       )}
+
+      {/* Token Vault Settings */}
+      <VaultSettingsModal
+        isOpen={showVaultSettings}
+        onClose={() => setShowVaultSettings(false)}
+      />
     </div>
   );
 };
@@ -5,9 +5,11 @@ import {
   CheckCircle, Copy, Upload, Terminal, ArrowLeft, 
   ExternalLink, FileText, Code, GitBranch, Download
 } from 'lucide-react';
-import { config } from '../config/environment';
-import { githubApi } from '../utils/githubApi';
+import { generateGitCommands } from '../utils/formatters';
+import { getRepositoryUrls } from '../utils/host';
 import FileUploader from './FileUploader';
+import { useUploadFile } from '../hooks/useRepositoryFiles';
+import type { RepositoryVisibility } from '@/types';
 
 interface Repository {
   id: number;
@@ -29,7 +31,7 @@ interface Repository {
   default_branch: string;
   open_issues_count: number;
   topics: string[];
-  visibility: 'public' | 'private';
+  visibility: RepositoryVisibility;
   archived: boolean;
   disabled: boolean;
 }
@@ -41,6 +43,7 @@ const NewRepoSuccessPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'upload' | 'git'>('upload');
   const [copiedCommand, setCopiedCommand] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const uploadFile = useUploadFile();
 
   useEffect(() => {
     // Get repository from navigation state
@@ -58,30 +61,25 @@ const NewRepoSuccessPage: React.FC = () => {
     try {
       setIsUploading(true);
       
-      if (config.isDevelopment) {
-        // Mock upload for development
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      } else {
-        const [owner, repoName] = repository.full_name.split('/');
-        if (!owner || !repoName) {
-          throw new Error('Invalid repository name format');
-        }
-        
-        const reader = new FileReader();
-        reader.onload = async () => {
-          try {
-            const content = reader.result as string;
-            await githubApi.uploadFile(owner, repoName, {
-              path: file.name,
-              content,
-              message: commitMessage,
-            });
-          } catch (err) {
-            throw err;
-          }
-        };
-        reader.readAsText(file);
+      const [owner, repoName] = repository.full_name.split('/');
+      if (!owner || !repoName) {
+        throw new Error('Invalid repository name format');
       }
+      
+      const reader = new FileReader();
+      reader.onload = async () => {
+        try {
+          const content = reader.result as string;
+          await uploadFile.mutateAsync({
+            owner,
+            repo: repoName,
+            params: { path: file.name, content, message: commitMessage },
+          });
+        } catch (err) {
+          throw err;
+        }
+      };
+      reader.readAsText(file);
     } catch (err) {
       throw new Error(err instanceof Error ? err.message : 'Failed to upload file');
     } finally {
@@ -117,23 +115,9 @@ const NewRepoSuccessPage: React.FC = () => {
     );
   }
 
-  const gitCommands = {
-    newRepo: `echo "# ${repository.name}" >> README.md
-git init
-git add README.md
-git commit -m "first commit"
-git branch -M ${repository.default_branch}
-git remote add origin ${repository.clone_url}
-git push -u origin ${repository.default_branch}`,
-    
-    existingRepo: `git remote add origin ${repository.clone_url}
-git branch -M ${repository.default_branch}
-git push -u origin ${repository.default_branch}`,
-    
-    clone: `git clone ${repository.clone_url}`,
-    
-    sshClone: `git clone ${repository.ssh_url}`
-  };
+  const { newRepo, pushExisting: existingRepo, clone, sshClone } = generateGitCommands(repository);
+  const gitCommands = { newRepo, existingRepo, clone, sshClone };
+  const repositoryUrls = getRepositoryUrls(repository.full_name);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white">
@@ -190,8 +174,8 @@ git push -u origin ${repository.default_branch}`,
                   </div>
                   <div className="flex justify-between">
                     <span className="text-purple-200">Visibility:</span>
-                    <span className={`font-medium ${repository.private ? 'text-red-400' : 'text-green-400'}`}>
-                      {repository.private ? 'Private' : 'Public'}
+                    <span className={`font-medium capitalize ${repository.private ? 'text-red-400' : 'text-green-400'}`}>
+                      {repository.visibility}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -205,7 +189,7 @@ git push -u origin ${repository.default_branch}`,
                 <div className="space-y-2">
                   <motion.a
                     whileHover={{ scale: 1.02 }}
-                    href={repository.html_url}
+                    href={repositoryUrls.webUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex items-center space-x-2 p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-sm"
@@ -215,7 +199,7 @@ git push -u origin ${repository.default_branch}`,
                   </motion.a>
                   <motion.button
                     whileHover={{ scale: 1.02 }}
-                    onClick={() => copyToClipboard(repository.clone_url, 'clone-url')}
+                    onClick={() => copyToClipboard(repositoryUrls.cloneUrl, 'clone-url')}
                     className="flex items-center justify-between w-full p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-sm"
                   >
                     <div className="flex items-center space-x-2">
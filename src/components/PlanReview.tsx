@@ -0,0 +1,62 @@
+import React from 'react';
+import { ArrowRight, MinusCircle, Pencil, Trash2 } from 'lucide-react';
+import type { PlanChange, PlanItem, RepositoryPlan } from '@/types';
+import { getPlanItemLabel } from '@/utils/batchOperations';
+
+interface PlanReviewProps {
+  plan: RepositoryPlan;
+}
+
+const formatValue = (value: PlanChange['from']): string => {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return value;
+};
+
+const ACTION_ICONS: Record<PlanItem['action'], React.ReactNode> = {
+  update: <Pencil className="w-4 h-4 flex-shrink-0 text-purple-300" />,
+  delete: <Trash2 className="w-4 h-4 flex-shrink-0 text-red-400" />,
+  skip: <MinusCircle className="w-4 h-4 flex-shrink-0 text-purple-300/60" />,
+};
+
+// Read-only listing of what a plan will do to each repository
+const PlanReview: React.FC<PlanReviewProps> = ({ plan }) => {
+  const count = (action: PlanItem['action']) => plan.items.filter((item) => item.action === action).length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-purple-200">
+        {count('update')} to change · {count('delete')} to delete · {count('skip')} skipped
+      </p>
+
+      <ul className="space-y-2 text-sm max-h-64 overflow-y-auto custom-scrollbar">
+        {plan.items.map((item) => (
+          <li key={item.id} className="p-2 rounded-lg bg-white/5 border border-white/10">
+            <div className="flex items-center space-x-2">
+              {ACTION_ICONS[item.action]}
+              <span className={item.action === 'skip' ? 'text-purple-300/70' : 'text-purple-100'}>
+                {getPlanItemLabel(item)}
+              </span>
+            </div>
+            {item.action === 'delete' && <p className="ml-6 text-xs text-red-300">Will be deleted permanently</p>}
+            {item.action === 'skip' && item.reason && <p className="ml-6 text-xs text-purple-300/70">{item.reason}</p>}
+            {item.action === 'update' && (
+              <ul className="ml-6 space-y-0.5">
+                {item.changes.map((change) => (
+                  <li key={change.field} className="flex flex-wrap items-center gap-1 text-xs text-purple-200">
+                    <span className="text-purple-300/70">{change.label}:</span>
+                    <span className="line-through text-red-300/80">{formatValue(change.from)}</span>
+                    <ArrowRight className="w-3 h-3" />
+                    <span className="text-green-300">{formatValue(change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import type { ProtectionSettings } from '@/types';
+import { MAX_REQUIRED_APPROVALS, parseStatusChecks } from '@/utils/protection';
+
+interface ProtectionFormProps {
+  settings: ProtectionSettings;
+  onChange: (settings: ProtectionSettings) => void;
+  disabled?: boolean;
+  showEnforceAdmins?: boolean;
+}
+
+interface ToggleProps {
+  label: string;
+  description?: string;
+  checked: boolean;
+  disabled: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ label, description, checked, disabled, onChange }) => (
+  <label className="flex items-start space-x-3 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1 w-4 h-4 text-purple-600 bg-white/5 border-white/20 rounded focus:ring-purple-500"
+    />
+    <span>
+      <span className="block text-sm text-white">{label}</span>
+      {description && <span className="block text-xs text-purple-200/70">{description}</span>}
+    </span>
+  </label>
+);
+
+// Remount with a new `key` to load different settings; the status check text is kept locally while typing
+const ProtectionForm: React.FC<ProtectionFormProps> = ({ settings, onChange, disabled = false, showEnforceAdmins = true }) => {
+  const [checksText, setChecksText] = useState(settings.statusChecks.join(', '));
+
+  const update = <K extends keyof ProtectionSettings>(key: K, value: ProtectionSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Pull request reviews */}
+      <div className="space-y-3">
+        <Toggle
+          label="Require a pull request before merging"
+          description="Commits must go through a pull request with approving reviews."
+          checked={settings.requirePullRequest}
+          disabled={disabled}
+          onChange={(checked) => update('requirePullRequest', checked)}
+        />
+        {settings.requirePullRequest && (
+          <div className="ml-7 space-y-3">
+            <div className="flex items-center space-x-3">
+              <label htmlFor="required-approvals" className="text-sm text-purple-200">Required approvals</label>
+              <input
+                id="required-approvals"
+                type="number"
+                min={0}
+                max={MAX_REQUIRED_APPROVALS}
+                value={settings.requiredApprovals}
+                disabled={disabled}
+                onChange={(e) => update('requiredApprovals', Number(e.target.value))}
+                className="w-20 px-3 py-1.5 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm disabled:opacity-50"
+              />
+            </div>
+            <Toggle
+              label="Dismiss stale approvals when new commits are pushed"
+              checked={settings.dismissStaleReviews}
+              disabled={disabled}
+              onChange={(checked) => update('dismissStaleReviews', checked)}
+            />
+            <Toggle
+              label="Require review from code owners"
+              checked={settings.requireCodeOwnerReviews}
+              disabled={disabled}
+              onChange={(checked) => update('requireCodeOwnerReviews', checked)}
+            />
+            <Toggle
+              label="Require approval of the most recent push"
+              checked={settings.requireLastPushApproval}
+              disabled={disabled}
+              onChange={(checked) => update('requireLastPushApproval', checked)}
+            />
+          </div>
+        )}
+        <Toggle
+          label="Require conversation resolution before merging"
+          checked={settings.requireConversationResolution}
+          disabled={disabled}
+          onChange={(checked) => update('requireConversationResolution', checked)}
+        />
+      </div>
+
+      {/* Status checks */}
+      <div className="space-y-3">
+        <Toggle
+          label="Require status checks to pass"
+          description="Checks reported by CI must succeed before merging."
+          checked={settings.requireStatusChecks}
+          disabled={disabled}
+          onChange={(checked) => update('requireStatusChecks', checked)}
+        />
+        {settings.requireStatusChecks && (
+          <div className="ml-7 space-y-3">
+            <div>
+              <label htmlFor="status-checks" className="block text-sm text-purple-200 mb-1">
+                Required checks (comma-separated)
+              </label>
+              <input
+                id="status-checks"
+                type="text"
+                value={checksText}
+                disabled={disabled}
+                placeholder="ci/build, ci/test"
+                onChange={(e) => {
+                  setChecksText(e.target.value);
+                  update('statusChecks', parseStatusChecks(e.target.value));
+                }}
+                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm disabled:opacity-50"
+              />
+            </div>
+            <Toggle
+              label="Require branches to be up to date before merging"
+              checked={settings.strictStatusChecks}
+              disabled={disabled}
+              onChange={(checked) => update('strictStatusChecks', checked)}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="space-y-3">
+        <Toggle
+          label="Require linear history"
+          description="Prevents merge commits; pull requests must be squashed or rebased."
+          checked={settings.requireLinearHistory}
+          disabled={disabled}
+          onChange={(checked) => update('requireLinearHistory', checked)}
+        />
+        <Toggle
+          label="Allow force pushes"
+          checked={settings.allowForcePushes}
+          disabled={disabled}
+          onChange={(checked) => update('allowForcePushes', checked)}
+        />
+        <Toggle
+          label="Allow deletions"
+          checked={settings.allowDeletions}
+          disabled={disabled}
+          onChange={(checked) => update('allowDeletions', checked)}
+        />
+        {showEnforceAdmins && (
+          <Toggle
+            label="Do not allow administrators to bypass these rules"
+            checked={settings.enforceAdmins}
+            disabled={disabled}
+            onChange={(checked) => update('enforceAdmins', checked)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProtectionForm;
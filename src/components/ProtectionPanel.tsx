@@ -0,0 +1,460 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Shield, ShieldOff, Loader2, CheckCircle, Save, Plus, Pencil, Trash2 } from 'lucide-react';
+import type { ProtectionSettings, Repository, RepositoryRuleset, RulesetEnforcement } from '@/types';
+import { useBranches } from '@/hooks/useBranches';
+import {
+  useBranchProtection,
+  useDeleteRuleset,
+  useRemoveBranchProtection,
+  useRulesets,
+  useSaveBranchProtection,
+  useSaveRuleset,
+} from '@/hooks/useProtection';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import {
+  DEFAULT_BRANCH_CONDITION,
+  DEFAULT_PROTECTION_SETTINGS,
+  isRepositoryRuleset,
+  protectionToSettings,
+  rulesToSettings,
+  settingsToProtectionRequest,
+  settingsToRules,
+  validateProtectionSettings,
+} from '@/utils/protection';
+import { getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
+import ProtectionForm from './ProtectionForm';
+
+interface ProtectionPanelProps {
+  repository: Repository;
+}
+
+type ProtectionMode = 'branch' | 'ruleset';
+
+// Ruleset being edited; `id` is absent for a new one
+interface RulesetDraft {
+  id?: number;
+  name: string;
+  enforcement: RulesetEnforcement;
+  include: string;
+  settings: ProtectionSettings;
+}
+
+const ENFORCEMENT_LABELS: Record<RulesetEnforcement, string> = {
+  active: 'Active',
+  evaluate: 'Evaluate',
+  disabled: 'Disabled',
+};
+
+const toDraft = (ruleset: RepositoryRuleset): RulesetDraft => ({
+  id: ruleset.id,
+  name: ruleset.name,
+  enforcement: ruleset.enforcement,
+  include: (ruleset.conditions?.ref_name.include ?? []).join(', '),
+  settings: rulesToSettings(ruleset.rules),
+});
+
+const newDraft = (): RulesetDraft => ({
+  name: '',
+  enforcement: 'active',
+  include: DEFAULT_BRANCH_CONDITION,
+  settings: DEFAULT_PROTECTION_SETTINGS,
+});
+
+const ProtectionPanel: React.FC<ProtectionPanelProps> = ({ repository }) => {
+  const owner = repository.owner.login;
+  const repo = repository.name;
+
+  const { canModify, isReadOnly } = useTokenPermissions();
+  const isAdmin = repository.permissions?.admin ?? false;
+  const writable = canModify(repository) && !repository.archived;
+
+  const [mode, setMode] = useState<ProtectionMode>('branch');
+  const [branch, setBranch] = useState(repository.default_branch);
+  const [settings, setSettings] = useState<ProtectionSettings>(DEFAULT_PROTECTION_SETTINGS);
+  const [formKey, setFormKey] = useState(0);
+  const [draft, setDraft] = useState<RulesetDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const { data: branches = [] } = useBranches(owner, repo);
+  const protectionQuery = useBranchProtection(owner, repo, branch, isAdmin && mode === 'branch');
+  const rulesetsQuery = useRulesets(owner, repo, isAdmin && mode === 'ruleset');
+  const saveProtection = useSaveBranchProtection();
+  const removeProtection = useRemoveBranchProtection();
+  const saveRuleset = useSaveRuleset();
+  const deleteRuleset = useDeleteRuleset();
+
+  const protection = protectionQuery.data;
+
+  // Load the form from the server whenever the branch or its protection changes
+  useEffect(() => {
+    if (protection === undefined) return;
+    setSettings(protection ? protectionToSettings(protection) : DEFAULT_PROTECTION_SETTINGS);
+    setFormKey((key) => key + 1);
+  }, [protection, branch]);
+
+  useEffect(() => {
+    setError(null);
+    setSaved(false);
+  }, [mode, branch, draft?.id]);
+
+  const flashSaved = () => {
+    setSaved(true);
+    setTimeout(() => setSaved(false), 3000);
+  };
+
+  const handleSaveProtection = async () => {
+    const validationError = validateProtectionSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    try {
+      await saveProtection.mutateAsync({ owner, repo, branch, protection: settingsToProtectionRequest(settings) });
+      flashSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save branch protection');
+    }
+  };
+
+  const handleRemoveProtection = async () => {
+    if (!window.confirm(`Remove all protection from ${branch}?`)) return;
+
+    setError(null);
+    try {
+      await removeProtection.mutateAsync({ owner, repo, branch });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove branch protection');
+    }
+  };
+
+  const handleSaveRuleset = async () => {
+    if (!draft) return;
+
+    const include = draft.include.split(',').map((pattern) => pattern.trim()).filter(Boolean);
+    const validationError = !draft.name.trim()
+      ? 'Ruleset name is required'
+      : include.length === 0
+        ? 'Add at least one branch pattern to target'
+        : validateProtectionSettings(draft.settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    try {
+      await saveRuleset.mutateAsync({
+        owner,
+        repo,
+        ...(draft.id !== undefined && { id: draft.id }),
+        ruleset: {
+          name: draft.name.trim(),
+          target: 'branch',
+          enforcement: draft.enforcement,
+          conditions: { ref_name: { include, exclude: [] } },
+          rules: settingsToRules(draft.settings),
+        },
+      });
+      setDraft(null);
+      flashSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save ruleset');
+    }
+  };
+
+  const handleDeleteRuleset = async (ruleset: RepositoryRuleset) => {
+    if (!window.confirm(`Delete the ruleset "${ruleset.name}"?`)) return;
+
+    setError(null);
+    try {
+      await deleteRuleset.mutateAsync({ owner, repo, id: ruleset.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete ruleset');
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <h3 className="text-lg sm:text-xl font-semibold text-purple-100">Branch Protection</h3>
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          Only repository admins can view or change branch protection and rulesets.
+        </div>
+      </div>
+    );
+  }
+
+  const isSaving = saveProtection.isPending || removeProtection.isPending || saveRuleset.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg sm:text-xl font-semibold text-purple-100">Branch Protection</h3>
+        {saved && (
+          <div className="flex items-center space-x-2 text-green-400">
+            <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="text-xs sm:text-sm">Saved</span>
+          </div>
+        )}
+      </div>
+
+      {!writable && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          {repository.archived
+            ? 'This repository is archived, so its protection cannot be changed.'
+            : isReadOnly(repository)
+              ? READ_ONLY_MESSAGE
+              : getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {(['branch', 'ruleset'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              mode === option ? 'bg-purple-600 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+            }`}
+          >
+            {option === 'branch' ? 'Branch protection rule' : 'Rulesets'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Classic branch protection */}
+      {mode === 'branch' && (
+        <div className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 space-y-5">
+          <div className="flex flex-wrap items-center gap-3">
+            <label htmlFor="protected-branch" className="text-sm font-medium text-purple-200">Branch</label>
+            <select
+              id="protected-branch"
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+              className="px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+            >
+              {(branches.length > 0 ? branches.map(({ name }) => name) : [repository.default_branch]).map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            {protectionQuery.isSuccess && (
+              protection ? (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-200 text-xs">
+                  <Shield className="w-3 h-3" /> protected
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-500/20 text-gray-300 text-xs">
+                  <ShieldOff className="w-3 h-3" /> not protected
+                </span>
+              )
+            )}
+          </div>
+
+          {protectionQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-purple-400 animate-spin mr-3" />
+              <span className="text-purple-200 text-sm">Loading protection...</span>
+            </div>
+          ) : protectionQuery.error ? (
+            <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              {protectionQuery.error.message}
+            </div>
+          ) : (
+            <>
+              <ProtectionForm key={formKey} settings={settings} onChange={setSettings} disabled={!writable || isSaving} />
+
+              <div className="flex flex-wrap gap-3">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleSaveProtection}
+                  disabled={!writable || isSaving}
+                  className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-lg font-medium transition-colors disabled:cursor-not-allowed text-sm"
+                >
+                  {saveProtection.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  <span>{protection ? 'Save protection' : 'Protect branch'}</span>
+                </motion.button>
+                {protection && (
+                  <button
+                    onClick={handleRemoveProtection}
+                    disabled={!writable || isSaving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                  >
+                    <ShieldOff className="w-4 h-4" />
+                    <span>Remove protection</span>
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Rulesets */}
+      {mode === 'ruleset' && (
+        <div className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 space-y-5">
+          {draft ? (
+            <>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="ruleset-name" className="block text-sm font-medium text-purple-200 mb-2">Ruleset name</label>
+                  <input
+                    id="ruleset-name"
+                    type="text"
+                    value={draft.name}
+                    disabled={isSaving}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm disabled:opacity-50"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ruleset-enforcement" className="block text-sm font-medium text-purple-200 mb-2">Enforcement</label>
+                  <select
+                    id="ruleset-enforcement"
+                    value={draft.enforcement}
+                    disabled={isSaving}
+                    onChange={(e) => setDraft({ ...draft, enforcement: e.target.value as RulesetEnforcement })}
+                    className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+                  >
+                    {Object.entries(ENFORCEMENT_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="ruleset-include" className="block text-sm font-medium text-purple-200 mb-2">
+                  Target branches (comma-separated patterns)
+                </label>
+                <input
+                  id="ruleset-include"
+                  type="text"
+                  value={draft.include}
+                  disabled={isSaving}
+                  placeholder={`${DEFAULT_BRANCH_CONDITION}, refs/heads/release/*`}
+                  onChange={(e) => setDraft({ ...draft, include: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm font-mono disabled:opacity-50"
+                />
+                <p className="mt-1 text-xs text-purple-200/70">
+                  {DEFAULT_BRANCH_CONDITION} targets the default branch; ~ALL targets every branch.
+                </p>
+              </div>
+
+              <ProtectionForm
+                key={draft.id ?? 'new'}
+                settings={draft.settings}
+                onChange={(next) => setDraft({ ...draft, settings: next })}
+                disabled={isSaving}
+                showEnforceAdmins={false}
+              />
+
+              <div className="flex gap-3">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleSaveRuleset}
+                  disabled={isSaving}
+                  className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-lg font-medium transition-colors disabled:cursor-not-allowed text-sm"
+                >
+                  {saveRuleset.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  <span>{draft.id === undefined ? 'Create ruleset' : 'Save ruleset'}</span>
+                </motion.button>
+                <button
+                  onClick={() => setDraft(null)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white/10 hover:bg-white/20 text-purple-100 rounded-lg text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : rulesetsQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-purple-400 animate-spin mr-3" />
+              <span className="text-purple-200 text-sm">Loading rulesets...</span>
+            </div>
+          ) : rulesetsQuery.error ? (
+            <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              {rulesetsQuery.error.message}
+            </div>
+          ) : (
+            <>
+              {(rulesetsQuery.data ?? []).length === 0 ? (
+                <div className="text-center py-6 text-purple-200 text-sm">No rulesets in this repository</div>
+              ) : (
+                <ul className="space-y-2">
+                  {(rulesetsQuery.data ?? []).map((ruleset) => (
+                    <li key={ruleset.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-white/5">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-white font-medium text-sm truncate">{ruleset.name}</span>
+                          {!isRepositoryRuleset(ruleset) && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-300">
+                              Inherited from {ruleset.source}
+                            </span>
+                          )}
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${
+                            ruleset.enforcement === 'active'
+                              ? 'bg-green-500/20 text-green-300'
+                              : 'bg-gray-500/20 text-gray-300'
+                          }`}>
+                            {ENFORCEMENT_LABELS[ruleset.enforcement]}
+                          </span>
+                        </div>
+                        <div className="text-xs text-purple-200 font-mono truncate">
+                          {(ruleset.conditions?.ref_name.include ?? []).join(', ')} · {ruleset.rules?.length ?? 0} rules
+                        </div>
+                      </div>
+                      {/* Organization rulesets can only be changed in the organization's settings */}
+                      {writable && isRepositoryRuleset(ruleset) && (
+                        <div className="flex gap-2 flex-shrink-0">
+                          <button
+                            onClick={() => setDraft(toDraft(ruleset))}
+                            aria-label={`Edit ${ruleset.name}`}
+                            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-purple-200"
+                          >
+                            <Pencil className="w-3 h-3 sm:w-4 sm:h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteRuleset(ruleset)}
+                            disabled={deleteRuleset.isPending}
+                            aria-label={`Delete ${ruleset.name}`}
+                            className="p-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                          >
+                            <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {writable && (
+                <button
+                  onClick={() => setDraft(newDraft())}
+                  className="flex items-center space-x-2 px-4 py-2 bg-white/10 text-purple-100 hover:bg-white/20 rounded-lg font-medium transition-colors text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>New ruleset</span>
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProtectionPanel;
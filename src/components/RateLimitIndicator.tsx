@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, PauseCircle } from 'lucide-react';
+import { useRateLimit } from '@/hooks/useRateLimit';
+import type { RateLimitBucket } from '@/types';
+
+const LOW_QUOTA_RATIO = 0.1;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const describeBucket = (name: string, bucket: RateLimitBucket | null) => {
+  if (!bucket) return `${name}: not used yet`;
+  return `${name}: ${bucket.remaining.toLocaleString()} / ${bucket.limit.toLocaleString()} (resets ${new Date(bucket.resetAt).toLocaleTimeString()})`;
+};
+
+const RateLimitIndicator: React.FC = () => {
+  const { core, search, graphql, pausedUntil, isPaused } = useRateLimit();
+  const [now, setNow] = useState(() => Date.now());
+
+  const isExhausted = core !== null && core.remaining === 0;
+
+  // Tick once a second only while a countdown is on screen
+  useEffect(() => {
+    if (!isPaused && !isExhausted) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isPaused, isExhausted]);
+
+  if (!core && !isPaused) return null;
+
+  const tooltip = [
+    describeBucket('Core', core),
+    describeBucket('Search', search),
+    describeBucket('GraphQL', graphql),
+  ].join('\n');
+
+  if (isPaused && pausedUntil !== null) {
+    return (
+      <div
+        title={tooltip}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-yellow-500/20 text-yellow-300 border border-yellow-500/30 text-sm font-light"
+      >
+        <PauseCircle className="w-4 h-4" />
+        <span>Rate limited · resuming in {formatCountdown(pausedUntil - now)}</span>
+      </div>
+    );
+  }
+
+  if (!core) return null;
+
+  const isLow = core.remaining / core.limit < LOW_QUOTA_RATIO;
+
+  return (
+    <div
+      title={tooltip}
+      className={`flex items-center space-x-2 px-3 py-2 rounded-lg border text-sm font-light ${
+        isExhausted
+          ? 'bg-red-500/20 text-red-300 border-red-500/30'
+          : isLow
+            ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'
+            : 'bg-white/10 text-purple-300 border-white/20'
+      }`}
+    >
+      <Gauge className="w-4 h-4" />
+      {isExhausted ? (
+        <span>API quota exhausted · resets in {formatCountdown(core.resetAt - now)}</span>
+      ) : (
+        <span>{core.remaining.toLocaleString()} / {core.limit.toLocaleString()}</span>
+      )}
+    </div>
+  );
+};
+
+export default RateLimitIndicator;
@@ -1,15 +1,35 @@
 import React from 'react';
-import { Star, GitFork, Eye, Calendar, Lock, Unlock, Trash2 } from 'lucide-react';
-import { Repository } from '../data/fakeRepos';
+import { Star, GitFork, Eye, Calendar, Lock, Unlock, Trash2, GitPullRequest, EyeOff, Archive, ArchiveRestore } from 'lucide-react';
+import type { Repository } from '@/types';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import { ARCHIVED_MESSAGE, getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
 
 interface RepoCardProps {
   repository: Repository;
   onToggleVisibility: (repo: Repository) => void;
   onDelete: (repo: Repository) => void;
   onClick: (repo: Repository) => void;
+  onToggleArchived?: (repo: Repository) => void;
+  // In selection mode a click toggles selection instead of opening the repository;
+  // `extendRange` is set for shift-clicks
+  selectable?: boolean;
+  selected?: boolean;
+  onSelect?: (repo: Repository, extendRange: boolean) => void;
 }
 
-const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisibility, onDelete, onClick }) => {
+const RepoCard: React.FC<RepoCardProps> = React.memo(({
+  repository,
+  onToggleVisibility,
+  onDelete,
+  onClick,
+  onToggleArchived,
+  selectable = false,
+  selected = false,
+  onSelect,
+}) => {
+  const { canDelete, canChangeVisibility, canModify, isReadOnly } = useTokenPermissions();
+  const readOnly = isReadOnly(repository);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -39,6 +59,11 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
     onToggleVisibility(repository);
   };
 
+  const handleToggleArchived = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleArchived?.(repository);
+  };
+
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
     onDelete(repository);
@@ -46,13 +71,28 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
 
   return (
     <div
-      onClick={() => onClick(repository)}
-      className="h-full p-4 rounded-xl bg-white/5 border border-white/10 hover:border-purple-400/50 cursor-pointer transition-colors group flex flex-col"
+      onClick={(e) => (selectable ? onSelect?.(repository, e.shiftKey) : onClick(repository))}
+      className={`h-full p-4 rounded-xl bg-white/5 border hover:border-purple-400/50 cursor-pointer transition-colors group flex flex-col ${
+        selected ? 'border-purple-400 ring-1 ring-purple-400/50' : 'border-white/10'
+      }`}
     >
       {/* Header */}
       <div className="flex items-start justify-between mb-4">
         <div className="flex-1 min-w-0">
           <div className="flex items-center space-x-2 mb-2">
+            {selectable && (
+              <input
+                type="checkbox"
+                checked={selected}
+                readOnly
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect?.(repository, e.shiftKey);
+                }}
+                aria-label={`Select ${repository.name}`}
+                className="w-4 h-4 text-purple-600 bg-white/5 border-white/20 rounded focus:ring-purple-500 flex-shrink-0"
+              />
+            )}
             <h3 className="text-lg font-semibold text-white group-hover:text-purple-300 transition-colors truncate">
               {repository.name}
             </h3>
@@ -61,6 +101,24 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
             ) : (
               <Unlock className="w-4 h-4 text-green-400 flex-shrink-0" />
             )}
+            {repository.archived && (
+              <span
+                title={ARCHIVED_MESSAGE}
+                className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-yellow-500/20 text-yellow-300 rounded-full border border-yellow-500/30 flex-shrink-0"
+              >
+                <Archive className="w-3 h-3" />
+                <span>Archived</span>
+              </span>
+            )}
+            {readOnly && (
+              <span
+                title={READ_ONLY_MESSAGE}
+                className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-gray-500/20 text-gray-300 rounded-full border border-gray-500/30 flex-shrink-0"
+              >
+                <EyeOff className="w-3 h-3" />
+                <span>Read-only</span>
+              </span>
+            )}
           </div>
           <div className="h-12 overflow-hidden">
             <p className="text-sm text-purple-200 line-clamp-2">
@@ -84,6 +142,12 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
           <Eye className="w-4 h-4 text-gray-400" />
           <span>{repository.watchers_count}</span>
         </div>
+        {repository.insights && (
+          <div className="flex items-center space-x-1" title="Open pull requests">
+            <GitPullRequest className="w-4 h-4 text-green-400" />
+            <span>{repository.insights.openPullRequests}</span>
+          </div>
+        )}
       </div>
 
       {/* Language and Date */}
@@ -128,7 +192,17 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
       <div className="flex items-center space-x-2 mt-auto pt-4">
         <button
           onClick={handleToggleVisibility}
-          className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors flex-1 justify-center ${
+          disabled={!canChangeVisibility || readOnly || repository.archived}
+          title={
+            readOnly
+              ? READ_ONLY_MESSAGE
+              : repository.archived
+                ? ARCHIVED_MESSAGE
+                : canChangeVisibility
+                  ? undefined
+                  : getMissingScopeMessage('repo')
+          }
+          className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors flex-1 justify-center disabled:opacity-40 disabled:cursor-not-allowed ${
             repository.private
               ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30 border border-green-500/30'
               : 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 border border-yellow-500/30'
@@ -147,9 +221,31 @@ const RepoCard: React.FC<RepoCardProps> = React.memo(({ repository, onToggleVisi
           )}
         </button>
 
+        {onToggleArchived && (
+          <button
+            onClick={handleToggleArchived}
+            disabled={!canModify(repository) || !repository.permissions?.admin}
+            title={
+              readOnly
+                ? READ_ONLY_MESSAGE
+                : !canModify(repository)
+                  ? getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')
+                  : repository.permissions?.admin
+                    ? undefined
+                    : 'Only repository admins can archive it'
+            }
+            className="flex items-center space-x-2 px-3 py-2 rounded-lg text-xs font-medium bg-white/10 text-purple-200 hover:bg-white/20 border border-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {repository.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+            <span>{repository.archived ? 'Unarchive' : 'Archive'}</span>
+          </button>
+        )}
+
         <button
           onClick={handleDelete}
-          className="flex items-center space-x-2 px-3 py-2 rounded-lg text-xs font-medium bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 transition-colors"
+          disabled={!canDelete || readOnly}
+          title={readOnly ? READ_ONLY_MESSAGE : canDelete ? undefined : getMissingScopeMessage('delete_repo')}
+          className="flex items-center space-x-2 px-3 py-2 rounded-lg text-xs font-medium bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
         >
           <Trash2 className="w-3 h-3" />
           <span>Delete</span>
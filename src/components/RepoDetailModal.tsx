@@ -2,24 +2,35 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   X, Star, GitFork, Eye, Calendar, Clock, AlertCircle, 
-  Lock, Unlock, ExternalLink, Code, Tag, Archive, 
-  Trash2, Save, FileText, Folder,
+  Lock, Unlock, ExternalLink, Code, Archive, ArchiveRestore, 
+  Trash2, FileText, Folder,
   Loader2, CheckCircle, Settings, Terminal, Copy, Download,
-  GitBranch
+  GitBranch, GitCommit, Shield, ArrowRightLeft
 } from 'lucide-react';
 import type { Repository } from '@/types';
-import { config } from '../config/environment';
-import { githubApi } from '../utils/githubApi';
+import { githubApi } from '../utils/api';
+import { isAbortError } from '../utils/middleware';
+import { generateGitCommands } from '../utils/formatters';
+import { getRepositoryUrls } from '../utils/host';
+import { ARCHIVED_MESSAGE, getMissingScopeMessage, READ_ONLY_MESSAGE } from '../utils/scopes';
+import { useTokenPermissions } from '../hooks/useTokenPermissions';
+import { useDeleteFile, useUploadFile } from '../hooks/useRepositoryFiles';
 import FileUploader from './FileUploader';
 import ConfirmDeleteModal from './ConfirmDeleteModal';
+import ConfirmArchiveModal from './ConfirmArchiveModal';
+import TransferRepositoryModal from './TransferRepositoryModal';
+import BranchesPanel from './BranchesPanel';
+import ProtectionPanel from './ProtectionPanel';
+import RepositorySettingsPanel from './RepositorySettingsPanel';
+import TopicsEditor from './TopicsEditor';
 
 interface RepoDetailModalProps {
   repository: Repository | null;
   isOpen: boolean;
   onClose: () => void;
   onToggleVisibility: (repo: Repository) => void;
-  onDelete: (repo: Repository) => void;
   onRepoChanged?: () => void;
+  topicSuggestions?: string[];
 }
 
 interface FileItem {
@@ -36,15 +47,10 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
   isOpen,
   onClose,
   onToggleVisibility,
-  onDelete,
   onRepoChanged,
+  topicSuggestions = [],
 }) => {
-  const [activeTab, setActiveTab] = useState<'details' | 'edit' | 'files' | 'git'>('details');
-  const [editedName, setEditedName] = useState('');
-  const [editedDescription, setEditedDescription] = useState('');
-  const [isSaving, setIsSaving] = useState(false);
-  const [saveError, setSaveError] = useState('');
-  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'edit' | 'files' | 'branches' | 'protection' | 'git'>('details');
   
   // File management state
   const [files, setFiles] = useState<FileItem[]>([]);
@@ -54,22 +60,26 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
   
   // Delete confirmation state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
   
   // Git commands state
   const [copiedCommand, setCopiedCommand] = useState<string | null>(null);
 
+  const { canDelete, canChangeVisibility, canModify, isReadOnly } = useTokenPermissions();
+  const uploadFile = useUploadFile();
+  const deleteFile = useDeleteFile();
+
   useEffect(() => {
-    if (repository) {
-      setEditedName(repository.name);
-      setEditedDescription(repository.description || '');
-      setSaveError('');
-      setSaveSuccess(false);
-      
-      // Load files when switching to files tab
-      if (activeTab === 'files') {
-        loadRepositoryFiles();
-      }
-    }
+    if (!repository) return;
+
+    // Load files when switching to files tab; closing the modal or switching
+    // repositories cancels the request so a stale listing never lands
+    if (activeTab !== 'files') return;
+
+    const controller = new AbortController();
+    loadRepositoryFiles(controller.signal);
+    return () => controller.abort();
   }, [repository, activeTab]);
 
   // Prevent body scroll when modal is open
@@ -85,16 +95,8 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
     };
   }, [isOpen]);
 
-  const loadRepositoryFiles = async () => {
-    if (!repository || config.isDevelopment) {
-      // Mock files for development
-      setFiles([
-        { name: 'README.md', path: 'README.md', sha: 'abc123', size: 1024, type: 'file' },
-        { name: 'package.json', path: 'package.json', sha: 'def456', size: 512, type: 'file' },
-        { name: 'src', path: 'src', sha: 'ghi789', size: 0, type: 'dir' },
-      ]);
-      return;
-    }
+  const loadRepositoryFiles = async (signal?: AbortSignal) => {
+    if (!repository) return;
 
     try {
       setLoadingFiles(true);
@@ -103,7 +105,7 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
       if (!owner || !repoName) {
         throw new Error('Invalid repository name format');
       }
-      const contents = await githubApi.getRepositoryContents(owner, repoName);
+      const contents = await githubApi.getRepositoryContents(owner, repoName, '', signal);
       
       const fileItems: FileItem[] = contents.map(item => ({
         name: item.name,
@@ -111,81 +113,33 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
         sha: item.sha,
         size: item.size || 0,
         type: item.type === 'dir' ? 'dir' : 'file',
-        download_url: item.download_url,
+        ...(item.download_url && { download_url: item.download_url }),
       }));
       
       setFiles(fileItems);
     } catch (err) {
+      if (isAbortError(err)) return;
       setFilesError(err instanceof Error ? err.message : 'Failed to load repository files');
     } finally {
-      setLoadingFiles(false);
+      if (!signal?.aborted) {
+        setLoadingFiles(false);
+      }
     }
   };
 
-  const handleSaveChanges = async () => {
+  const handleSettingsSaved = (updated: Repository) => {
     if (!repository) return;
 
-    try {
-      setIsSaving(true);
-      setSaveError('');
-      setSaveSuccess(false);
-
-      if (!config.isDevelopment) {
-        const [owner, repoName] = repository.full_name.split('/');
-        if (!owner || !repoName) {
-          throw new Error('Invalid repository name format');
-        }
-        const updates: any = {};
-        
-        if (editedName !== repository.name) {
-          updates.name = editedName;
-        }
-        
-        if (editedDescription !== repository.description) {
-          updates.description = editedDescription;
-        }
-
-        if (Object.keys(updates).length > 0) {
-          await githubApi.updateRepository(owner, repoName, updates);
-          
-          if (onRepoChanged) onRepoChanged();
-          
-          // Close modal to trigger refresh in parent component
-          onClose();
-        }
-      }
+    const renamed = updated.full_name !== repository.full_name;
+    Object.assign(repository, updated);
+    if (onRepoChanged) onRepoChanged();
 
-      setSaveSuccess(true);
-      
-      // Update local repository data
-      Object.assign(repository, {
-        name: editedName,
-        description: editedDescription,
-      });
-
-      setTimeout(() => setSaveSuccess(false), 3000);
-    } catch (err) {
-      setSaveError(err instanceof Error ? err.message : 'Failed to update repository. Please check input and try again.');
-    } finally {
-      setIsSaving(false);
-    }
+    // Every other tab addresses the repository by name, so start over after a rename
+    if (renamed) onClose();
   };
 
   const handleFileUpload = async (file: File, commitMessage: string) => {
-    if (!repository || config.isDevelopment) {
-      // Mock upload for development
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      const newFile: FileItem = {
-        name: file.name,
-        path: file.name,
-        sha: 'new123',
-        size: file.size,
-        type: 'file',
-      };
-      setFiles(prev => [...prev, newFile]);
-      if (onRepoChanged) onRepoChanged();
-      return;
-    }
+    if (!repository) return;
 
     try {
       setIsUploading(true);
@@ -198,10 +152,10 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
       reader.onload = async () => {
         try {
           const content = reader.result as string;
-          await githubApi.uploadFile(owner, repoName, {
-            path: file.name,
-            content,
-            message: commitMessage,
+          await uploadFile.mutateAsync({
+            owner,
+            repo: repoName,
+            params: { path: file.name, content, message: commitMessage },
           });
           
           // Reload files after successful upload
@@ -225,13 +179,6 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
     const confirmDelete = window.confirm(`Are you sure you want to delete ${file.name}?`);
     if (!confirmDelete) return;
 
-    if (config.isDevelopment) {
-      // Mock delete for development
-      setFiles(prev => prev.filter(f => f.path !== file.path));
-      if (onRepoChanged) onRepoChanged();
-      return;
-    }
-
     try {
       const [owner, repoName] = repository.full_name.split('/');
       if (!owner || !repoName) {
@@ -239,7 +186,11 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
       }
       const commitMessage = `Delete ${file.name}`;
       
-      await githubApi.deleteFile(owner, repoName, file.path, file.sha, commitMessage);
+      await deleteFile.mutateAsync({
+        owner,
+        repo: repoName,
+        params: { path: file.path, sha: file.sha, message: commitMessage },
+      });
       
       // Reload files after successful deletion
       await loadRepositoryFiles();
@@ -249,8 +200,11 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
     }
   };
 
-  const handleDeleteRepository = async (repo: Repository) => {
-    await onDelete(repo);
+  const handleArchivedChange = (updated: Repository) => {
+    if (!repository) return;
+
+    Object.assign(repository, updated);
+    if (onRepoChanged) onRepoChanged();
   };
 
   const copyToClipboard = async (text: string, commandType: string) => {
@@ -307,18 +261,11 @@ const RepoDetailModal: React.FC<RepoDetailModalProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const languageBytes = repository.insights?.languages.reduce((sum, lang) => sum + lang.size, 0) || 1;
+
   // Git commands
-  const gitCommands = {
-    clone: `git clone ${repository.html_url.replace('https://github.com/', 'https://github.com/')}.git`,
-    sshClone: `git clone git@github.com:${repository.full_name}.git`,
-    addRemote: `git remote add origin ${repository.html_url.replace('https://github.com/', 'https://github.com/')}.git`,
-    pushExisting: `git remote add origin ${repository.html_url.replace('https://github.com/', 'https://github.com/')}.git
-git branch -M ${repository.default_branch}
-git push -u origin ${repository.default_branch}`,
-    pullLatest: `git pull origin ${repository.default_branch}`,
-    createBranch: `git checkout -b feature/new-feature
-git push -u origin feature/new-feature`,
-  };
+  const gitCommands = generateGitCommands(repository);
+  const repositoryUrls = getRepositoryUrls(repository.full_name);
 
   return (
     <AnimatePresence>
@@ -374,8 +321,10 @@ git push -u origin feature/new-feature`,
               <div className="flex space-x-1 mt-4 sm:mt-6 bg-white/5 rounded-xl p-1 overflow-x-auto">
                 {[
                   { id: 'details', label: 'Details', icon: <Eye className="w-3 h-3 sm:w-4 sm:h-4" /> },
-                  { id: 'edit', label: 'Edit', icon: <Settings className="w-3 h-3 sm:w-4 sm:h-4" /> },
+                  { id: 'edit', label: 'Settings', icon: <Settings className="w-3 h-3 sm:w-4 sm:h-4" /> },
                   { id: 'files', label: 'Files', icon: <FileText className="w-3 h-3 sm:w-4 sm:h-4" /> },
+                  { id: 'branches', label: 'Branches', icon: <GitBranch className="w-3 h-3 sm:w-4 sm:h-4" /> },
+                  { id: 'protection', label: 'Protection', icon: <Shield className="w-3 h-3 sm:w-4 sm:h-4" /> },
                   { id: 'git', label: 'Git', icon: <Terminal className="w-3 h-3 sm:w-4 sm:h-4" /> },
                 ].map((tab) => (
                   <motion.button
@@ -500,100 +449,89 @@ git push -u origin feature/new-feature`,
                       </div>
                     </div>
 
-                    {/* Topics */}
-                    {repository.topics && repository.topics.length > 0 && (
-                      <div>
-                        <h3 className="text-lg sm:text-xl font-semibold text-purple-100 mb-4 flex items-center">
-                          <Tag className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
-                          Topics
-                        </h3>
-                        <div className="flex flex-wrap gap-2">
-                          {repository.topics.map((topic: string, index: number) => (
-                            <span
-                              key={index}
-                              className="px-3 py-1 text-xs sm:text-sm bg-purple-500/20 text-purple-300 rounded-full border border-purple-500/30"
-                            >
-                              {topic}
-                            </span>
-                          ))}
-                        </div>
+                    {/* Languages and last commit (GraphQL insights) */}
+                    {repository.insights && (
+                      <div className="grid lg:grid-cols-2 gap-6">
+                        {repository.insights.languages.length > 0 && (
+                          <div>
+                            <h3 className="text-lg sm:text-xl font-semibold text-purple-100 mb-4 flex items-center">
+                              <Code className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                              Languages
+                            </h3>
+                            <div className="flex h-2 rounded-full overflow-hidden mb-3">
+                              {repository.insights.languages.map((lang) => (
+                                <div
+                                  key={lang.name}
+                                  style={{
+                                    width: `${(lang.size / languageBytes) * 100}%`,
+                                    backgroundColor: lang.color ?? getLanguageColor(lang.name),
+                                  }}
+                                />
+                              ))}
+                            </div>
+                            <div className="space-y-2">
+                              {repository.insights.languages.map((lang) => (
+                                <div key={lang.name} className="flex items-center justify-between text-sm">
+                                  <div className="flex items-center space-x-2">
+                                    <div
+                                      className="w-3 h-3 rounded-full flex-shrink-0"
+                                      style={{ backgroundColor: lang.color ?? getLanguageColor(lang.name) }}
+                                    />
+                                    <span className="text-white">{lang.name}</span>
+                                  </div>
+                                  <span className="text-purple-200">
+                                    {formatFileSize(lang.size)} · {((lang.size / languageBytes) * 100).toFixed(1)}%
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {repository.insights.lastCommit && (
+                          <div>
+                            <h3 className="text-lg sm:text-xl font-semibold text-purple-100 mb-4 flex items-center">
+                              <GitCommit className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                              Last Commit
+                            </h3>
+                            <div className="p-3 rounded-lg bg-white/5 space-y-1">
+                              <div className="text-white font-medium text-sm truncate">
+                                {repository.insights.lastCommit.messageHeadline}
+                              </div>
+                              <div className="text-xs text-purple-200">
+                                <code className="font-mono">{repository.insights.lastCommit.oid.slice(0, 7)}</code>
+                                {repository.insights.lastCommit.authorName && ` · ${repository.insights.lastCommit.authorName}`}
+                                {' · '}{formatDate(repository.insights.lastCommit.committedDate)}
+                              </div>
+                              <div className="text-xs text-purple-300">
+                                {repository.insights.openPullRequests} open pull request{repository.insights.openPullRequests === 1 ? '' : 's'}
+                              </div>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
+
+                    {/* Topics */}
+                    <TopicsEditor
+                      key={repository.id}
+                      repository={repository}
+                      suggestions={topicSuggestions}
+                      onSaved={(topics) => {
+                        Object.assign(repository, { topics });
+                        if (onRepoChanged) onRepoChanged();
+                      }}
+                    />
                   </div>
                 )}
 
                 {/* Edit Tab */}
                 {activeTab === 'edit' && (
-                  <div className="space-y-6">
-                    <div className="flex items-center justify-between">
-                      <h3 className="text-lg sm:text-xl font-semibold text-purple-100">Edit Repository</h3>
-                      {saveSuccess && (
-                        <div className="flex items-center space-x-2 text-green-400">
-                          <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />
-                          <span className="text-xs sm:text-sm">Changes saved successfully!</span>
-                        </div>
-                      )}
-                    </div>
-
-                    <div className="space-y-4">
-                      <div>
-                        <label className="block text-sm font-medium text-purple-200 mb-2">
-                          Repository Name
-                        </label>
-                        <input
-                          type="text"
-                          value={editedName}
-                          onChange={(e) => setEditedName(e.target.value)}
-                          disabled={isSaving}
-                          className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm sm:text-base"
-                        />
-                      </div>
-
-                      <div>
-                        <label className="block text-sm font-medium text-purple-200 mb-2">
-                          Description
-                        </label>
-                        <textarea
-                          value={editedDescription}
-                          onChange={(e) => setEditedDescription(e.target.value)}
-                          disabled={isSaving}
-                          rows={4}
-                          className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 resize-none text-sm sm:text-base"
-                          placeholder="Add a description for your repository..."
-                        />
-                      </div>
-
-                      {saveError && (
-                        <motion.div
-                          initial={{ opacity: 0, x: -20 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm"
-                        >
-                          {saveError}
-                        </motion.div>
-                      )}
-
-                      <motion.button
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                        onClick={handleSaveChanges}
-                        disabled={isSaving || (editedName === repository.name && editedDescription === repository.description)}
-                        className="flex items-center space-x-2 px-6 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed text-sm sm:text-base"
-                      >
-                        {isSaving ? (
-                          <>
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                            <span>Saving Changes...</span>
-                          </>
-                        ) : (
-                          <>
-                            <Save className="w-4 h-4" />
-                            <span>Save Changes</span>
-                          </>
-                        )}
-                      </motion.button>
-                    </div>
-                  </div>
+                  <RepositorySettingsPanel
+                    key={repository.id}
+                    repository={repository}
+                    onSaved={handleSettingsSaved}
+                  />
                 )}
 
                 {/* Files Tab */}
@@ -606,10 +544,20 @@ git push -u origin feature/new-feature`,
                     {/* File Upload Section */}
                     <div className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10">
                       <h4 className="text-base sm:text-lg font-medium text-purple-100 mb-4">Upload New File</h4>
-                      <FileUploader
-                        onUpload={handleFileUpload}
-                        isUploading={isUploading}
-                      />
+                      {canModify(repository) && !repository.archived ? (
+                        <FileUploader
+                          onUpload={handleFileUpload}
+                          isUploading={isUploading}
+                        />
+                      ) : (
+                        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+                          {repository.archived
+                            ? ARCHIVED_MESSAGE
+                            : isReadOnly(repository)
+                              ? READ_ONLY_MESSAGE
+                              : getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')}
+                        </div>
+                      )}
                     </div>
 
                     {/* Files List */}
@@ -650,7 +598,7 @@ git push -u origin feature/new-feature`,
                                 </div>
                               </div>
                               
-                              {file.type === 'file' && (
+                              {file.type === 'file' && canModify(repository) && !repository.archived && (
                                 <motion.button
                                   whileHover={{ scale: 1.05 }}
                                   whileTap={{ scale: 0.95 }}
@@ -668,6 +616,17 @@ git push -u origin feature/new-feature`,
                   </div>
                 )}
 
+                {/* Branches Tab */}
+                {activeTab === 'branches' && (
+                  <BranchesPanel
+                    repository={repository}
+                    {...(onRepoChanged && { onRepoChanged })}
+                  />
+                )}
+
+                {/* Protection Tab */}
+                {activeTab === 'protection' && <ProtectionPanel repository={repository} />}
+
                 {/* Git Tab */}
                 {activeTab === 'git' && (
                   <div className="space-y-6 sm:space-y-8">
@@ -816,7 +775,7 @@ git push -u origin feature/new-feature`,
                 <motion.a
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
-                  href={repository.html_url}
+                  href={repositoryUrls.webUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium transition-colors text-sm"
@@ -829,7 +788,17 @@ git push -u origin feature/new-feature`,
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={() => onToggleVisibility(repository)}
-                  className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors text-sm ${
+                  disabled={!canChangeVisibility || isReadOnly(repository) || repository.archived}
+                  title={
+                    isReadOnly(repository)
+                      ? READ_ONLY_MESSAGE
+                      : repository.archived
+                        ? ARCHIVED_MESSAGE
+                        : canChangeVisibility
+                          ? undefined
+                          : getMissingScopeMessage('repo')
+                  }
+                  className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed ${
                     repository.private
                       ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30 border border-green-500/30'
                       : 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 border border-yellow-500/30'
@@ -850,11 +819,57 @@ git push -u origin feature/new-feature`,
                   )}
                 </motion.button>
 
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => setShowArchiveConfirm(true)}
+                  disabled={!canModify(repository) || !repository.permissions?.admin}
+                  title={
+                    isReadOnly(repository)
+                      ? READ_ONLY_MESSAGE
+                      : !canModify(repository)
+                        ? getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')
+                        : repository.permissions?.admin
+                          ? undefined
+                          : 'Only repository admins can archive it'
+                  }
+                  className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 border border-yellow-500/30 rounded-lg font-medium transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {repository.archived ? (
+                    <ArchiveRestore className="w-3 h-3 sm:w-4 sm:h-4" />
+                  ) : (
+                    <Archive className="w-3 h-3 sm:w-4 sm:h-4" />
+                  )}
+                  <span>{repository.archived ? 'Unarchive' : 'Archive'}</span>
+                </motion.button>
+
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => setShowTransfer(true)}
+                  disabled={!canModify(repository) || !repository.permissions?.admin}
+                  title={
+                    isReadOnly(repository)
+                      ? READ_ONLY_MESSAGE
+                      : !canModify(repository)
+                        ? getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')
+                        : repository.permissions?.admin
+                          ? undefined
+                          : 'Only repository admins can transfer it'
+                  }
+                  className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-orange-500/20 text-orange-300 hover:bg-orange-500/30 border border-orange-500/30 rounded-lg font-medium transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ArrowRightLeft className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span>Transfer</span>
+                </motion.button>
+
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={() => setShowDeleteConfirm(true)}
-                  className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 rounded-lg font-medium transition-colors text-sm"
+                  disabled={!canDelete || isReadOnly(repository)}
+                  title={isReadOnly(repository) ? READ_ONLY_MESSAGE : canDelete ? undefined : getMissingScopeMessage('delete_repo')}
+                  className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-red-500/20 text-red-300 hover:bg-red-500/30 border border-red-500/30 rounded-lg font-medium transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed"
                 >
                   <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
                   <span className="hidden sm:inline">Delete Repository</span>
@@ -869,7 +884,27 @@ git push -u origin feature/new-feature`,
             repository={repository}
             isOpen={showDeleteConfirm}
             onClose={() => setShowDeleteConfirm(false)}
-            onConfirm={handleDeleteRepository}
+            onDeleted={onClose}
+            onArchiveInstead={() => {
+              setShowDeleteConfirm(false);
+              setShowArchiveConfirm(true);
+            }}
+          />
+
+          {/* Archive Confirmation Modal */}
+          <ConfirmArchiveModal
+            repository={repository}
+            isOpen={showArchiveConfirm}
+            onClose={() => setShowArchiveConfirm(false)}
+            onArchivedChange={handleArchivedChange}
+          />
+
+          {/* Transfer Modal; the repository list is updated in place, so only the details need closing */}
+          <TransferRepositoryModal
+            repository={repository}
+            isOpen={showTransfer}
+            onClose={() => setShowTransfer(false)}
+            onTransferred={onClose}
           />
         </div>
       )}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RepositorySettingsPanel from './RepositorySettingsPanel';
+import { githubApi } from '@/utils/api';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+import type { Repository } from '@/types';
+
+const renderPanel = async (overrides: Partial<Repository> = {}) => {
+  const repository = { ...(await githubApi.fetchRepository('octo-dev', 'vlast-cli')), ...overrides };
+  const onSaved = vi.fn();
+  renderWithClient(<RepositorySettingsPanel repository={repository} onSaved={onSaved} />);
+  return { onSaved };
+};
+
+describe('RepositorySettingsPanel', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('previews the changes before applying them', async () => {
+    const user = userEvent.setup();
+    const { onSaved } = await renderPanel();
+
+    await user.click(screen.getByLabelText(/allow squash merging/i));
+    await user.clear(screen.getByLabelText('Website'));
+    await user.type(screen.getByLabelText('Website'), 'https://vlast.dev');
+    expect(screen.getByText('2 unsaved changes')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /review changes/i }));
+    expect(screen.getByText('Allow squash merging:')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /apply 2 changes/i }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    const updated = await githubApi.fetchRepository('octo-dev', 'vlast-cli');
+    expect(updated.allow_squash_merge).toBe(false);
+    expect(updated.homepage).toBe('https://vlast.dev');
+    expect(screen.queryByText(/unsaved change/)).not.toBeInTheDocument();
+  });
+
+  it('does not preview settings that disable every merge method', async () => {
+    const user = userEvent.setup();
+    await renderPanel();
+
+    await user.click(screen.getByLabelText(/allow merge commits/i));
+    await user.click(screen.getByLabelText(/allow squash merging/i));
+    await user.click(screen.getByLabelText(/allow rebase merging/i));
+    await user.click(screen.getByRole('button', { name: /review changes/i }));
+
+    expect(screen.getByText(/at least one merge method/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /apply/i })).not.toBeInTheDocument();
+  });
+
+  it('leaves archiving to the archive action and locks every setting while archived', async () => {
+    await renderPanel({ archived: true });
+
+    expect(screen.queryByLabelText(/archived/i)).not.toBeInTheDocument();
+    expect(screen.getByText(/archived and read-only/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Website')).toBeDisabled();
+    expect(screen.getByLabelText(/allow squash merging/i)).toBeDisabled();
+  });
+});
@@ -0,0 +1,285 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Save, Loader2, CheckCircle, RotateCcw, ArrowRight } from 'lucide-react';
+import type { EditRepoFormData, Repository } from '@/types';
+import { useUpdateRepository } from '@/hooks/useRepositories';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import {
+  diffRepositorySettings,
+  getRepositorySettings,
+  SETTING_LABELS,
+  SETTING_SECTIONS,
+  toUpdateRequest,
+  validateRepositorySettings,
+} from '@/utils/repositorySettings';
+import { getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
+
+interface RepositorySettingsPanelProps {
+  repository: Repository;
+  onSaved?: (repository: Repository) => void;
+}
+
+type TextField = 'name' | 'description' | 'homepage';
+
+const TEXT_FIELDS: Partial<Record<keyof EditRepoFormData, { placeholder: string; multiline?: boolean }>> = {
+  name: { placeholder: 'my-repository' },
+  description: { placeholder: 'Add a description for your repository...', multiline: true },
+  homepage: { placeholder: 'https://example.com' },
+};
+
+const FIELD_HINTS: Partial<Record<keyof EditRepoFormData, string>> = {
+  is_template: 'Let people generate new repositories with the same structure and files.',
+  has_issues: 'Track bugs and feature requests.',
+  has_projects: 'Plan work with project boards.',
+  has_wiki: 'Host documentation in a wiki.',
+  allow_merge_commit: 'Combine all commits from the head branch with a merge commit.',
+  allow_squash_merge: 'Combine all commits from the head branch into a single commit.',
+  allow_rebase_merge: 'Add all commits from the head branch onto the base branch individually.',
+  allow_auto_merge: 'Let pull requests merge automatically once requirements are met.',
+  delete_branch_on_merge: 'Delete head branches after pull requests are merged.',
+};
+
+const formatValue = (value: string | boolean): string => {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return value === '' ? '(empty)' : value;
+};
+
+const RepositorySettingsPanel: React.FC<RepositorySettingsPanelProps> = ({ repository, onSaved }) => {
+  const { canModify, isReadOnly } = useTokenPermissions();
+  const updateRepository = useUpdateRepository();
+
+  // The saved state the form is compared against; replaced with the server's response after each save
+  const [baseline, setBaseline] = useState<EditRepoFormData>(() => getRepositorySettings(repository));
+  const [form, setForm] = useState<EditRepoFormData>(baseline);
+  const [showPreview, setShowPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  const changes = useMemo(() => diffRepositorySettings(baseline, form), [baseline, form]);
+  const isDirty = changes.length > 0;
+  const isAdmin = repository.permissions?.admin ?? false;
+  const editable = canModify(repository) && isAdmin;
+  const isSaving = updateRepository.isPending;
+
+  const update = <K extends keyof EditRepoFormData>(field: K, value: EditRepoFormData[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setShowPreview(false);
+    setError(null);
+    setSaveSuccess(false);
+  };
+
+  const handleReview = () => {
+    const validationError = validateRepositorySettings(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    setShowPreview(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setError(null);
+      const [owner, repoName] = repository.full_name.split('/');
+      if (!owner || !repoName) {
+        throw new Error('Invalid repository name format');
+      }
+
+      const updated = await updateRepository.mutateAsync({ owner, repo: repoName, updates: toUpdateRequest(changes) });
+      const saved = getRepositorySettings(updated);
+      setBaseline(saved);
+      setForm(saved);
+      setShowPreview(false);
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+      if (onSaved) onSaved(updated);
+    } catch (err) {
+      setShowPreview(false);
+      setError(err instanceof Error ? err.message : 'Failed to update repository. Please check input and try again.');
+    }
+  };
+
+  const handleReset = () => {
+    setForm(baseline);
+    setShowPreview(false);
+    setError(null);
+  };
+
+  // Archived repositories are read-only; archiving goes through the Archive action and its confirmation
+  const isFieldDisabled = () => !editable || isSaving || repository.archived;
+
+  const renderField = (field: keyof EditRepoFormData) => {
+    const text = TEXT_FIELDS[field];
+    const changed = form[field] !== baseline[field];
+
+    if (text) {
+      const textField = field as TextField;
+      const inputClass = `w-full px-4 py-3 rounded-xl bg-white/5 border text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm sm:text-base ${
+        changed ? 'border-purple-400/60' : 'border-white/20'
+      }`;
+
+      return (
+        <div key={field}>
+          <label htmlFor={`setting-${field}`} className="block text-sm font-medium text-purple-200 mb-2">
+            {SETTING_LABELS[field]}
+          </label>
+          {text.multiline ? (
+            <textarea
+              id={`setting-${field}`}
+              value={form[textField]}
+              onChange={(e) => update(textField, e.target.value)}
+              disabled={isFieldDisabled()}
+              rows={3}
+              placeholder={text.placeholder}
+              className={`${inputClass} resize-none`}
+            />
+          ) : (
+            <input
+              id={`setting-${field}`}
+              type={field === 'homepage' ? 'url' : 'text'}
+              value={form[textField]}
+              onChange={(e) => update(textField, e.target.value)}
+              disabled={isFieldDisabled()}
+              placeholder={text.placeholder}
+              className={inputClass}
+            />
+          )}
+        </div>
+      );
+    }
+
+    const booleanField = field as Exclude<keyof EditRepoFormData, TextField>;
+    return (
+      <label key={field} className="flex items-start space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={form[booleanField]}
+          onChange={(e) => update(booleanField, e.target.checked)}
+          disabled={isFieldDisabled()}
+          className="mt-1 w-4 h-4 text-purple-600 bg-white/5 border-white/20 rounded focus:ring-purple-500"
+        />
+        <span>
+          <span className={`block text-sm ${changed ? 'text-purple-300' : 'text-white'}`}>{SETTING_LABELS[field]}</span>
+          {FIELD_HINTS[field] && <span className="block text-xs text-purple-200/70">{FIELD_HINTS[field]}</span>}
+        </span>
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg sm:text-xl font-semibold text-purple-100">Repository Settings</h3>
+        {saveSuccess ? (
+          <div className="flex items-center space-x-2 text-green-400">
+            <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="text-xs sm:text-sm">Changes saved successfully!</span>
+          </div>
+        ) : isDirty && (
+          <span className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-200 text-xs">
+            {changes.length} unsaved change{changes.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {!canModify(repository) ? (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          {isReadOnly(repository)
+            ? READ_ONLY_MESSAGE
+            : getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')}
+        </div>
+      ) : !isAdmin ? (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          Only repository admins can change these settings.
+        </div>
+      ) : repository.archived && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-sm">
+          This repository is archived and read-only. Unarchive it to change its settings.
+        </div>
+      )}
+
+      {SETTING_SECTIONS.map(({ title, fields }) => (
+        <div
+          key={title}
+          className="p-4 sm:p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 space-y-4"
+        >
+          <h4 className="text-base sm:text-lg font-medium text-purple-100">{title}</h4>
+          {fields.map(renderField)}
+        </div>
+      ))}
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm"
+        >
+          {error}
+        </motion.div>
+      )}
+
+      {/* Diff preview */}
+      {showPreview && (
+        <div className="p-4 sm:p-6 rounded-2xl bg-purple-500/10 border border-purple-400/30 space-y-3">
+          <h4 className="text-base font-medium text-purple-100">Review changes</h4>
+          <ul className="space-y-2">
+            {changes.map(({ field, label, from, to }) => (
+              <li key={field} className="text-sm">
+                <span className="text-purple-200">{label}: </span>
+                <span className="text-red-300 line-through break-all">{formatValue(from)}</span>
+                <ArrowRight className="inline w-3 h-3 mx-2 text-purple-300" />
+                <span className="text-green-300 break-all">{formatValue(to)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {showPreview ? (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-6 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed text-sm sm:text-base"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Saving Changes...</span>
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4" />
+                <span>Apply {changes.length} change{changes.length === 1 ? '' : 's'}</span>
+              </>
+            )}
+          </motion.button>
+        ) : (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleReview}
+            disabled={!editable || !isDirty}
+            className="flex items-center space-x-2 px-6 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed text-sm sm:text-base"
+          >
+            <Save className="w-4 h-4" />
+            <span>Review Changes</span>
+          </motion.button>
+        )}
+        <button
+          onClick={handleReset}
+          disabled={!isDirty || isSaving}
+          className="flex items-center space-x-2 px-4 py-3 bg-white/10 text-purple-100 hover:bg-white/20 rounded-xl font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed text-sm sm:text-base"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Discard</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RepositorySettingsPanel;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { KeyRound, AlertTriangle, Loader2, LogOut } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccounts } from '@/hooks/useAccounts';
+import { resolveHostEndpoints } from '@/utils/host';
+
+// Blocks the app while the active token is rejected; paused requests resume after a new token is accepted
+const SessionExpiredModal: React.FC = () => {
+  const { reauthenticate, logout, pausedRequests } = useAuth();
+  const { activeAccount } = useAccounts();
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) {
+      setError('Please enter a new GitHub token');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      await reauthenticate(token.trim());
+      setToken('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate token');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const tokenSettingsUrl = activeAccount
+    ? `${resolveHostEndpoints(activeAccount.host).webUrl}/settings/tokens`
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-2 sm:p-4">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="relative w-full max-w-md bg-gray-900/95 backdrop-blur-lg border border-yellow-500/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-4 sm:p-6 border-b border-yellow-500/20 flex items-center space-x-3">
+          <div className="p-2 rounded-full bg-yellow-500/20">
+            <KeyRound className="w-5 h-5 text-yellow-300" />
+          </div>
+          <h2 className="text-lg sm:text-xl font-semibold text-yellow-200">Session Expired</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <p className="text-sm text-purple-200/80 font-light">
+            GitHub rejected the token for{' '}
+            <span className="text-white">{activeAccount?.label ?? 'this account'}</span>. It may have been revoked or
+            expired. Submit a new token to continue
+            {pausedRequests > 0
+              ? ` — ${pausedRequests} paused ${pausedRequests === 1 ? 'request' : 'requests'} will resume automatically.`
+              : '.'}
+          </p>
+
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => {
+              setToken(e.target.value);
+              setError('');
+            }}
+            placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+            autoFocus
+            disabled={isSubmitting}
+            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50 text-sm"
+          />
+
+          {tokenSettingsUrl && (
+            <a
+              href={tokenSettingsUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-xs text-purple-300 hover:text-purple-200 underline"
+            >
+              Generate a new token on GitHub
+            </a>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={logout}
+              disabled={isSubmitting}
+              className="flex items-center justify-center space-x-2 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 text-sm"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Sign out</span>
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !token.trim()}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 disabled:cursor-not-allowed rounded-xl font-medium transition-colors text-sm"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{isSubmitting ? 'Validating...' : 'Resume Session'}</span>
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SessionExpiredModal;
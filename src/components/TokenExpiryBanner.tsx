@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ExternalLink, X } from 'lucide-react';
+import { useTokenExpiry, formatTimeRemaining } from '@/hooks/useTokenExpiry';
+import { resolveHostEndpoints } from '@/utils/host';
+
+// Renewal reminder shown once the active token is inside the reminder window
+const TokenExpiryBanner: React.FC = () => {
+  const navigate = useNavigate();
+  const { expiresAt, remainingMs, isExpired, isExpiringSoon, isFineGrained, host } = useTokenExpiry();
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+
+  if (expiresAt === null || remainingMs === null || !host) return null;
+  if (!isExpired && (!isExpiringSoon || dismissedFor === expiresAt)) return null;
+
+  const tokenSettingsUrl = `${resolveHostEndpoints(host).webUrl}/settings/${
+    isFineGrained ? 'personal-access-tokens' : 'tokens'
+  }`;
+
+  return (
+    <div
+      className={`mb-6 p-4 rounded-lg border font-light flex items-start justify-between gap-4 ${
+        isExpired
+          ? 'bg-red-500/20 border-red-500/30 text-red-300'
+          : 'bg-yellow-500/20 border-yellow-500/30 text-yellow-200'
+      }`}
+    >
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <p>
+            {isExpired
+              ? `Your GitHub token expired on ${new Date(expiresAt).toLocaleString()}.`
+              : `Your GitHub token expires in ${formatTimeRemaining(remainingMs)} (${new Date(expiresAt).toLocaleString()}).`}
+          </p>
+          <p className="text-sm opacity-80">
+            Regenerate it on GitHub, then submit the new token to keep this account signed in.
+          </p>
+          <div className="flex items-center space-x-4 pt-1 text-sm">
+            <a
+              href={tokenSettingsUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center space-x-1 underline hover:opacity-80"
+            >
+              <span>Renew on GitHub</span>
+              <ExternalLink className="w-3 h-3" />
+            </a>
+            <button onClick={() => navigate('/token')} className="underline hover:opacity-80">
+              Submit new token
+            </button>
+          </div>
+        </div>
+      </div>
+      {!isExpired && (
+        <button
+          onClick={() => setDismissedFor(expiresAt)}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TokenExpiryBanner;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { useTokenExpiry, formatTimeRemaining } from '@/hooks/useTokenExpiry';
+
+const TokenExpiryIndicator: React.FC = () => {
+  const { expiresAt, remainingMs, isExpired, isExpiringSoon } = useTokenExpiry();
+
+  if (expiresAt === null || remainingMs === null) return null;
+
+  return (
+    <div
+      title={`Token expires ${new Date(expiresAt).toLocaleString()}`}
+      className={`flex items-center space-x-2 px-3 py-2 rounded-lg border text-sm font-light ${
+        isExpired
+          ? 'bg-red-500/20 text-red-300 border-red-500/30'
+          : isExpiringSoon
+            ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'
+            : 'bg-white/10 text-purple-300 border-white/20'
+      }`}
+    >
+      <Clock className="w-4 h-4" />
+      <span>{isExpired ? 'Token expired' : `Token · ${formatTimeRemaining(remainingMs)}`}</span>
+    </div>
+  );
+};
+
+export default TokenExpiryIndicator;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { MAX_TOPICS, normalizeTopic, suggestTopics, validateTopicName } from '@/utils/topics';
+
+interface TopicInputProps {
+  topics: string[];
+  onChange: (topics: string[]) => void;
+  suggestions?: string[];
+  disabled?: boolean;
+  placeholder?: string;
+  id?: string;
+}
+
+// Chip-style topic entry: Enter, comma or a suggestion adds a topic, Backspace on an empty field removes the last
+const TopicInput: React.FC<TopicInputProps> = ({
+  topics,
+  onChange,
+  suggestions = [],
+  disabled = false,
+  placeholder = 'Add a topic...',
+  id,
+}) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const matches = text.trim() ? suggestTopics(text, suggestions, topics) : [];
+
+  const addTopic = (value: string) => {
+    const topic = normalizeTopic(value);
+    const validationError = validateTopicName(topic);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!topics.includes(topic)) {
+      if (topics.length >= MAX_TOPICS) {
+        setError(`A repository can have at most ${MAX_TOPICS} topics`);
+        return;
+      }
+      onChange([...topics, topic]);
+    }
+    setText('');
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && text.trim()) {
+      e.preventDefault();
+      addTopic(text);
+    } else if (e.key === 'Backspace' && !text && topics.length > 0) {
+      onChange(topics.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 rounded-xl bg-white/5 border border-white/20 focus-within:ring-2 focus-within:ring-purple-500">
+        {topics.map((topic) => (
+          <span
+            key={topic}
+            className="flex items-center space-x-1 px-3 py-1 text-xs sm:text-sm bg-purple-500/20 text-purple-300 rounded-full border border-purple-500/30"
+          >
+            <span>{topic}</span>
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(topics.filter((candidate) => candidate !== topic))}
+                aria-label={`Remove topic ${topic}`}
+                className="text-purple-300 hover:text-white"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={text}
+          disabled={disabled}
+          placeholder={topics.length === 0 ? placeholder : ''}
+          onChange={(e) => {
+            setText(e.target.value.replace(',', ''));
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-32 py-1 bg-transparent text-white placeholder-purple-300/50 focus:outline-none text-sm disabled:opacity-50"
+        />
+      </div>
+
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2" aria-label="Topic suggestions">
+          {matches.map((topic) => (
+            <button
+              key={topic}
+              type="button"
+              onClick={() => addTopic(topic)}
+              className="px-2 py-0.5 rounded-full bg-white/10 text-purple-200 hover:bg-white/20 text-xs"
+            >
+              + {topic}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default TopicInput;
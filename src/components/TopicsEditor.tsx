@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Tag, Save, Loader2 } from 'lucide-react';
+import type { Repository } from '@/types';
+import { useReplaceTopics } from '@/hooks/useTopics';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import TopicInput from './TopicInput';
+
+interface TopicsEditorProps {
+  repository: Repository;
+  suggestions?: string[];
+  onSaved?: (topics: string[]) => void;
+}
+
+const TopicsEditor: React.FC<TopicsEditorProps> = ({ repository, suggestions = [], onSaved }) => {
+  const { canModify } = useTokenPermissions();
+  const replaceTopics = useReplaceTopics();
+  const [saved, setSaved] = useState<string[]>(repository.topics ?? []);
+  const [topics, setTopics] = useState<string[]>(saved);
+  const [error, setError] = useState<string | null>(null);
+
+  const editable = canModify(repository) && !!repository.permissions?.admin && !repository.archived;
+  const isDirty = topics.length !== saved.length || topics.some((topic, index) => topic !== saved[index]);
+
+  const handleSave = async () => {
+    try {
+      setError(null);
+      const stored = await replaceTopics.mutateAsync({
+        owner: repository.owner.login,
+        repo: repository.name,
+        topics,
+      });
+      setSaved(stored);
+      setTopics(stored);
+      if (onSaved) onSaved(stored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update topics');
+    }
+  };
+
+  if (!editable && saved.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg sm:text-xl font-semibold text-purple-100 mb-4 flex items-center">
+        <Tag className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+        Topics
+      </h3>
+
+      {editable ? (
+        <div className="space-y-3">
+          <TopicInput
+            topics={topics}
+            onChange={(next) => {
+              setTopics(next);
+              setError(null);
+            }}
+            suggestions={suggestions}
+            disabled={replaceTopics.isPending}
+          />
+
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">{error}</div>
+          )}
+
+          {isDirty && (
+            <div className="flex space-x-3">
+              <button
+                onClick={handleSave}
+                disabled={replaceTopics.isPending}
+                className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 rounded-lg text-sm font-medium transition-colors"
+              >
+                {replaceTopics.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Save topics</span>
+              </button>
+              <button
+                onClick={() => {
+                  setTopics(saved);
+                  setError(null);
+                }}
+                disabled={replaceTopics.isPending}
+                className="px-4 py-2 bg-white/10 text-purple-100 hover:bg-white/20 rounded-lg text-sm font-medium transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {saved.map((topic) => (
+            <span
+              key={topic}
+              className="px-3 py-1 text-xs sm:text-sm bg-purple-500/20 text-purple-300 rounded-full border border-purple-500/30"
+            >
+              {topic}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopicsEditor;
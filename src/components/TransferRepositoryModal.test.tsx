@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TransferRepositoryModal from './TransferRepositoryModal';
+import { githubApi } from '@/utils/api';
+import { testServer } from '@/test/fakeFetch';
+import { renderWithClient, signInTestAccount } from '@/test/utils';
+import type { Repository } from '@/types';
+
+const renderModal = (repository: Repository) => {
+  const onClose = vi.fn();
+  const onTransferred = vi.fn();
+  renderWithClient(
+    <TransferRepositoryModal repository={repository} isOpen onClose={onClose} onTransferred={onTransferred} />
+  );
+  return { onClose, onTransferred };
+};
+
+describe('TransferRepositoryModal', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('offers the account organizations and transfers once the full name is typed', async () => {
+    const user = userEvent.setup();
+    const { onClose, onTransferred } = renderModal(await githubApi.fetchRepository('octo-dev', 'dotfiles'));
+
+    await waitFor(() => expect(screen.getByLabelText('New owner')).toHaveValue('vlast-labs'));
+    await user.click(await screen.findByRole('checkbox', { name: 'Core' }));
+
+    const transferButton = screen.getByRole('button', { name: /transfer repository/i });
+    await user.type(screen.getByLabelText(/to confirm the transfer/), 'dotfiles');
+    expect(transferButton).toBeDisabled();
+
+    await user.clear(screen.getByLabelText(/to confirm the transfer/));
+    await user.type(screen.getByLabelText(/to confirm the transfer/), 'octo-dev/dotfiles');
+    await user.click(transferButton);
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onTransferred).toHaveBeenCalledWith(expect.objectContaining({ full_name: 'vlast-labs/dotfiles' }));
+    expect(testServer.getRepositories().some((repo) => repo.full_name === 'vlast-labs/dotfiles')).toBe(true);
+  });
+
+  it('shows why a transfer to an unknown owner failed', async () => {
+    const user = userEvent.setup();
+    const { onClose } = renderModal(await githubApi.fetchRepository('octo-dev', 'dotfiles'));
+
+    await waitFor(() => expect(screen.getByLabelText('New owner')).toHaveValue('vlast-labs'));
+    await user.selectOptions(screen.getByLabelText('New owner'), 'Another user or organization...');
+    await user.type(screen.getByLabelText('Owner login'), 'nobody-here');
+    await user.type(screen.getByLabelText(/to confirm the transfer/), 'octo-dev/dotfiles');
+    await user.click(screen.getByRole('button', { name: /transfer repository/i }));
+
+    expect(
+      await screen.findByText("No user or organization named 'nobody-here' can receive this repository.")
+    ).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowRightLeft, X, Loader2, AlertTriangle } from 'lucide-react';
+import type { Repository } from '@/types';
+import { useTransferRepository } from '@/hooks/useRepositories';
+import { useOrganizations, useTeams } from '@/hooks/useOrganizations';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTokenPermissions } from '@/hooks/useTokenPermissions';
+import { getMissingScopeMessage, READ_ONLY_MESSAGE } from '@/utils/scopes';
+
+interface TransferRepositoryModalProps {
+  repository: Repository | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onTransferred?: (repository: Repository) => void;
+}
+
+// Select value for typing in a login that is not one of the account's own owners
+const OTHER_OWNER = '__other__';
+
+const TransferRepositoryModal: React.FC<TransferRepositoryModalProps> = ({
+  repository,
+  isOpen,
+  onClose,
+  onTransferred,
+}) => {
+  const [selectedOwner, setSelectedOwner] = useState('');
+  const [otherOwner, setOtherOwner] = useState('');
+  const [newName, setNewName] = useState('');
+  const [teamIds, setTeamIds] = useState<number[]>([]);
+  const [confirmText, setConfirmText] = useState('');
+  const [error, setError] = useState('');
+  const transfer = useTransferRepository();
+  const { activeAccount } = useAccounts();
+  const { data: organizations = [], isLoading: organizationsLoading } = useOrganizations();
+  const { canModify, isReadOnly } = useTokenPermissions();
+
+  const currentOwner = repository?.owner.login ?? '';
+  const ownLogin = activeAccount?.user?.login;
+  const ownerOptions = [
+    ...(ownLogin && ownLogin !== currentOwner ? [{ login: ownLogin, label: `${ownLogin} (you)` }] : []),
+    ...organizations
+      .filter(({ login }) => login !== currentOwner)
+      .map(({ login }) => ({ login, label: `${login} (organization)` })),
+  ];
+  const targetOrganization = organizations.find(({ login }) => login === selectedOwner);
+  const { data: teams = [], isLoading: teamsLoading } = useTeams(selectedOwner, isOpen && !!targetOrganization);
+
+  const defaultOwner = ownerOptions[0]?.login ?? OTHER_OWNER;
+
+  // Default to the first available owner once organizations have loaded
+  useEffect(() => {
+    if (isOpen && !selectedOwner && !organizationsLoading) {
+      setSelectedOwner(defaultOwner);
+    }
+  }, [isOpen, selectedOwner, organizationsLoading, defaultOwner]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = isOpen ? 'hidden' : 'unset';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  if (!repository) return null;
+
+  const isAdmin = repository.permissions?.admin ?? false;
+  const allowed = canModify(repository) && isAdmin;
+  const newOwner = (selectedOwner === OTHER_OWNER ? otherOwner : selectedOwner).trim();
+  const confirmed = confirmText === repository.full_name;
+
+  const reset = () => {
+    setSelectedOwner('');
+    setOtherOwner('');
+    setNewName('');
+    setTeamIds([]);
+    setConfirmText('');
+    setError('');
+  };
+
+  const toggleTeam = (id: number) => {
+    setTeamIds((current) => (current.includes(id) ? current.filter((teamId) => teamId !== id) : [...current, id]));
+  };
+
+  const handleConfirm = async () => {
+    if (!allowed || !newOwner) return;
+
+    if (!confirmed) {
+      setError('The typed repository name does not match. Transfer cancelled.');
+      return;
+    }
+
+    try {
+      setError('');
+      const name = newName.trim();
+      const transferred = await transfer.mutateAsync({
+        owner: repository.owner.login,
+        repo: repository.name,
+        request: {
+          new_owner: newOwner,
+          ...(name && name !== repository.name && { new_name: name }),
+          ...(targetOrganization && teamIds.length > 0 && { team_ids: teamIds }),
+        },
+      });
+      reset();
+      if (onTransferred) onTransferred(transferred);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer repository');
+    }
+  };
+
+  const handleClose = () => {
+    if (!transfer.isPending) {
+      reset();
+      onClose();
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 text-sm sm:text-base';
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className="relative w-full max-w-md max-h-[95vh] bg-gray-900/95 backdrop-blur-lg border border-orange-500/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+          >
+            {/* Header */}
+            <div className="flex-shrink-0 p-4 sm:p-6 border-b border-orange-500/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className="p-2 rounded-full bg-orange-500/20">
+                    <ArrowRightLeft className="w-5 h-5 sm:w-6 sm:h-6 text-orange-400" />
+                  </div>
+                  <h2 className="text-lg sm:text-xl font-semibold text-orange-200">Transfer Repository</h2>
+                </div>
+                {!transfer.isPending && (
+                  <motion.button
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={handleClose}
+                    aria-label="Close"
+                    className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+                  >
+                    <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                  </motion.button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <div className="p-4 sm:p-6 space-y-4 sm:space-y-5">
+                <p className="text-white font-medium text-sm sm:text-base">
+                  Transfer <span className="text-orange-300 font-bold">{repository.full_name}</span> to another owner.
+                </p>
+                <div className="p-3 sm:p-4 bg-orange-500/10 border border-orange-500/20 rounded-lg">
+                  <div className="flex items-start space-x-2">
+                    <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 text-orange-400 mt-0.5 flex-shrink-0" />
+                    <div className="text-xs sm:text-sm text-orange-100 space-y-2">
+                      <p>
+                        Issues, pull requests, stars and the wiki move with the repository, and links to the old
+                        location redirect. Collaborators and webhooks tied to the current owner may be lost.
+                      </p>
+                      <p>Transfers to another user must be accepted by them before they take effect.</p>
+                    </div>
+                  </div>
+                </div>
+
+                {!allowed && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-200 text-xs sm:text-sm">
+                    {isReadOnly(repository)
+                      ? READ_ONLY_MESSAGE
+                      : !canModify(repository)
+                        ? getMissingScopeMessage(repository.private ? 'repo' : 'public_repo')
+                        : 'Only repository admins can transfer it.'}
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="transfer-owner" className="block text-sm font-medium text-purple-200 mb-2">
+                    New owner
+                  </label>
+                  <select
+                    id="transfer-owner"
+                    value={selectedOwner}
+                    onChange={(e) => {
+                      setSelectedOwner(e.target.value);
+                      setTeamIds([]);
+                      setError('');
+                    }}
+                    disabled={transfer.isPending || !allowed}
+                    className={inputClass}
+                  >
+                    {ownerOptions.map(({ login, label }) => (
+                      <option key={login} value={login} className="bg-gray-800">
+                        {label}
+                      </option>
+                    ))}
+                    <option value={OTHER_OWNER} className="bg-gray-800">
+                      Another user or organization...
+                    </option>
+                  </select>
+                  {selectedOwner === OTHER_OWNER && (
+                    <input
+                      type="text"
+                      aria-label="Owner login"
+                      value={otherOwner}
+                      onChange={(e) => {
+                        setOtherOwner(e.target.value);
+                        setError('');
+                      }}
+                      placeholder="username"
+                      disabled={transfer.isPending || !allowed}
+                      className={`${inputClass} mt-2`}
+                    />
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="transfer-name" className="block text-sm font-medium text-purple-200 mb-2">
+                    New name <span className="text-purple-300/60">(optional)</span>
+                  </label>
+                  <input
+                    id="transfer-name"
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder={repository.name}
+                    disabled={transfer.isPending || !allowed}
+                    className={inputClass}
+                  />
+                </div>
+
+                {targetOrganization && (
+                  <div>
+                    <div className="text-sm font-medium text-purple-200 mb-2">Give teams access</div>
+                    {teamsLoading ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-purple-300" />
+                    ) : teams.length === 0 ? (
+                      <p className="text-xs text-purple-300/70">{targetOrganization.login} has no teams.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {teams.map((team) => (
+                          <label key={team.id} className="flex items-center space-x-3 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={teamIds.includes(team.id)}
+                              onChange={() => toggleTeam(team.id)}
+                              disabled={transfer.isPending}
+                              className="w-4 h-4 text-purple-600 bg-white/5 border-white/20 rounded focus:ring-purple-500"
+                            />
+                            <span className="text-sm text-white">{team.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <label htmlFor="transfer-confirm" className="block text-sm font-medium text-purple-200">
+                    Type '{repository.full_name}' to confirm the transfer:
+                  </label>
+                  <input
+                    id="transfer-confirm"
+                    type="text"
+                    value={confirmText}
+                    onChange={(e) => {
+                      setConfirmText(e.target.value);
+                      setError('');
+                    }}
+                    placeholder={repository.full_name}
+                    disabled={transfer.isPending || !allowed}
+                    className={inputClass}
+                  />
+                </div>
+
+                {error && (
+                  <motion.div
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-xs sm:text-sm"
+                  >
+                    {error}
+                  </motion.div>
+                )}
+              </div>
+            </div>
+
+            {/* Fixed Footer Actions */}
+            <div className="flex-shrink-0 p-4 sm:p-6 border-t border-orange-500/20">
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleClose}
+                  disabled={transfer.isPending}
+                  className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={transfer.isPending || !allowed || !newOwner || !confirmed}
+                  className="flex-1 px-4 py-3 bg-orange-600 text-white hover:bg-orange-700 disabled:bg-orange-600/50 rounded-xl font-medium transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
+                >
+                  {transfer.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <ArrowRightLeft className="w-4 h-4" />
+                  )}
+                  <span>Transfer Repository</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default TransferRepositoryModal;
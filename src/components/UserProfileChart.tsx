@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { Calendar, MapPin, Building, Mail, AlertCircle, Loader2 } from 'lucide-react';
-import { config } from '../config/environment';
+import { githubApi, GitHubApiError } from '../utils/api';
 
 interface UserProfile {
   login: string;
@@ -52,52 +52,28 @@ const UserProfileChart: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      // Step 1: Authenticate using bearer token
-      const token = localStorage.getItem(config.githubApi.tokenKey);
-      if (!token) {
-        throw new Error('No authentication token found. Please login first.');
-      }
-
-      // Step 2: Fetch user profile data from API endpoint
-      const response = await fetch(`${config.githubApi.baseUrl}/user`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-      });
-
-      // Handle API errors
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || 
-          `API request failed with status ${response.status}: ${response.statusText}`
-        );
-      }
+      // Step 1-2: Fetch the profile through the shared client (auth, rate limits, caching)
+      const userData = await githubApi.getCurrentUser();
 
       // Step 3: Validate the received data before processing
-      const userData = await response.json();
-      
       if (!userData || typeof userData !== 'object') {
         throw new Error('Invalid user profile data received from API');
       }
 
       // Validate required fields
       const requiredFields = ['login', 'id', 'public_repos', 'followers', 'following'];
-      const missingFields = requiredFields.filter(field => userData[field] === undefined);
+      const missingFields = requiredFields.filter(field => userData[field as keyof typeof userData] === undefined);
       
       if (missingFields.length > 0) {
         throw new Error(`Missing required user profile fields: ${missingFields.join(', ')}`);
       }
 
-      setUserProfile(userData);
+      setUserProfile(userData as UserProfile);
     } catch (err) {
       console.error('Failed to fetch user profile:', err);
       setError({
         message: err instanceof Error ? err.message : 'Failed to fetch user profile data',
-        status: err instanceof Error && 'status' in err ? (err as any).status : undefined,
+        ...(err instanceof GitHubApiError && err.status !== undefined && { status: err.status }),
       });
     } finally {
       setLoading(false);
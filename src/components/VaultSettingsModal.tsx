@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Shield, Lock, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccounts } from '@/hooks/useAccounts';
+import { isVaultSupported } from '@/utils/vault';
+import { config } from '@/config/environment';
+
+interface VaultSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultSettingsModal: React.FC<VaultSettingsModalProps> = ({ isOpen, onClose }) => {
+  const { vaultStatus, enableVault, lockVault, disableVault, setVaultIdleTimeout } = useAuth();
+  const { idleTimeoutMinutes } = useAccounts();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [idleTimeout, setIdleTimeout] = useState<number>(config.vault.defaultIdleTimeoutMinutes);
+  const [isEnabling, setIsEnabling] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsEnabling(true);
+      setError('');
+      await enableVault(passphrase, idleTimeout);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable the vault');
+    } finally {
+      setIsEnabling(false);
+    }
+  };
+
+  const handleLock = () => {
+    onClose();
+    lockVault();
+  };
+
+  const handleClose = () => {
+    if (!isEnabling) {
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setError('');
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.3 }}
+            className="relative w-full max-w-md bg-gray-900/95 backdrop-blur-lg border border-purple-400/30 rounded-2xl sm:rounded-3xl shadow-2xl overflow-hidden"
+          >
+            {/* Header */}
+            <div className="p-4 sm:p-6 border-b border-purple-400/20 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 rounded-full bg-purple-500/20">
+                  <Shield className="w-5 h-5 text-purple-300" />
+                </div>
+                <h2 className="text-lg sm:text-xl font-semibold text-purple-100">Token Vault</h2>
+              </div>
+              <button
+                onClick={handleClose}
+                className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+              >
+                <X className="w-4 h-4 sm:w-5 sm:h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 sm:p-6 space-y-4">
+              {!isVaultSupported() ? (
+                <p className="text-sm text-yellow-200">
+                  This browser does not support WebCrypto, so tokens cannot be encrypted.
+                </p>
+              ) : vaultStatus === 'disabled' ? (
+                <>
+                  <p className="text-sm text-purple-200/80 font-light">
+                    Encrypt your stored tokens with a passphrase. Tokens are only decrypted in memory and
+                    are wiped again when the vault locks.
+                  </p>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => {
+                      setPassphrase(e.target.value);
+                      setError('');
+                    }}
+                    placeholder="Passphrase"
+                    disabled={isEnabling}
+                    className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50 text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => {
+                      setConfirmPassphrase(e.target.value);
+                      setError('');
+                    }}
+                    placeholder="Confirm passphrase"
+                    disabled={isEnabling}
+                    className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50 text-sm"
+                  />
+                  <label className="flex items-center justify-between text-sm text-purple-200">
+                    <span>Lock after inactivity</span>
+                    <select
+                      value={idleTimeout}
+                      onChange={(e) => setIdleTimeout(Number(e.target.value))}
+                      disabled={isEnabling}
+                      className="px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {config.vault.idleTimeoutOptions.map((minutes) => (
+                        <option key={minutes} value={minutes} className="bg-gray-800">
+                          {minutes} minutes
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  {error && (
+                    <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleEnable}
+                    disabled={isEnabling || !passphrase}
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-600/50 disabled:cursor-not-allowed rounded-xl font-medium transition-colors text-sm"
+                  >
+                    {isEnabling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shield className="w-4 h-4" />}
+                    <span>{isEnabling ? 'Encrypting...' : 'Enable Vault'}</span>
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-green-300 font-light">
+                    Your tokens are encrypted at rest. You will need the passphrase after the vault locks.
+                  </p>
+                  <label className="flex items-center justify-between text-sm text-purple-200">
+                    <span>Lock after inactivity</span>
+                    <select
+                      value={idleTimeoutMinutes ?? config.vault.defaultIdleTimeoutMinutes}
+                      onChange={(e) => setVaultIdleTimeout(Number(e.target.value))}
+                      className="px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {config.vault.idleTimeoutOptions.map((minutes) => (
+                        <option key={minutes} value={minutes} className="bg-gray-800">
+                          {minutes} minutes
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={handleLock}
+                      className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-purple-600 text-white hover:bg-purple-700 rounded-xl font-medium transition-colors text-sm"
+                    >
+                      <Lock className="w-4 h-4" />
+                      <span>Lock Now</span>
+                    </button>
+                    <button
+                      onClick={disableVault}
+                      className="flex-1 px-4 py-3 bg-white/10 text-white hover:bg-white/20 border border-white/20 rounded-xl font-medium transition-colors text-sm"
+                    >
+                      Disable Vault
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default VaultSettingsModal;
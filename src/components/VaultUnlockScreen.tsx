@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, AlertTriangle, ArrowRight } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { VaultError } from '@/utils/vault';
+
+const VaultUnlockScreen: React.FC = () => {
+  const { unlockVault, forgetAllAccounts } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+  const [confirmForget, setConfirmForget] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) {
+      setError('Please enter your passphrase');
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError('');
+
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof VaultError || err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="w-full max-w-md p-8 rounded-3xl bg-white/5 backdrop-blur-lg border border-white/10"
+      >
+        <div className="text-center mb-8">
+          <div className="inline-block p-4 rounded-full bg-white/10 border border-white/20 mb-4">
+            <Lock className="w-8 h-8 text-purple-400" />
+          </div>
+          <h1 className="text-2xl font-light text-purple-100 mb-2">Vault Locked</h1>
+          <p className="text-sm text-purple-200/70 font-light">
+            Your GitHub tokens are encrypted on this device. Enter your passphrase to unlock them.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setError('');
+            }}
+            placeholder="Passphrase"
+            autoFocus
+            disabled={isUnlocking}
+            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/20 text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 font-light"
+          />
+
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex items-center space-x-2 text-red-400 bg-red-400/10 p-3 rounded-lg border border-red-400/20"
+            >
+              <AlertTriangle className="w-5 h-5" />
+              <span className="font-light text-sm">{error}</span>
+            </motion.div>
+          )}
+
+          <motion.button
+            type="submit"
+            disabled={isUnlocking}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="w-full px-6 py-3 bg-white/10 border border-white/20 hover:bg-white/20 hover:border-purple-400/50 rounded-xl font-light text-white transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          >
+            {isUnlocking ? (
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            ) : (
+              <>
+                <span>Unlock</span>
+                <ArrowRight className="w-5 h-5" />
+              </>
+            )}
+          </motion.button>
+        </form>
+
+        <div className="mt-6 pt-6 border-t border-white/10 text-center">
+          {confirmForget ? (
+            <div className="space-y-3">
+              <p className="text-xs text-red-300 font-light">
+                Encrypted tokens cannot be recovered without the passphrase. This removes every stored account.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setConfirmForget(false)}
+                  className="flex-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={forgetAllAccounts}
+                  className="flex-1 px-3 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-sm text-white transition-colors"
+                >
+                  Remove accounts
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmForget(true)}
+              className="text-xs text-purple-300/70 hover:text-purple-200 font-light transition-colors"
+            >
+              Forgot your passphrase?
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default VaultUnlockScreen;
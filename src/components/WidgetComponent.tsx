@@ -1,7 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Star, GitFork, Eye, Factory as Repository, Lock, Unlock } from 'lucide-react';
-import type { Repository as RepoType } from '@/types';
+import { Star, GitFork, Eye, Factory as Repository, Lock, Unlock, Building2 } from 'lucide-react';
+import type { OwnerSummary, Repository as RepoType } from '@/types';
 
 interface WidgetProps {
   title: string;
@@ -45,11 +45,62 @@ const Widget: React.FC<WidgetProps> = ({ title, value, icon, color, change }) =>
   );
 };
 
+interface OwnerCardProps {
+  owner: OwnerSummary;
+  selected: boolean;
+  onSelect?: () => void;
+}
+
+const OwnerCard: React.FC<OwnerCardProps> = ({ owner, selected, onSelect }) => {
+  const { stats } = owner;
+
+  return (
+    <motion.button
+      whileHover={{ scale: 1.02, y: -2 }}
+      onClick={onSelect}
+      disabled={!onSelect}
+      aria-pressed={selected}
+      className={`w-full text-left p-4 rounded-2xl backdrop-blur-lg border transition-all duration-300 ${
+        selected ? 'bg-purple-600/30 border-purple-400/60' : 'bg-white/10 border-white/20 hover:border-purple-400/50'
+      }`}
+    >
+      <div className="flex items-center space-x-3 mb-3">
+        <img src={owner.avatarUrl} alt="" className="w-8 h-8 rounded-full" />
+        <div className="min-w-0">
+          <div className="text-white font-medium truncate">{owner.login}</div>
+          <div className="flex items-center space-x-1 text-xs text-purple-300/70">
+            {owner.isOrganization && <Building2 className="w-3 h-3" />}
+            <span>{owner.isViewer ? 'Your account' : owner.isOrganization ? 'Organization' : 'Collaborator'}</span>
+          </div>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-lg font-bold text-white">{stats.totalRepos.toLocaleString()}</div>
+          <div className="text-xs text-purple-200">Repos</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">{stats.totalStars.toLocaleString()}</div>
+          <div className="text-xs text-purple-200">Stars</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">{stats.privateRepos.toLocaleString()}</div>
+          <div className="text-xs text-purple-200">Private</div>
+        </div>
+      </div>
+    </motion.button>
+  );
+};
+
 interface WidgetComponentProps {
   repositories: RepoType[];
+  // Per-owner breakdown, shown when the repositories span more than one owner
+  owners?: OwnerSummary[];
+  selectedOwner?: string;
+  onSelectOwner?: (login: string) => void;
 }
 
-const WidgetComponent: React.FC<WidgetComponentProps> = ({ repositories }) => {
+const WidgetComponent: React.FC<WidgetComponentProps> = ({ repositories, owners = [], selectedOwner, onSelectOwner }) => {
   // Calculate real statistics from the repositories data
   const calculateStats = () => {
     const totalRepos = repositories.length;
@@ -113,17 +164,35 @@ const WidgetComponent: React.FC<WidgetComponentProps> = ({ repositories }) => {
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {widgets.map((widget, index) => (
-        <motion.div
-          key={index}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: index * 0.1 }}
-        >
-          <Widget {...widget} />
-        </motion.div>
-      ))}
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {widgets.map((widget, index) => (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: index * 0.1 }}
+          >
+            <Widget {...widget} />
+          </motion.div>
+        ))}
+      </div>
+
+      {owners.length > 1 && (
+        <div>
+          <h3 className="text-sm font-medium text-purple-200 mb-3">By owner</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {owners.map((owner) => (
+              <OwnerCard
+                key={owner.login}
+                owner={owner}
+                selected={owner.login === selectedOwner}
+                {...(onSelectOwner && { onSelect: () => onSelectOwner(owner.login) })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
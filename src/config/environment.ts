@@ -1,12 +1,65 @@
 // Environment configuration for dev/prod mode switching
 export const config = {
-  // Always use real GitHub API data
-  isDevelopment: false,
-  
-  // GitHub API configuration
+  // GitHub API configuration (defaults for github.com; GHES hosts are
+  // resolved per token from the stored host profile, see utils/host.ts)
   githubApi: {
     baseUrl: 'https://api.github.com',
-    tokenKey: 'github_access_token', // localStorage key
+    graphqlUrl: 'https://api.github.com/graphql',
+    webUrl: 'https://github.com',
+    accountsKey: 'vlast_accounts', // localStorage key for the account keyring
+    tokenKey: 'github_access_token', // legacy single-token key, migrated into the keyring
+    hostKey: 'github_host_profile', // legacy host key, migrated into the keyring
+    perPage: 100, // GitHub's maximum page size for list endpoints
+    maxRateLimitRetries: 3, // retries after a secondary rate limit pause
+    logRequests: import.meta.env.DEV && import.meta.env.MODE !== 'test', // log every request to the console during development
+  },
+
+  // OAuth device flow sign-in. GitHub's device endpoints do not send CORS
+  // headers, so browsers need a proxy that forwards to the URL appended to proxyUrl.
+  oauth: {
+    clientId: import.meta.env.VITE_GITHUB_OAUTH_CLIENT_ID ?? '',
+    proxyUrl: import.meta.env.VITE_GITHUB_OAUTH_PROXY_URL ?? '',
+  },
+
+  // Conditional request cache (ETag / Last-Modified), persisted in IndexedDB
+  httpCache: {
+    dbName: 'vlast-http-cache',
+  },
+
+  // Append-only record of every change made through the app, persisted in IndexedDB
+  auditLog: {
+    dbName: 'vlast-audit-log',
+  },
+  
+  // Optional passphrase vault for stored tokens (AES-GCM, key derived with PBKDF2)
+  vault: {
+    pbkdf2Iterations: 600_000,
+    defaultIdleTimeoutMinutes: 15,
+    idleTimeoutOptions: [5, 15, 30, 60], // minutes offered in the vault settings
+  },
+  
+  // Operations on several selected repositories. GitHub asks clients not to
+  // send many concurrent writes, so only a few run at a time.
+  batch: {
+    concurrency: 4,
+  },
+
+  // Per-branch lookups (head commits, merge checks, bulk deletes) run a few at
+  // a time so repositories with hundreds of branches don't trip GitHub's
+  // secondary rate limits
+  branches: {
+    requestConcurrency: 6,
+  },
+
+  // Renewal reminder for tokens that report an expiry date
+  tokenExpiry: {
+    reminderDays: 7,
+  },
+  
+  // Offline mode: serve the GitHub API from the in-memory mock in src/mocks
+  mockApi: {
+    enabled: import.meta.env.VITE_GITHUB_MOCK === 'true',
+    latencyMs: 300, // simulated round trip so loading states stay visible
   },
   
   // Required GitHub token scopes
@@ -1,2 +0,0 @@
-// Re-export Repository type from types
-export type { Repository } from '../types'; 
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { accountKeyring } from '@/utils/accounts';
+
+export const useAccounts = () => {
+  const { accounts, activeId, idleTimeoutMinutes } = useSyncExternalStore(accountKeyring.subscribe, accountKeyring.getSnapshot);
+
+  const switchAccount = useCallback((id: string) => {
+    accountKeyring.setActive(id);
+  }, []);
+
+  return {
+    accounts,
+    activeAccount: accounts.find((account) => account.id === activeId) ?? null,
+    idleTimeoutMinutes,
+    switchAccount,
+  };
+};
+
+// Namespace for per-account query keys; empty only while signed out
+export const useActiveAccountId = (): string => {
+  return useSyncExternalStore(accountKeyring.subscribe, () => accountKeyring.getSnapshot().activeId) ?? '';
+};
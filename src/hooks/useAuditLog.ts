@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { auditLog } from '@/utils/auditLog';
+import type { AuditEntry } from '@/types';
+
+type AuditRecord = Pick<AuditEntry, 'action' | 'repository' | 'before' | 'after'> & { path?: string };
+
+// Every recorded entry across accounts, newest first
+export const useAuditLog = () => {
+  const entries = useSyncExternalStore(auditLog.subscribe, auditLog.getSnapshot);
+
+  useEffect(() => {
+    void auditLog.load();
+  }, []);
+
+  return entries;
+};
+
+// Records a settled mutation for the active account; pass the mutation's error, or null on success
+export const useAuditTrail = () => {
+  const { activeAccount } = useAccounts();
+
+  return useCallback(
+    (record: AuditRecord, error: unknown) => {
+      if (!activeAccount) return;
+
+      void auditLog.append({
+        accountId: activeAccount.id,
+        accountLogin: activeAccount.user?.login ?? activeAccount.label,
+        host: activeAccount.host.url,
+        ...record,
+        result: error ? 'failure' : 'success',
+        ...(error instanceof Error && { error: error.message }),
+      });
+    },
+    [activeAccount]
+  );
+};
@@ -1,46 +1,121 @@
-import { useCallback } from 'react';
+import { useCallback, useSyncExternalStore } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
-import { config } from '@/config/environment';
-import { githubApi } from '@/utils/api';
+import { githubApi, GitHubApiError } from '@/utils/api';
+import { accountKeyring } from '@/utils/accounts';
+import { httpCache } from '@/utils/httpCache';
+import { sessionMonitor } from '@/utils/session';
+import { DEFAULT_HOST_PROFILE } from '@/utils/host';
+import { QUERY_KEYS } from '@/types';
+import type { HostProfile, VaultStatus } from '@/types';
 
 export const useAuth = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const vaultStatus = useSyncExternalStore(
+    accountKeyring.subscribe,
+    (): VaultStatus => accountKeyring.getSnapshot().vaultStatus
+  );
+  const session = useSyncExternalStore(sessionMonitor.subscribe, sessionMonitor.getSnapshot);
 
   const isAuthenticated = useCallback((): boolean => {
-    const token = localStorage.getItem(config.githubApi.tokenKey);
-    return Boolean(token);
+    return Boolean(accountKeyring.getActiveToken());
   }, []);
 
-  const login = useCallback(async (token: string): Promise<boolean> => {
+  const login = useCallback(async (
+    token: string,
+    host: HostProfile = DEFAULT_HOST_PROFILE,
+    label?: string
+  ): Promise<boolean> => {
     try {
-      const isValid = await githubApi.validateToken(token);
-      if (!isValid) {
-        throw new Error('Invalid token or insufficient permissions');
-      }
-
-      localStorage.setItem(config.githubApi.tokenKey, token);
+      // Validates the token and caches the profile and granted scopes with the account
+      const { user, permissions } = await githubApi.inspectToken(token, host);
+      accountKeyring.addAccount({ token, host, user, permissions, ...(label !== undefined && { label }) });
       return true;
     } catch (error) {
       return false;
     }
   }, []);
 
+  // Swaps in a new token for the account whose token was rejected, then
+  // replays the requests that were held while the session was expired
+  const reauthenticate = useCallback(async (token: string): Promise<void> => {
+    const account = accountKeyring.getActiveAccount();
+    if (!account) {
+      throw new GitHubApiError('No account to re-authenticate. Please sign in again.');
+    }
+
+    const { user, permissions } = await githubApi.inspectToken(token, account.host);
+    if (account.user && account.user.login !== user.login) {
+      throw new GitHubApiError(
+        `This token belongs to ${user.login}. Please provide a token for ${account.user.login}.`
+      );
+    }
+
+    accountKeyring.updateAccount(account.id, { token, user, permissions });
+    sessionMonitor.restore();
+  }, []);
+
+  // Signs out of the active account only; other accounts stay in the keyring
   const logout = useCallback(() => {
-    localStorage.removeItem(config.githubApi.tokenKey);
-    queryClient.clear(); // Clear all cached data
-    navigate('/');
+    sessionMonitor.abandon(); // Fail any requests still waiting for re-authentication
+    const account = accountKeyring.getActiveAccount();
+    if (account) {
+      accountKeyring.removeAccount(account.id);
+      queryClient.removeQueries({ queryKey: QUERY_KEYS.account(account.id) });
+      void httpCache.deletePrefix(`${account.id}:`); // Drop cached response bodies for this account
+    }
+
+    navigate(accountKeyring.getActiveAccount() ? '/dashboard' : '/');
   }, [navigate, queryClient]);
 
   const getToken = useCallback((): string | null => {
-    return localStorage.getItem(config.githubApi.tokenKey);
+    return accountKeyring.getActiveToken();
+  }, []);
+
+  // Vault mode: tokens are encrypted at rest and decrypted into memory on unlock
+  const enableVault = useCallback(async (passphrase: string, idleTimeoutMinutes: number) => {
+    await accountKeyring.enableVault(passphrase, idleTimeoutMinutes);
   }, []);
 
+  const unlockVault = useCallback(async (passphrase: string) => {
+    await accountKeyring.unlockVault(passphrase);
+  }, []);
+
+  const lockVault = useCallback(() => {
+    accountKeyring.lockVault();
+  }, []);
+
+  const disableVault = useCallback(() => {
+    accountKeyring.disableVault();
+  }, []);
+
+  const setVaultIdleTimeout = useCallback((minutes: number) => {
+    accountKeyring.setIdleTimeout(minutes);
+  }, []);
+
+  // Forgotten passphrase: the encrypted tokens cannot be recovered, so every account is removed
+  const forgetAllAccounts = useCallback(() => {
+    accountKeyring.clear();
+    queryClient.clear();
+    void httpCache.clear();
+    navigate('/');
+  }, [navigate, queryClient]);
+
   return {
     isAuthenticated,
     login,
     logout,
     getToken,
+    isSessionExpired: session.expiredAccountId !== null,
+    pausedRequests: session.pausedRequests,
+    reauthenticate,
+    vaultStatus,
+    enableVault,
+    unlockVault,
+    lockVault,
+    disableVault,
+    setVaultIdleTimeout,
+    forgetAllAccounts,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act } from '@testing-library/react';
+import { useBatchOperations } from './useBatchOperations';
+import { QUERY_KEYS } from '@/types';
+import type { Repository } from '@/types';
+import { auditLog } from '@/utils/auditLog';
+import { buildPlan } from '@/utils/batchOperations';
+import { testServer } from '@/test/fakeFetch';
+import { createTestQueryClient, renderHookWithClient, signInTestAccount } from '@/test/utils';
+
+const findRepository = (name: string): Repository => {
+  return testServer.getRepositories().find((repo) => repo.name === name)!;
+};
+
+describe('useBatchOperations', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('adds and removes topics across repositories and reports each one', async () => {
+    const { result } = renderHookWithClient(() => useBatchOperations());
+    const repositories = ['vlast-cli', 'dotfiles', 'ml-notebooks', 'design-tokens'].map(findRepository);
+
+    await act(() =>
+      result.current.apply(buildPlan({ kind: 'topics', add: ['cli'], remove: ['neovim'] }, repositories))
+    );
+
+    expect(result.current.jobs.map(({ label, status, message }) => ({ label, status, message }))).toEqual([
+      { label: 'octo-dev/vlast-cli', status: 'skipped', message: 'Already up to date' },
+      { label: 'octo-dev/dotfiles', status: 'succeeded', message: undefined },
+      { label: 'octo-dev/ml-notebooks', status: 'succeeded', message: undefined },
+      { label: 'lena-park/design-tokens', status: 'failed', message: 'Must have admin rights to Repository.' },
+    ]);
+    expect(findRepository('dotfiles').topics).toEqual(['dotfiles', 'cli']);
+    expect(findRepository('ml-notebooks').topics).toEqual(['machine-learning', 'jupyter', 'cli']);
+  });
+
+  it('skips repositories already in the requested state and archived ones', async () => {
+    const { result } = renderHookWithClient(() => useBatchOperations());
+    const repositories = ['billing-service', 'dotfiles', 'conference-talks'].map(findRepository);
+
+    await act(() => result.current.apply(buildPlan({ kind: 'visibility', private: true }, repositories)));
+
+    expect(result.current.counts).toMatchObject({ succeeded: 1, skipped: 2, failed: 0 });
+    expect(result.current.jobs.find(({ label }) => label === 'lena-park/conference-talks')?.message).toBe(
+      'Archived repositories are read-only'
+    );
+    expect(findRepository('dotfiles').private).toBe(true);
+  });
+
+  it('retries failed repositories and refreshes the list and user after deleting', async () => {
+    const queryClient = createTestQueryClient();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHookWithClient(() => useBatchOperations(), queryClient);
+    const repositories = ['dotfiles', 'ml-notebooks'].map(findRepository);
+
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await act(() => result.current.apply(buildPlan({ kind: 'delete' }, repositories)));
+    expect(result.current.counts).toMatchObject({ succeeded: 1, failed: 1 });
+
+    await act(() => result.current.retryFailed());
+
+    expect(result.current.counts).toMatchObject({ succeeded: 2, failed: 0 });
+    expect(testServer.getRepositories().some(({ name }) => name === 'dotfiles' || name === 'ml-notebooks')).toBe(false);
+    expect(invalidate.mock.calls.map(([filters]) => filters?.queryKey)).toContainEqual(QUERY_KEYS.user(accountId));
+  });
+
+  it('records what each deleted repository was in the audit log', async () => {
+    const { result } = renderHookWithClient(() => useBatchOperations());
+    const dotfiles = { ...findRepository('dotfiles') };
+
+    await act(() => result.current.apply(buildPlan({ kind: 'delete' }, [dotfiles])));
+
+    expect(auditLog.getSnapshot().filter((entry) => entry.accountId === accountId)).toEqual([
+      expect.objectContaining({
+        action: 'repository.delete',
+        repository: 'octo-dev/dotfiles',
+        before: {
+          visibility: dotfiles.visibility,
+          archived: dotfiles.archived,
+          default_branch: dotfiles.default_branch,
+          description: dotfiles.description,
+        },
+        after: null,
+        result: 'success',
+      }),
+    ]);
+  });
+
+  it('records the archived state each repository actually had', async () => {
+    const { result } = renderHookWithClient(() => useBatchOperations());
+    const repositories = ['dotfiles', 'conference-talks'].map((name) => ({ ...findRepository(name) }));
+
+    await act(() => result.current.apply(buildPlan({ kind: 'archive', archived: true }, repositories)));
+
+    // conference-talks is already archived, so it is skipped rather than recorded as a change
+    expect(auditLog.getSnapshot().filter((entry) => entry.accountId === accountId)).toEqual([
+      expect.objectContaining({
+        action: 'repository.archive',
+        repository: 'octo-dev/dotfiles',
+        before: { archived: false },
+        after: { archived: true },
+      }),
+    ]);
+  });
+});
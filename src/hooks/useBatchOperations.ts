@@ -0,0 +1,106 @@
+import { useCallback, useRef, useState, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { config } from '@/config/environment';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
+import { JobQueue } from '@/utils/jobQueue';
+import { applyPlanItem, getPlanItemLabel } from '@/utils/batchOperations';
+import { QUERY_KEYS } from '@/types';
+import type { AuditAction, BatchJobStatus, BatchOperation, PlanItem, RepositoryPlan } from '@/types';
+
+const toAuditAction = (operation: BatchOperation): AuditAction => {
+  switch (operation.kind) {
+    case 'visibility':
+      return 'repository.visibility';
+    case 'archive':
+      return operation.archived ? 'repository.archive' : 'repository.unarchive';
+    case 'topics':
+      return 'repository.topics';
+    case 'settings':
+      return 'repository.update';
+    case 'delete':
+      return 'repository.delete';
+  }
+};
+
+/**
+ * Applies a plan to many repositories through a concurrency-limited queue.
+ * Each caller gets its own queue, so `jobs` only holds that caller's latest
+ * batch; failed jobs can be retried as often as needed.
+ */
+export const useBatchOperations = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const [queue] = useState(() => new JobQueue(config.batch.concurrency));
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const operationRef = useRef<BatchOperation | null>(null);
+  const audit = useAuditTrail();
+
+  const refresh = useCallback(() => {
+    const operation = operationRef.current;
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories(accountId) });
+    // Deleting and visibility changes move the public repository count
+    if (operation?.kind === 'delete' || operation?.kind === 'visibility') {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.user(accountId) });
+    }
+  }, [queryClient, accountId]);
+
+  const apply = useCallback(
+    async (plan: RepositoryPlan) => {
+      operationRef.current = plan.operation;
+
+      // Every attempt is audited, retries included
+      const applyAndRecord = async (item: PlanItem) => {
+        const record = {
+          action: toAuditAction(plan.operation),
+          repository: getPlanItemLabel(item),
+          before:
+            item.action === 'delete'
+              ? (item.snapshot ?? null)
+              : Object.fromEntries(item.changes.map(({ field, from }) => [field, from])),
+          after: item.action === 'delete' ? null : Object.fromEntries(item.changes.map(({ field, to }) => [field, to])),
+        };
+        try {
+          await applyPlanItem(item);
+          audit(record, null);
+        } catch (error) {
+          audit(record, error);
+          throw error;
+        }
+      };
+
+      await queue.run(
+        plan.items.map((item) => ({
+          id: String(item.id),
+          label: getPlanItemLabel(item),
+          ...(item.action === 'skip'
+            ? { skipReason: item.reason ?? 'Nothing to change' }
+            : { run: () => applyAndRecord(item) }),
+        }))
+      );
+      refresh();
+    },
+    [queue, refresh, audit]
+  );
+
+  const retryFailed = useCallback(async () => {
+    await queue.retryFailed();
+    refresh();
+  }, [queue, refresh]);
+
+  const reset = useCallback(() => queue.clear(), [queue]);
+
+  const counts = jobs.reduce<Record<BatchJobStatus, number>>(
+    (totals, job) => ({ ...totals, [job.status]: totals[job.status] + 1 }),
+    { queued: 0, running: 0, succeeded: 0, failed: 0, skipped: 0 }
+  );
+
+  return {
+    jobs,
+    counts,
+    isRunning: counts.queued + counts.running > 0,
+    apply,
+    retryFailed,
+    reset,
+  };
+};
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import {
+  useBranches,
+  useCreateBranch,
+  useDeleteBranches,
+  useMergedBranches,
+  useSetDefaultBranch,
+} from './useBranches';
+import { githubApi } from '@/utils/api';
+import { auditLog } from '@/utils/auditLog';
+import { renderHookWithClient, signInTestAccount } from '@/test/utils';
+
+const loadBranches = async () => {
+  const { result } = renderHookWithClient(() => useBranches('octo-dev', 'vlast-cli'));
+  await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  return result.current.data!;
+};
+
+describe('useBranches', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('lists branches with their last commit and protection', async () => {
+    const branches = await loadBranches();
+
+    expect(branches.map((branch) => branch.name)).toEqual([
+      'experiment/ink-ui',
+      'feature/plugins',
+      'fix/readme-typo',
+      'main',
+      'release/1.x',
+    ]);
+    expect(branches.find((branch) => branch.name === 'main')?.lastCommit?.messageHeadline).toBe('Release 1.4.2');
+    expect(branches.find((branch) => branch.name === 'release/1.x')?.protected).toBe(true);
+  });
+
+  it('only reports unprotected branches without commits beyond the base as merged', async () => {
+    const branches = await loadBranches();
+    const { result } = renderHookWithClient(() =>
+      useMergedBranches('octo-dev', 'vlast-cli', 'main', branches, true)
+    );
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual(['fix/readme-typo']);
+  });
+
+  it('creates a branch from another branch', async () => {
+    const { result } = renderHookWithClient(() => useCreateBranch());
+
+    await act(() =>
+      result.current.mutateAsync({ owner: 'octo-dev', repo: 'vlast-cli', branch: 'feature/docs', fromRef: 'feature/plugins' })
+    );
+
+    const [created, source] = await Promise.all([
+      githubApi.getBranch('octo-dev', 'vlast-cli', 'feature/docs'),
+      githubApi.getBranch('octo-dev', 'vlast-cli', 'feature/plugins'),
+    ]);
+    expect(created.commit.sha).toBe(source.commit.sha);
+  });
+
+  it('rejects a branch name that is already taken', async () => {
+    const { result } = renderHookWithClient(() => useCreateBranch());
+
+    await act(async () => {
+      await expect(
+        result.current.mutateAsync({ owner: 'octo-dev', repo: 'vlast-cli', branch: 'feature/plugins', fromRef: 'main' })
+      ).rejects.toThrow("A branch named 'feature/plugins' already exists.");
+    });
+  });
+
+  it('reports per-branch results when deleting in bulk', async () => {
+    const { result } = renderHookWithClient(() => useDeleteBranches());
+
+    let summary;
+    await act(async () => {
+      summary = await result.current.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        branches: ['fix/readme-typo', 'release/1.x'],
+      });
+    });
+
+    expect(summary).toEqual({
+      deleted: ['fix/readme-typo'],
+      failed: [{ branch: 'release/1.x', message: 'Cannot delete a protected branch' }],
+    });
+  });
+
+  it('audits each deleted branch with the head it pointed at', async () => {
+    const { result } = renderHookWithClient(() => ({
+      branches: useBranches('octo-dev', 'vlast-cli'),
+      remove: useDeleteBranches(),
+    }));
+    await waitFor(() => expect(result.current.branches.isSuccess).toBe(true));
+    const head = (name: string) => result.current.branches.data!.find((branch) => branch.name === name)!.commit.sha;
+    const heads = { typo: head('fix/readme-typo'), release: head('release/1.x') };
+
+    await act(() =>
+      result.current.remove.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        branches: ['fix/readme-typo', 'release/1.x'],
+      })
+    );
+
+    const entries = auditLog.getSnapshot().filter((entry) => entry.accountId === accountId);
+    expect(entries).toHaveLength(2);
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'fix/readme-typo', before: { sha: heads.typo }, result: 'success' }),
+        expect.objectContaining({
+          path: 'release/1.x',
+          before: { sha: heads.release },
+          result: 'failure',
+          error: 'Cannot delete a protected branch',
+        }),
+      ])
+    );
+  });
+
+  it('switches the default branch only to a branch that exists', async () => {
+    const { result } = renderHookWithClient(() => useSetDefaultBranch());
+
+    await act(() => result.current.mutateAsync({ owner: 'octo-dev', repo: 'vlast-cli', branch: 'release/1.x' }));
+    expect((await githubApi.fetchRepository('octo-dev', 'vlast-cli')).default_branch).toBe('release/1.x');
+
+    await act(async () => {
+      await expect(
+        result.current.mutateAsync({ owner: 'octo-dev', repo: 'vlast-cli', branch: 'does-not-exist' })
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+});
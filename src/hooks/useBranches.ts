@@ -0,0 +1,203 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { config } from '@/config/environment';
+import { githubApi } from '@/utils/api';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
+import { findCachedRepository } from '@/hooks/useRepositories';
+import { QUERY_KEYS, MUTATION_KEYS } from '@/types';
+import type { BranchDeletionResult, BranchSummary, GitCommit, RepositoryCommit } from '@/types';
+
+const toRepositoryCommit = ({ sha, commit }: GitCommit): RepositoryCommit => ({
+  oid: sha,
+  messageHeadline: commit.message.split('\n')[0] ?? '',
+  committedDate: commit.committer?.date ?? commit.author?.date ?? '',
+  authorName: commit.author?.name ?? null,
+});
+
+// Lists branches with their head commit; commit lookups by SHA are served from the HTTP cache after the first load
+export const useBranches = (owner: string, repo: string) => {
+  const accountId = useActiveAccountId();
+
+  return useQuery({
+    queryKey: QUERY_KEYS.branches(accountId, owner, repo),
+    queryFn: async ({ signal }): Promise<BranchSummary[]> => {
+      const branches = await githubApi.fetchBranches(owner, repo, signal);
+      return mapWithConcurrency(branches, config.branches.requestConcurrency, async (branch) => {
+        const commit = await githubApi.getCommit(owner, repo, branch.commit.sha, signal).catch(() => null);
+        return { ...branch, lastCommit: commit ? toRepositoryCommit(commit) : null };
+      });
+    },
+    enabled: !!owner && !!repo,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Branches with no commits beyond `base`; protected branches are never candidates for cleanup.
+// Only enable it once the user asks for merged branches: it costs one compare request per branch.
+export const useMergedBranches = (
+  owner: string,
+  repo: string,
+  base: string,
+  branches: BranchSummary[],
+  enabled: boolean
+) => {
+  const accountId = useActiveAccountId();
+  const candidates = branches.filter((branch) => branch.name !== base && !branch.protected);
+
+  return useQuery({
+    queryKey: QUERY_KEYS.mergedBranches(accountId, owner, repo, base),
+    queryFn: async ({ signal }): Promise<string[]> => {
+      const comparisons = await mapWithConcurrency(
+        candidates,
+        config.branches.requestConcurrency,
+        async (branch) => ({
+          name: branch.name,
+          comparison: await githubApi.compareCommits(owner, repo, base, branch.name, signal),
+        })
+      );
+      return comparisons
+        .filter(({ comparison }) => comparison.ahead_by === 0)
+        .map(({ name }) => name);
+    },
+    enabled: enabled && !!owner && !!repo && !!base,
+    staleTime: 0,
+  });
+};
+
+export const useCreateBranch = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.createBranch,
+    mutationFn: ({
+      owner,
+      repo,
+      branch,
+      fromRef,
+    }: {
+      owner: string;
+      repo: string;
+      branch: string;
+      fromRef: string;
+    }) => {
+      return githubApi.createBranch(owner, repo, branch, fromRef);
+    },
+    onSuccess: (_, { owner, repo }) => {
+      // Prefix match also refreshes the merged-branch check
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, repo) });
+    },
+    onSettled: (created, error, { owner, repo, branch, fromRef }) => {
+      audit(
+        {
+          action: 'branch.create',
+          repository: `${owner}/${repo}`,
+          path: branch,
+          before: null,
+          after: { from: fromRef, sha: created?.object.sha ?? null },
+        },
+        error
+      );
+    },
+  });
+};
+
+export const useDeleteBranches = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.deleteBranches,
+    mutationFn: async ({
+      owner,
+      repo,
+      branches,
+    }: {
+      owner: string;
+      repo: string;
+      branches: string[];
+    }): Promise<BranchDeletionResult> => {
+      const results = await mapWithConcurrency(
+        branches,
+        config.branches.requestConcurrency,
+        (branch): Promise<PromiseSettledResult<void>> =>
+          githubApi.deleteBranch(owner, repo, branch).then(
+            (value) => ({ status: 'fulfilled', value }),
+            (reason: unknown) => ({ status: 'rejected', reason })
+          )
+      );
+
+      return results.reduce<BranchDeletionResult>(
+        (summary, result, index) => {
+          const branch = branches[index]!;
+          if (result.status === 'fulfilled') {
+            summary.deleted.push(branch);
+          } else {
+            const message = result.reason instanceof Error ? result.reason.message : 'Failed to delete branch';
+            summary.failed.push({ branch, message });
+          }
+          return summary;
+        },
+        { deleted: [], failed: [] }
+      );
+    },
+    onMutate: ({ owner, repo }) => ({
+      before: queryClient.getQueryData<BranchSummary[]>(QUERY_KEYS.branches(accountId, owner, repo)),
+    }),
+    onSettled: (result, _, { owner, repo, branches }, context) => {
+      // Each branch is recorded on its own, with the head it pointed at
+      const failures = new Map(result?.failed.map(({ branch, message }) => [branch, message]));
+      for (const branch of branches) {
+        const head = context?.before?.find(({ name }) => name === branch)?.commit.sha;
+        const failure = failures.get(branch);
+        audit(
+          {
+            action: 'branch.delete',
+            repository: `${owner}/${repo}`,
+            path: branch,
+            before: { sha: head ?? null },
+            after: null,
+          },
+          failure === undefined ? null : new Error(failure)
+        );
+      }
+
+      // Some deletions may have succeeded even when others failed
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, repo) });
+    },
+  });
+};
+
+export const useSetDefaultBranch = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.setDefaultBranch,
+    mutationFn: ({ owner, repo, branch }: { owner: string; repo: string; branch: string }) => {
+      return githubApi.setDefaultBranch(owner, repo, branch);
+    },
+    onMutate: ({ owner, repo }) => ({ before: findCachedRepository(queryClient, accountId, owner, repo) }),
+    onSuccess: (_, { owner, repo }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, repo) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(accountId, owner, repo) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories(accountId) });
+    },
+    onSettled: (_, error, { owner, repo, branch }, context) => {
+      audit(
+        {
+          action: 'repository.update',
+          repository: `${owner}/${repo}`,
+          before: context?.before ? { default_branch: context.before.default_branch } : null,
+          after: { default_branch: branch },
+        },
+        error
+      );
+    },
+  });
+};
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { requestDeviceCode, pollForAccessToken } from '@/utils/deviceFlow';
+import type { HostProfile } from '@/types';
+
+export type DeviceFlowStatus = 'idle' | 'requesting' | 'awaiting' | 'success' | 'error';
+
+interface DeviceFlowState {
+  status: DeviceFlowStatus;
+  userCode: string | null;
+  verificationUri: string | null;
+  expiresAt: number | null;
+  error: string | null;
+}
+
+const IDLE_STATE: DeviceFlowState = {
+  status: 'idle',
+  userCode: null,
+  verificationUri: null,
+  expiresAt: null,
+  error: null,
+};
+
+export const useDeviceFlow = () => {
+  const { login } = useAuth();
+  const [state, setState] = useState<DeviceFlowState>(IDLE_STATE);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop polling if the component unmounts mid-flow
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = useCallback(async (host: HostProfile, label?: string): Promise<boolean> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setState({ ...IDLE_STATE, status: 'requesting' });
+      const deviceCode = await requestDeviceCode(host, controller.signal);
+
+      setState({
+        status: 'awaiting',
+        userCode: deviceCode.user_code,
+        verificationUri: deviceCode.verification_uri,
+        expiresAt: Date.now() + deviceCode.expires_in * 1000,
+        error: null,
+      });
+
+      const token = await pollForAccessToken(host, deviceCode, controller.signal);
+      const isValid = await login(token, host, label);
+      if (!isValid) {
+        throw new Error('GitHub issued a token, but it could not be validated');
+      }
+
+      setState((prev) => ({ ...prev, status: 'success' }));
+      return true;
+    } catch (err) {
+      // Cancelled flows were already reset by cancel() or the unmount cleanup
+      if (!controller.signal.aborted) {
+        setState({ ...IDLE_STATE, status: 'error', error: err instanceof Error ? err.message : 'Sign-in failed' });
+      }
+      return false;
+    }
+  }, [login]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setState(IDLE_STATE);
+  }, []);
+
+  return { ...state, start, cancel };
+};
@@ -0,0 +1,40 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { accountKeyring } from '@/utils/accounts';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Locks the vault after the configured idle time; compares timestamps rather
+// than relying on one long timer so time spent asleep or in a hidden tab counts
+export const useIdleLock = () => {
+  const { vaultStatus, idleTimeoutMinutes } = useSyncExternalStore(
+    accountKeyring.subscribe,
+    accountKeyring.getSnapshot
+  );
+
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked' || !idleTimeoutMinutes) return;
+
+    const timeoutMs = idleTimeoutMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const lockIfIdle = () => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        accountKeyring.lockVault();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', lockIfIdle);
+    const interval = window.setInterval(lockIfIdle, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', lockIfIdle);
+      window.clearInterval(interval);
+    };
+  }, [vaultStatus, idleTimeoutMinutes]);
+};
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { githubApi } from '@/utils/api';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { QUERY_KEYS } from '@/types';
+
+export const useOrganizations = () => {
+  const accountId = useActiveAccountId();
+
+  return useQuery({
+    queryKey: QUERY_KEYS.organizations(accountId),
+    queryFn: ({ signal }) => githubApi.fetchOrganizations(signal),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useTeams = (org: string, enabled = true) => {
+  const accountId = useActiveAccountId();
+
+  return useQuery({
+    queryKey: QUERY_KEYS.teams(accountId, org),
+    queryFn: ({ signal }) => githubApi.fetchTeams(org, signal),
+    enabled: enabled && !!org,
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+};
@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import {
+  useBranchProtection,
+  useCopyProtection,
+  useRulesets,
+  useSaveBranchProtection,
+  useSaveRuleset,
+} from './useProtection';
+import { githubApi } from '@/utils/api';
+import { auditLog } from '@/utils/auditLog';
+import { DEFAULT_PROTECTION_SETTINGS, settingsToProtectionRequest, toRulesetRequest } from '@/utils/protection';
+import { testServer } from '@/test/fakeFetch';
+import { renderHookWithClient, signInTestAccount } from '@/test/utils';
+import type { Repository } from '@/types';
+
+const findRepository = (name: string): Repository => {
+  return testServer.getRepositories().find((repo) => repo.name === name)!;
+};
+
+describe('useProtection', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('loads classic protection, or null for an unprotected branch', async () => {
+    const { result } = renderHookWithClient(() => ({
+      release: useBranchProtection('octo-dev', 'vlast-cli', 'release/1.x'),
+      main: useBranchProtection('octo-dev', 'vlast-cli', 'main'),
+    }));
+
+    await waitFor(() => expect(result.current.main.isSuccess && result.current.release.isSuccess).toBe(true));
+    expect(result.current.main.data).toBeNull();
+    expect(result.current.release.data?.required_status_checks?.contexts).toEqual(['ci/build', 'ci/test']);
+  });
+
+  it('reports missing admin rights instead of treating the branch as unprotected', async () => {
+    const { result } = renderHookWithClient(() => useBranchProtection('lena-park', 'design-tokens', 'main'));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error?.message).toBe('Must have admin rights to Repository.');
+  });
+
+  it('protecting a branch marks it protected in the branch list', async () => {
+    const { result } = renderHookWithClient(() => useSaveBranchProtection());
+
+    await act(() =>
+      result.current.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        branch: 'main',
+        protection: settingsToProtectionRequest(DEFAULT_PROTECTION_SETTINGS),
+      })
+    );
+
+    const main = await githubApi.getBranch('octo-dev', 'vlast-cli', 'main');
+    expect(main.protected).toBe(true);
+  });
+
+  it('loads rulesets with their rules', async () => {
+    const { result } = renderHookWithClient(() => useRulesets('octo-dev', 'vlast-cli'));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toHaveLength(1);
+    expect(result.current.data?.[0]?.rules?.map(({ type }) => type)).toEqual([
+      'pull_request',
+      'non_fast_forward',
+      'deletion',
+    ]);
+  });
+
+  it('lists organization rulesets alongside the repository\'s own', async () => {
+    const { result } = renderHookWithClient(() => useRulesets('vlast-labs', 'vlast-web'));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.map(({ name, source_type, source }) => ({ name, source_type, source }))).toEqual([
+      { name: 'Protect default branch', source_type: 'Organization', source: 'vlast-labs' },
+    ]);
+  });
+
+  it('audits a ruleset update with the cached ruleset it replaced', async () => {
+    const { result } = renderHookWithClient(() => ({
+      rulesets: useRulesets('octo-dev', 'vlast-cli'),
+      save: useSaveRuleset(),
+    }));
+    await waitFor(() => expect(result.current.rulesets.isSuccess).toBe(true));
+    const ruleset = result.current.rulesets.data![0]!;
+
+    await act(() =>
+      result.current.save.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        id: ruleset.id,
+        ruleset: { ...toRulesetRequest(ruleset), enforcement: 'evaluate' },
+      })
+    );
+
+    expect(auditLog.getSnapshot().filter((entry) => entry.accountId === accountId)).toEqual([
+      expect.objectContaining({
+        action: 'ruleset.update',
+        repository: 'octo-dev/vlast-cli',
+        before: expect.objectContaining({ name: ruleset.name, enforcement: 'active' }),
+        after: expect.objectContaining({ name: ruleset.name, enforcement: 'evaluate' }),
+        result: 'success',
+      }),
+    ]);
+  });
+
+  it('rejects a second ruleset with the same name', async () => {
+    const { result } = renderHookWithClient(() => useSaveRuleset());
+
+    await act(async () => {
+      await expect(
+        result.current.mutateAsync({
+          owner: 'octo-dev',
+          repo: 'vlast-cli',
+          ruleset: {
+            name: 'Protect default branch',
+            target: 'branch',
+            enforcement: 'active',
+            conditions: { ref_name: { include: ['~ALL'], exclude: [] } },
+            rules: [],
+          },
+        })
+      ).rejects.toThrow("A ruleset named 'Protect default branch' already exists.");
+    });
+  });
+
+  describe('useCopyProtection', () => {
+    it('copies protection and rulesets, reporting each target', async () => {
+      await githubApi.updateBranchProtection(
+        'octo-dev',
+        'vlast-cli',
+        'main',
+        settingsToProtectionRequest({ ...DEFAULT_PROTECTION_SETTINGS, requiredApprovals: 2 })
+      );
+      const { result } = renderHookWithClient(() => useCopyProtection());
+
+      let summary;
+      await act(async () => {
+        summary = await result.current.mutateAsync({
+          source: findRepository('vlast-cli'),
+          targets: [findRepository('dotfiles'), findRepository('design-tokens')],
+          includeRulesets: true,
+        });
+      });
+
+      expect(summary).toEqual({
+        applied: ['octo-dev/dotfiles'],
+        failed: [{ repository: 'lena-park/design-tokens', message: 'Must have admin rights to Repository.' }],
+      });
+      expect(
+        auditLog
+          .getSnapshot()
+          .filter((entry) => entry.accountId === accountId && entry.action === 'protection.copy')
+          .map(({ repository, result }) => ({ repository, result }))
+          .sort((a, b) => a.repository.localeCompare(b.repository))
+      ).toEqual([
+        { repository: 'lena-park/design-tokens', result: 'failure' },
+        { repository: 'octo-dev/dotfiles', result: 'success' },
+      ]);
+      const copied = await githubApi.getBranchProtection('octo-dev', 'dotfiles', 'main');
+      expect(copied?.required_pull_request_reviews?.required_approving_review_count).toBe(2);
+      expect((await githubApi.fetchRulesets('octo-dev', 'dotfiles')).map(({ name }) => name)).toEqual([
+        'Protect default branch',
+      ]);
+    });
+
+    it('updates same-named rulesets instead of duplicating them', async () => {
+      const { result } = renderHookWithClient(() => useCopyProtection());
+      const variables = {
+        source: findRepository('vlast-cli'),
+        targets: [findRepository('dotfiles')],
+        includeRulesets: true,
+      };
+
+      await act(() => result.current.mutateAsync(variables));
+      await act(() => result.current.mutateAsync(variables));
+
+      expect(await githubApi.fetchRulesets('octo-dev', 'dotfiles')).toHaveLength(1);
+    });
+
+    it('creates its own ruleset next to a same-named organization ruleset, and never copies inherited ones', async () => {
+      const { result } = renderHookWithClient(() => useCopyProtection());
+
+      let summary;
+      await act(async () => {
+        summary = await result.current.mutateAsync({
+          source: findRepository('vlast-cli'),
+          targets: [findRepository('vlast-web')],
+          includeRulesets: true,
+        });
+      });
+
+      expect(summary).toEqual({ applied: ['vlast-labs/vlast-web'], failed: [] });
+      const rulesets = await githubApi.fetchRulesets('vlast-labs', 'vlast-web');
+      expect(rulesets.map(({ name, source_type }) => ({ name, source_type }))).toEqual([
+        { name: 'Protect default branch', source_type: 'Organization' },
+        { name: 'Protect default branch', source_type: 'Repository' },
+      ]);
+
+      // vlast-web now only has its own ruleset to give; the organization's stays put
+      await act(() =>
+        result.current.mutateAsync({
+          source: findRepository('vlast-web'),
+          targets: [findRepository('dotfiles')],
+          includeRulesets: true,
+        })
+      );
+      expect((await githubApi.fetchRulesets('octo-dev', 'dotfiles')).map(({ source_type }) => source_type)).toEqual([
+        'Repository',
+      ]);
+    });
+
+    it('fails up front when the source has nothing to copy', async () => {
+      const { result } = renderHookWithClient(() => useCopyProtection());
+
+      await act(async () => {
+        await expect(
+          result.current.mutateAsync({
+            source: findRepository('dotfiles'),
+            targets: [findRepository('ml-notebooks')],
+            includeRulesets: true,
+          })
+        ).rejects.toThrow('octo-dev/dotfiles has no protection on main to copy.');
+      });
+    });
+  });
+});
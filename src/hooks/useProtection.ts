@@ -0,0 +1,340 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import { config } from '@/config/environment';
+import { githubApi } from '@/utils/api';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
+import {
+  isRepositoryRuleset,
+  protectionAuditValues,
+  protectionToSettings,
+  rulesetAuditValues,
+  settingsToProtectionRequest,
+  toRulesetRequest,
+} from '@/utils/protection';
+import { QUERY_KEYS, MUTATION_KEYS } from '@/types';
+import type {
+  BranchProtection,
+  BranchProtectionRequest,
+  ProtectionCopyResult,
+  Repository,
+  RepositoryRuleset,
+  RulesetRequest,
+} from '@/types';
+
+export const useBranchProtection = (owner: string, repo: string, branch: string, enabled = true) => {
+  const accountId = useActiveAccountId();
+
+  return useQuery({
+    queryKey: QUERY_KEYS.branchProtection(accountId, owner, repo, branch),
+    queryFn: ({ signal }) => githubApi.getBranchProtection(owner, repo, branch, signal),
+    enabled: enabled && !!owner && !!repo && !!branch,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// The list endpoint omits rules, so each ruleset is fetched in full; `inherited` keeps organization rulesets
+const fetchRulesetsWithRules = async (
+  owner: string,
+  repo: string,
+  { inherited, signal }: { inherited: boolean; signal?: AbortSignal }
+) => {
+  const summaries = (await githubApi.fetchRulesets(owner, repo, signal)).filter(
+    (ruleset) => inherited || isRepositoryRuleset(ruleset)
+  );
+  return Promise.all(summaries.map(({ id }) => githubApi.getRuleset(owner, repo, id, signal)));
+};
+
+export const useRulesets = (owner: string, repo: string, enabled = true) => {
+  const accountId = useActiveAccountId();
+
+  return useQuery({
+    queryKey: QUERY_KEYS.rulesets(accountId, owner, repo),
+    queryFn: ({ signal }): Promise<RepositoryRuleset[]> => fetchRulesetsWithRules(owner, repo, { inherited: true, signal }),
+    enabled: enabled && !!owner && !!repo,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Cached protection of a branch; undefined when it was never loaded, null when it is unprotected
+const findCachedProtection = (
+  queryClient: QueryClient,
+  accountId: string,
+  owner: string,
+  repo: string,
+  branch: string
+): BranchProtection | null | undefined => {
+  return queryClient.getQueryData<BranchProtection | null>(QUERY_KEYS.branchProtection(accountId, owner, repo, branch));
+};
+
+const findCachedRuleset = (
+  queryClient: QueryClient,
+  accountId: string,
+  owner: string,
+  repo: string,
+  id: number | undefined
+): RepositoryRuleset | undefined => {
+  const rulesets = queryClient.getQueryData<RepositoryRuleset[]>(QUERY_KEYS.rulesets(accountId, owner, repo));
+  return rulesets?.find((ruleset) => ruleset.id === id);
+};
+
+export const useSaveBranchProtection = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.saveBranchProtection,
+    mutationFn: ({
+      owner,
+      repo,
+      branch,
+      protection,
+    }: {
+      owner: string;
+      repo: string;
+      branch: string;
+      protection: BranchProtectionRequest;
+    }) => {
+      return githubApi.updateBranchProtection(owner, repo, branch, protection);
+    },
+    onMutate: ({ owner, repo, branch }) => ({
+      before: findCachedProtection(queryClient, accountId, owner, repo, branch),
+    }),
+    onSuccess: (_, { owner, repo, branch }) => {
+      // The branch list shows which branches are protected
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branchProtection(accountId, owner, repo, branch) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, repo) });
+    },
+    onSettled: (saved, error, { owner, repo, branch }, context) => {
+      // The response is the protection GitHub stored, so a failed save has no after values
+      audit(
+        {
+          action: 'branch.protect',
+          repository: `${owner}/${repo}`,
+          path: branch,
+          before: protectionAuditValues(context?.before),
+          after: protectionAuditValues(saved),
+        },
+        error
+      );
+    },
+  });
+};
+
+export const useRemoveBranchProtection = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.removeBranchProtection,
+    mutationFn: ({ owner, repo, branch }: { owner: string; repo: string; branch: string }) => {
+      return githubApi.deleteBranchProtection(owner, repo, branch);
+    },
+    onMutate: ({ owner, repo, branch }) => ({
+      before: findCachedProtection(queryClient, accountId, owner, repo, branch),
+    }),
+    onSuccess: (_, { owner, repo, branch }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branchProtection(accountId, owner, repo, branch) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, repo) });
+    },
+    onSettled: (_, error, { owner, repo, branch }, context) => {
+      audit(
+        {
+          action: 'branch.unprotect',
+          repository: `${owner}/${repo}`,
+          path: branch,
+          before: protectionAuditValues(context?.before),
+          after: null,
+        },
+        error
+      );
+    },
+  });
+};
+
+// Creates the ruleset when no id is given, otherwise replaces it
+export const useSaveRuleset = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.saveRuleset,
+    mutationFn: ({
+      owner,
+      repo,
+      id,
+      ruleset,
+    }: {
+      owner: string;
+      repo: string;
+      id?: number;
+      ruleset: RulesetRequest;
+    }) => {
+      return id === undefined
+        ? githubApi.createRuleset(owner, repo, ruleset)
+        : githubApi.updateRuleset(owner, repo, id, ruleset);
+    },
+    onMutate: ({ owner, repo, id }) => ({ before: findCachedRuleset(queryClient, accountId, owner, repo, id) }),
+    onSuccess: (_, { owner, repo }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.rulesets(accountId, owner, repo) });
+    },
+    onSettled: (_, error, { owner, repo, id, ruleset }, context) => {
+      audit(
+        {
+          action: id === undefined ? 'ruleset.create' : 'ruleset.update',
+          repository: `${owner}/${repo}`,
+          before: rulesetAuditValues(context?.before),
+          after: rulesetAuditValues(ruleset),
+        },
+        error
+      );
+    },
+  });
+};
+
+export const useDeleteRuleset = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.deleteRuleset,
+    mutationFn: ({ owner, repo, id }: { owner: string; repo: string; id: number }) => {
+      return githubApi.deleteRuleset(owner, repo, id);
+    },
+    onMutate: ({ owner, repo, id }) => ({ before: findCachedRuleset(queryClient, accountId, owner, repo, id) }),
+    onSuccess: (_, { owner, repo }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.rulesets(accountId, owner, repo) });
+    },
+    onSettled: (_, error, { owner, repo, id }, context) => {
+      audit(
+        {
+          action: 'ruleset.delete',
+          repository: `${owner}/${repo}`,
+          before: rulesetAuditValues(context?.before) ?? { id },
+          after: null,
+        },
+        error
+      );
+    },
+  });
+};
+
+/**
+ * Copies the source repository's default-branch protection and, optionally,
+ * its own rulesets onto each target's default branch. Rulesets are matched by
+ * name, so copying twice updates rather than duplicates them. Targets are
+ * processed independently, a few at a time, and reported per repository.
+ */
+export const useCopyProtection = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.copyProtection,
+    mutationFn: async ({
+      source,
+      targets,
+      includeRulesets,
+    }: {
+      source: Repository;
+      targets: Repository[];
+      includeRulesets: boolean;
+    }): Promise<ProtectionCopyResult> => {
+      const sourceOwner = source.owner.login;
+      const [protection, rulesets] = await Promise.all([
+        githubApi.getBranchProtection(sourceOwner, source.name, source.default_branch),
+        includeRulesets ? fetchRulesetsWithRules(sourceOwner, source.name, { inherited: false }) : Promise.resolve([]),
+      ]);
+
+      if (!protection && rulesets.length === 0) {
+        throw new Error(`${source.full_name} has no protection on ${source.default_branch} to copy.`);
+      }
+
+      const copyTo = async (target: Repository) => {
+        const owner = target.owner.login;
+        if (protection) {
+          await githubApi.updateBranchProtection(
+            owner,
+            target.name,
+            target.default_branch,
+            settingsToProtectionRequest(protectionToSettings(protection))
+          );
+        }
+
+        if (rulesets.length > 0) {
+          // Inherited rulesets can't be updated through the repository, so only the target's own are matched
+          const existing = (await githubApi.fetchRulesets(owner, target.name)).filter(isRepositoryRuleset);
+          for (const ruleset of rulesets) {
+            const match = existing.find(({ name }) => name === ruleset.name);
+            const request = toRulesetRequest(ruleset);
+            await (match
+              ? githubApi.updateRuleset(owner, target.name, match.id, request)
+              : githubApi.createRuleset(owner, target.name, request));
+          }
+        }
+      };
+
+      // Each target is audited on its own
+      const copyAndRecord = async (target: Repository) => {
+        const cached = findCachedProtection(queryClient, accountId, target.owner.login, target.name, target.default_branch);
+        const record = {
+          action: 'protection.copy' as const,
+          repository: target.full_name,
+          path: target.default_branch,
+          before: protectionAuditValues(cached),
+          after: {
+            from: source.full_name,
+            ...protectionAuditValues(protection),
+            rulesets: rulesets.map(({ name }) => name),
+          },
+        };
+        try {
+          await copyTo(target);
+          audit(record, null);
+        } catch (error) {
+          audit(record, error);
+          throw error;
+        }
+      };
+
+      // Bounded like batch operations, so large selections stay clear of GitHub's secondary rate limits
+      const results = await mapWithConcurrency(
+        targets,
+        config.batch.concurrency,
+        (target): Promise<PromiseSettledResult<void>> =>
+          copyAndRecord(target).then(
+            (value) => ({ status: 'fulfilled', value }),
+            (reason: unknown) => ({ status: 'rejected', reason })
+          )
+      );
+
+      return results.reduce<ProtectionCopyResult>(
+        (summary, result, index) => {
+          const repository = targets[index]!.full_name;
+          if (result.status === 'fulfilled') {
+            summary.applied.push(repository);
+          } else {
+            const message = result.reason instanceof Error ? result.reason.message : 'Failed to copy protection';
+            summary.failed.push({ repository, message });
+          }
+          return summary;
+        },
+        { applied: [], failed: [] }
+      );
+    },
+    onSettled: (_, __, { targets }) => {
+      for (const target of targets) {
+        const owner = target.owner.login;
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branchProtection(accountId, owner, target.name, target.default_branch) });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.rulesets(accountId, owner, target.name) });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.branches(accountId, owner, target.name) });
+      }
+    },
+  });
+};
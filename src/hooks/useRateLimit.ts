@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { rateLimitTracker } from '@/utils/rateLimit';
+
+export const useRateLimit = () => {
+  const state = useSyncExternalStore(rateLimitTracker.subscribe, rateLimitTracker.getSnapshot);
+
+  return {
+    ...state,
+    isPaused: state.pausedUntil !== null,
+  };
+};
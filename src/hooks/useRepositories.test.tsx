@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import {
+  useCreateRepository,
+  useRepositories,
+  useTransferRepository,
+  useUpdateRepository,
+} from './useRepositories';
+import { useOrganizations } from './useOrganizations';
+import { QUERY_KEYS } from '@/types';
+import { auditLog } from '@/utils/auditLog';
+import { testServer } from '@/test/fakeFetch';
+import { createTestQueryClient, renderHookWithClient, signInTestAccount } from '@/test/utils';
+
+// A query client that records the keys passed to invalidateQueries
+const trackInvalidations = () => {
+  const queryClient = createTestQueryClient();
+  const spy = vi.spyOn(queryClient, 'invalidateQueries');
+  const invalidatedKeys = () => spy.mock.calls.map(([filters]) => filters?.queryKey);
+  return { queryClient, invalidatedKeys };
+};
+
+describe('useRepositories', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('loads every repository for the active account', async () => {
+    const { result } = renderHookWithClient(() => useRepositories());
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toHaveLength(testServer.getRepositories().length);
+  });
+
+  it('maps the GraphQL source onto the same repository shape', async () => {
+    const { result } = renderHookWithClient(() => useRepositories({ source: 'graphql' }));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const cli = result.current.data?.find((repo) => repo.name === 'vlast-cli');
+    expect(cli).toMatchObject({ full_name: 'octo-dev/vlast-cli', language: 'TypeScript' });
+    expect(cli?.insights?.languages[0]?.name).toBe('TypeScript');
+  });
+
+  describe('mutations invalidate the affected queries', () => {
+    it('create refreshes the repository list and the user', async () => {
+      const { queryClient, invalidatedKeys } = trackInvalidations();
+      const { result } = renderHookWithClient(() => useCreateRepository(), queryClient);
+
+      await act(() => result.current.mutateAsync({ name: 'new-project' }));
+
+      expect(invalidatedKeys()).toEqual([
+        QUERY_KEYS.repositories(accountId),
+        QUERY_KEYS.user(accountId),
+      ]);
+    });
+
+    it('update refreshes the repository and the list', async () => {
+      const { queryClient, invalidatedKeys } = trackInvalidations();
+      const { result } = renderHookWithClient(() => useUpdateRepository(), queryClient);
+
+      await act(() =>
+        result.current.mutateAsync({ owner: 'octo-dev', repo: 'dotfiles', updates: { description: 'Configs' } })
+      );
+
+      expect(invalidatedKeys()).toEqual([
+        QUERY_KEYS.repository(accountId, 'octo-dev', 'dotfiles'),
+        QUERY_KEYS.repositories(accountId),
+      ]);
+    });
+
+    it('a failed mutation invalidates nothing', async () => {
+      const { queryClient, invalidatedKeys } = trackInvalidations();
+      const { result } = renderHookWithClient(() => useUpdateRepository(), queryClient);
+
+      await act(async () => {
+        await expect(
+          result.current.mutateAsync({ owner: 'octo-dev', repo: 'missing', updates: { has_wiki: false } })
+        ).rejects.toThrow('Not Found');
+      });
+
+      expect(invalidatedKeys()).toEqual([]);
+    });
+  });
+
+  describe('useTransferRepository', () => {
+    // Loads the list and the organizations first, as the transfer modal does
+    const renderTransfer = async () => {
+      const rendered = renderHookWithClient(() => ({
+        repositories: useRepositories(),
+        organizations: useOrganizations(),
+        transfer: useTransferRepository(),
+      }));
+      await waitFor(() => {
+        expect(rendered.result.current.repositories.isSuccess).toBe(true);
+        expect(rendered.result.current.organizations.isSuccess).toBe(true);
+      });
+      return rendered;
+    };
+
+    it('moves the repository to an organization in the cached list without refetching', async () => {
+      const { result } = await renderTransfer();
+      const fetchCount = vi.mocked(fetch).mock.calls.length;
+
+      await act(() =>
+        result.current.transfer.mutateAsync({
+          owner: 'octo-dev',
+          repo: 'dotfiles',
+          request: { new_owner: 'vlast-labs', new_name: 'shared-dotfiles', team_ids: [91203340] },
+        })
+      );
+
+      const moved = result.current.repositories.data?.find((repo) => repo.name === 'shared-dotfiles');
+      expect(moved).toMatchObject({ full_name: 'vlast-labs/shared-dotfiles' });
+      expect(result.current.repositories.data).toHaveLength(testServer.getRepositories().length);
+      const requested = vi.mocked(fetch).mock.calls.slice(fetchCount).map(([url]) => String(url));
+      expect(requested.some((url) => url.includes('/user/repos'))).toBe(false);
+    });
+
+    it('drops the repository when it moves to another user', async () => {
+      const { result } = await renderTransfer();
+
+      await act(() =>
+        result.current.transfer.mutateAsync({ owner: 'octo-dev', repo: 'dotfiles', request: { new_owner: 'lena-park' } })
+      );
+
+      expect(result.current.repositories.data?.some((repo) => repo.name === 'dotfiles')).toBe(false);
+    });
+
+    it('rejects unknown owners and teams from another organization', async () => {
+      const { result } = await renderTransfer();
+
+      await act(async () => {
+        await expect(
+          result.current.transfer.mutateAsync({ owner: 'octo-dev', repo: 'dotfiles', request: { new_owner: 'nobody-here' } })
+        ).rejects.toThrow("No user or organization named 'nobody-here' can receive this repository.");
+        await expect(
+          result.current.transfer.mutateAsync({
+            owner: 'octo-dev',
+            repo: 'dotfiles',
+            request: { new_owner: 'lena-park', team_ids: [91203340] },
+          })
+        ).rejects.toThrow('team_ids can only be given when transferring to an organization.');
+      });
+
+      expect(testServer.getRepositories().some((repo) => repo.full_name === 'octo-dev/dotfiles')).toBe(true);
+    });
+  });
+
+  describe('audit log', () => {
+    const entriesFor = (id: string) => auditLog.getSnapshot().filter((entry) => entry.accountId === id);
+
+    it('records the cached values an update replaced', async () => {
+      const { result } = renderHookWithClient(() => ({
+        repositories: useRepositories(),
+        update: useUpdateRepository(),
+      }));
+      await waitFor(() => expect(result.current.repositories.isSuccess).toBe(true));
+      const original = { ...testServer.getRepositories().find((repo) => repo.full_name === 'octo-dev/dotfiles')! };
+
+      await act(() =>
+        result.current.update.mutateAsync({
+          owner: 'octo-dev',
+          repo: 'dotfiles',
+          updates: { has_wiki: !original.has_wiki, description: 'Shell setup' },
+        })
+      );
+
+      expect(entriesFor(accountId)).toEqual([
+        expect.objectContaining({
+          accountLogin: 'octo-dev',
+          action: 'repository.update',
+          repository: 'octo-dev/dotfiles',
+          before: { has_wiki: original.has_wiki, description: original.description },
+          after: { has_wiki: !original.has_wiki, description: 'Shell setup' },
+          result: 'success',
+        }),
+      ]);
+    });
+
+    it('records failed mutations with the error', async () => {
+      const { result } = renderHookWithClient(() => useUpdateRepository());
+
+      await act(async () => {
+        await expect(
+          result.current.mutateAsync({ owner: 'lena-park', repo: 'design-tokens', updates: { has_wiki: false } })
+        ).rejects.toThrow();
+      });
+
+      expect(entriesFor(accountId)).toEqual([
+        expect.objectContaining({
+          action: 'repository.update',
+          repository: 'lena-park/design-tokens',
+          after: { has_wiki: false },
+          result: 'failure',
+          error: 'Must have admin rights to Repository.',
+        }),
+      ]);
+    });
+  });
+});
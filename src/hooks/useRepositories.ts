@@ -1,20 +1,70 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
 import { githubApi } from '@/utils/api';
+import { graphqlApi } from '@/utils/graphqlApi';
+import { pickAuditValues } from '@/utils/auditLog';
+import { useAccounts, useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
 import { QUERY_KEYS, MUTATION_KEYS } from '@/types';
-import type { CreateRepositoryRequest, UpdateRepositoryRequest } from '@/types';
+import type {
+  CreateRepositoryRequest,
+  Organization,
+  Repository,
+  RepositorySource,
+  TransferRepositoryRequest,
+  UpdateRepositoryRequest,
+} from '@/types';
+
+interface UseRepositoriesOptions {
+  // 'graphql' hydrates languages, open PRs and last-commit data in bulk
+  source?: RepositorySource;
+}
+
+// Last known state of a repository, so the audit log can record what a change replaced
+export const findCachedRepository = (
+  queryClient: QueryClient,
+  accountId: string,
+  owner: string,
+  repo: string
+): Repository | undefined => {
+  const cached = queryClient.getQueryData<Repository>(QUERY_KEYS.repository(accountId, owner, repo));
+  if (cached) return cached;
+
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  const lists = queryClient.getQueriesData<Repository[]>({ queryKey: QUERY_KEYS.repositories(accountId) });
+  for (const [, repositories] of lists) {
+    const match = repositories?.find((repository) => repository.full_name.toLowerCase() === fullName);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+export const useRepositories = ({ source = 'rest' }: UseRepositoriesOptions = {}) => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const queryKey = QUERY_KEYS.repositoriesFrom(accountId, source);
 
-export const useRepositories = () => {
   return useQuery({
-    queryKey: QUERY_KEYS.repositories,
-    queryFn: () => githubApi.fetchRepositories(),
+    queryKey,
+    queryFn: ({ signal }) => {
+      // On first load, stream each page into the cache so the grid fills while
+      // later pages arrive; refetches keep showing the full list until done
+      const isInitialLoad = !queryClient.getQueryData(queryKey);
+      const client = source === 'graphql' ? graphqlApi : githubApi;
+      return client.fetchRepositories((repositories) => {
+        if (isInitialLoad) {
+          queryClient.setQueryData(queryKey, repositories);
+        }
+      }, signal);
+    },
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnWindowFocus: false, // Prevent unnecessary refetches
     retry: (failureCount, error) => {
-      // Don't retry on 401/403 errors (authentication issues)
+      // Don't retry on 401/403 errors (authentication issues) or exhausted rate limits
       if (error instanceof Error && 'status' in error) {
         const status = (error as any).status;
-        if (status === 401 || status === 403) {
+        if (status === 401 || status === 403 || status === 429) {
           return false;
         }
       }
@@ -24,9 +74,11 @@ export const useRepositories = () => {
 };
 
 export const useRepository = (owner: string, repo: string) => {
+  const accountId = useActiveAccountId();
+
   return useQuery({
-    queryKey: QUERY_KEYS.repository(owner, repo),
-    queryFn: () => githubApi.fetchRepository(owner, repo),
+    queryKey: QUERY_KEYS.repository(accountId, owner, repo),
+    queryFn: ({ signal }) => githubApi.fetchRepository(owner, repo, signal),
     enabled: !!owner && !!repo,
     staleTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
@@ -35,21 +87,43 @@ export const useRepository = (owner: string, repo: string) => {
 
 export const useCreateRepository = () => {
   const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const { activeAccount } = useAccounts();
+  const audit = useAuditTrail();
 
   return useMutation({
     mutationKey: MUTATION_KEYS.createRepository,
-    mutationFn: (params: CreateRepositoryRequest) => githubApi.createRepository(params),
+    // `org` creates the repository in that organization instead of the user's account
+    mutationFn: ({ org, ...params }: CreateRepositoryRequest & { org?: string }) => {
+      return githubApi.createRepository(params, org);
+    },
     onSuccess: () => {
       // Invalidate and refetch repositories query
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories(accountId) });
       // Also refetch user data since repo count might have changed
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.user });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.user(accountId) });
+    },
+    onSettled: (created, error, { org, ...params }) => {
+      audit(
+        {
+          action: 'repository.create',
+          repository: created?.full_name ?? `${org ?? activeAccount?.user?.login ?? ''}/${params.name}`,
+          before: null,
+          after: {
+            visibility: created?.visibility ?? params.visibility ?? (params.private ? 'private' : 'public'),
+            description: params.description ?? null,
+          },
+        },
+        error
+      );
     },
   });
 };
 
 export const useUpdateRepository = () => {
   const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
 
   return useMutation({
     mutationKey: MUTATION_KEYS.updateRepository,
@@ -64,54 +138,84 @@ export const useUpdateRepository = () => {
     }) => {
       return githubApi.updateRepository(owner, repo, updates);
     },
+    onMutate: ({ owner, repo }) => ({ before: findCachedRepository(queryClient, accountId, owner, repo) }),
     onSuccess: (_, { owner, repo }) => {
       // Invalidate specific repository and repositories list
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(owner, repo) });
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(accountId, owner, repo) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories(accountId) });
     },
-  });
-};
-
-export const useDeleteRepository = () => {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationKey: MUTATION_KEYS.deleteRepository,
-    mutationFn: ({ owner, repo }: { owner: string; repo: string }) => {
-      return githubApi.deleteRepository(owner, repo);
-    },
-    onSuccess: (_, { owner, repo }) => {
-      // Invalidate the repo list so the deleted repo disappears
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories });
-      // Also invalidate the single repo in case a detail view is open
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(owner, repo) });
-      // Also refetch user data since repo count might have changed
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.user });
+    onSettled: (_, error, { owner, repo, updates }, context) => {
+      const fields = Object.keys(updates);
+      audit(
+        {
+          action: 'repository.update',
+          repository: `${owner}/${repo}`,
+          before: pickAuditValues(context?.before, fields),
+          after: pickAuditValues(updates, fields),
+        },
+        error
+      );
     },
   });
 };
 
-export const useToggleRepositoryVisibility = () => {
+/**
+ * Moves a repository to another user or organization. The cached lists are
+ * patched in place rather than refetched: the repository keeps its place
+ * under the new owner when the account can still see it (its own login or
+ * one of its organizations), and drops out otherwise.
+ */
+export const useTransferRepository = () => {
   const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const { activeAccount } = useAccounts();
+  const audit = useAuditTrail();
 
   return useMutation({
-    mutationKey: MUTATION_KEYS.toggleVisibility,
-    mutationFn: ({ 
-      owner, 
-      repo, 
-      makePrivate 
-    }: { 
-      owner: string; 
-      repo: string; 
-      makePrivate: boolean;
+    mutationKey: MUTATION_KEYS.transferRepository,
+    mutationFn: ({
+      owner,
+      repo,
+      request,
+    }: {
+      owner: string;
+      repo: string;
+      request: TransferRepositoryRequest;
     }) => {
-      return githubApi.toggleRepositoryVisibility(owner, repo, makePrivate);
+      return githubApi.transferRepository(owner, repo, request);
     },
-    onSuccess: (_, { owner, repo }) => {
-      // Invalidate the single repository
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(owner, repo) });
-      // ALSO invalidate the list so the UI updates everywhere
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories });
+    onSuccess: (transferred, { owner, repo }) => {
+      const organizations = queryClient.getQueryData<Organization[]>(QUERY_KEYS.organizations(accountId)) ?? [];
+      const visibleOwners = [activeAccount?.user?.login, ...organizations.map(({ login }) => login)]
+        .filter((login): login is string => !!login)
+        .map((login) => login.toLowerCase());
+      const stillVisible = visibleOwners.includes(transferred.owner.login.toLowerCase());
+
+      queryClient.setQueriesData<Repository[]>({ queryKey: QUERY_KEYS.repositories(accountId) }, (repositories) => {
+        if (!repositories) return repositories;
+        return stillVisible
+          ? repositories.map((repository) =>
+              repository.id === transferred.id ? { ...repository, ...transferred } : repository
+            )
+          : repositories.filter((repository) => repository.id !== transferred.id);
+      });
+      queryClient.removeQueries({ queryKey: QUERY_KEYS.repository(accountId, owner, repo) });
+      // Public repository counts change when a repository leaves the account
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.user(accountId) });
+    },
+    onSettled: (transferred, error, { owner, repo, request }) => {
+      audit(
+        {
+          action: 'repository.transfer',
+          repository: `${owner}/${repo}`,
+          before: { owner, name: repo },
+          after: {
+            owner: transferred?.owner.login ?? request.new_owner,
+            name: transferred?.name ?? request.new_name ?? repo,
+          },
+        },
+        error
+      );
     },
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import { useDeleteFile, useRepositoryContents, useUploadFile } from './useRepositoryFiles';
+import { githubApi } from '@/utils/api';
+import { QUERY_KEYS } from '@/types';
+import { createTestQueryClient, renderHookWithClient, signInTestAccount } from '@/test/utils';
+
+describe('useRepositoryFiles', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('lists the top level of a repository', async () => {
+    const { result } = renderHookWithClient(() => useRepositoryContents('octo-dev', 'vlast-cli'));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.map((item) => `${item.type}:${item.path}`)).toEqual([
+      'file:LICENSE',
+      'file:package.json',
+      'file:README.md',
+      'dir:src',
+    ]);
+  });
+
+  it('upload refreshes the contents of that repository', async () => {
+    const queryClient = createTestQueryClient();
+    const spy = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHookWithClient(() => useUploadFile(), queryClient);
+
+    await act(() =>
+      result.current.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        params: { path: 'CHANGELOG.md', content: '# Changelog\n', message: 'Add changelog' },
+      })
+    );
+
+    expect(spy).toHaveBeenCalledWith({
+      queryKey: QUERY_KEYS.repositoryContents(accountId, 'octo-dev', 'vlast-cli'),
+    });
+    const uploaded = await githubApi.getFileContent('octo-dev', 'vlast-cli', 'CHANGELOG.md');
+    expect(uploaded.path).toBe('CHANGELOG.md');
+  });
+
+  it('delete refreshes the contents of that repository', async () => {
+    const { sha } = await githubApi.getFileContent('octo-dev', 'vlast-cli', 'LICENSE');
+    const queryClient = createTestQueryClient();
+    const spy = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHookWithClient(() => useDeleteFile(), queryClient);
+
+    await act(() =>
+      result.current.mutateAsync({
+        owner: 'octo-dev',
+        repo: 'vlast-cli',
+        params: { path: 'LICENSE', sha, message: 'Remove license' },
+      })
+    );
+
+    expect(spy).toHaveBeenCalledWith({
+      queryKey: QUERY_KEYS.repositoryContents(accountId, 'octo-dev', 'vlast-cli'),
+    });
+    await expect(githubApi.getFileContent('octo-dev', 'vlast-cli', 'LICENSE')).rejects.toMatchObject({ status: 404 });
+  });
+});
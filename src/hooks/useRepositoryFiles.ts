@@ -1,12 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { githubApi } from '@/utils/api';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
 import { QUERY_KEYS, MUTATION_KEYS } from '@/types';
 import type { UploadFileRequest, DeleteFileRequest } from '@/types';
 
 export const useRepositoryContents = (owner: string, repo: string, path?: string) => {
+  const accountId = useActiveAccountId();
+
   return useQuery({
-    queryKey: QUERY_KEYS.repositoryContents(owner, repo, path),
-    queryFn: () => githubApi.getRepositoryContents(owner, repo, path),
+    queryKey: QUERY_KEYS.repositoryContents(accountId, owner, repo, path),
+    queryFn: ({ signal }) => githubApi.getRepositoryContents(owner, repo, path, signal),
     enabled: !!owner && !!repo,
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
@@ -14,6 +18,8 @@ export const useRepositoryContents = (owner: string, repo: string, path?: string
 
 export const useUploadFile = () => {
   const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
 
   return useMutation({
     mutationKey: MUTATION_KEYS.uploadFile,
@@ -31,14 +37,29 @@ export const useUploadFile = () => {
     onSuccess: (_, { owner, repo }) => {
       // Invalidate repository contents to refetch the file list
       queryClient.invalidateQueries({
-        queryKey: QUERY_KEYS.repositoryContents(owner, repo),
+        queryKey: QUERY_KEYS.repositoryContents(accountId, owner, repo),
       });
     },
+    onSettled: (result, error, { owner, repo, params }) => {
+      // A missing `sha` means the upload created the file
+      audit(
+        {
+          action: 'file.upload',
+          repository: `${owner}/${repo}`,
+          path: params.path,
+          before: params.sha ? { sha: params.sha } : null,
+          after: { sha: result?.content?.sha ?? null, message: params.message },
+        },
+        error
+      );
+    },
   });
 };
 
 export const useDeleteFile = () => {
   const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
 
   return useMutation({
     mutationKey: MUTATION_KEYS.deleteFile,
@@ -56,8 +77,20 @@ export const useDeleteFile = () => {
     onSuccess: (_, { owner, repo }) => {
       // Invalidate repository contents to refetch the file list
       queryClient.invalidateQueries({
-        queryKey: QUERY_KEYS.repositoryContents(owner, repo),
+        queryKey: QUERY_KEYS.repositoryContents(accountId, owner, repo),
       });
     },
+    onSettled: (_, error, { owner, repo, params }) => {
+      audit(
+        {
+          action: 'file.delete',
+          repository: `${owner}/${repo}`,
+          path: params.path,
+          before: { sha: params.sha },
+          after: { message: params.message },
+        },
+        error
+      );
+    },
   });
 };
\ No newline at end of file
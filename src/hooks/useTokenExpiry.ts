@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { config } from '@/config/environment';
+import { useAccounts } from './useAccounts';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatTimeRemaining = (ms: number): string => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+// Countdown to the active token's expiry, re-evaluated every minute
+export const useTokenExpiry = () => {
+  const { activeAccount } = useAccounts();
+  const expiresAt = activeAccount?.permissions?.expiresAt ?? null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [expiresAt]);
+
+  const remainingMs = expiresAt === null ? null : expiresAt - now;
+
+  return {
+    expiresAt,
+    remainingMs,
+    isExpired: remainingMs !== null && remainingMs <= 0,
+    isExpiringSoon: remainingMs !== null && remainingMs > 0 && remainingMs <= config.tokenExpiry.reminderDays * DAY_MS,
+    isFineGrained: activeAccount?.permissions?.kind === 'fine-grained',
+    host: activeAccount?.host ?? null,
+  };
+};
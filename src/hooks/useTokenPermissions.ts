@@ -0,0 +1,39 @@
+import { useEffect, useMemo } from 'react';
+import { githubApi } from '@/utils/api';
+import { accountKeyring } from '@/utils/accounts';
+import {
+  canChangeVisibility,
+  canDeleteRepository,
+  canModifyRepository,
+  getMissingScopes,
+  isReadOnlyRepository,
+} from '@/utils/scopes';
+import type { Repository } from '@/types';
+import { useAccounts } from './useAccounts';
+
+export const useTokenPermissions = () => {
+  const { activeAccount } = useAccounts();
+  const permissions = activeAccount?.permissions ?? null;
+
+  // Accounts migrated from the single-token version have never been inspected
+  useEffect(() => {
+    if (!activeAccount || activeAccount.permissions) return;
+
+    const { id, token, host } = activeAccount;
+    void githubApi.validateToken(token, host).then((granted) => {
+      if (granted) {
+        accountKeyring.updateAccount(id, { permissions: granted });
+      }
+    });
+  }, [activeAccount]);
+
+  return useMemo(() => ({
+    permissions,
+    isFineGrained: permissions?.kind === 'fine-grained',
+    missingScopes: getMissingScopes(permissions),
+    canDelete: canDeleteRepository(permissions),
+    canChangeVisibility: canChangeVisibility(permissions),
+    canModify: (repository: Pick<Repository, 'private' | 'permissions'>) => canModifyRepository(permissions, repository),
+    isReadOnly: (repository: Pick<Repository, 'permissions'>) => isReadOnlyRepository(permissions, repository),
+  }), [permissions]);
+};
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import { useReplaceTopics } from './useTopics';
+import { useRepository } from './useRepositories';
+import { githubApi } from '@/utils/api';
+import { auditLog } from '@/utils/auditLog';
+import { renderHookWithClient, signInTestAccount } from '@/test/utils';
+
+describe('useTopics', () => {
+  let accountId: string;
+
+  beforeEach(() => {
+    accountId = signInTestAccount().id;
+  });
+
+  it('replaces the topics of a repository', async () => {
+    const { result } = renderHookWithClient(() => useReplaceTopics());
+
+    const stored = await act(() =>
+      result.current.mutateAsync({ owner: 'octo-dev', repo: 'dotfiles', topics: ['dotfiles', 'zsh'] })
+    );
+
+    expect(stored).toEqual(['dotfiles', 'zsh']);
+    expect((await githubApi.fetchRepository('octo-dev', 'dotfiles')).topics).toEqual(['dotfiles', 'zsh']);
+  });
+
+  it('records the cached topics it replaced', async () => {
+    const { result } = renderHookWithClient(() => ({
+      repository: useRepository('octo-dev', 'dotfiles'),
+      replace: useReplaceTopics(),
+    }));
+    await waitFor(() => expect(result.current.repository.isSuccess).toBe(true));
+    const before = result.current.repository.data!.topics;
+
+    await act(() => result.current.replace.mutateAsync({ owner: 'octo-dev', repo: 'dotfiles', topics: ['zsh'] }));
+
+    expect(auditLog.getSnapshot().filter((entry) => entry.accountId === accountId)).toEqual([
+      expect.objectContaining({
+        action: 'repository.topics',
+        repository: 'octo-dev/dotfiles',
+        before: { topics: before },
+        after: { topics: ['zsh'] },
+        result: 'success',
+      }),
+    ]);
+  });
+
+  it('explains rejected topic names', async () => {
+    await expect(githubApi.replaceTopics('octo-dev', 'dotfiles', ['Not Valid'])).rejects.toThrow(
+      /must start with a lowercase letter or number/
+    );
+  });
+});
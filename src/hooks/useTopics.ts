@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { githubApi } from '@/utils/api';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useAuditTrail } from '@/hooks/useAuditLog';
+import { findCachedRepository } from '@/hooks/useRepositories';
+import { QUERY_KEYS, MUTATION_KEYS } from '@/types';
+
+export const useReplaceTopics = () => {
+  const queryClient = useQueryClient();
+  const accountId = useActiveAccountId();
+  const audit = useAuditTrail();
+
+  return useMutation({
+    mutationKey: MUTATION_KEYS.replaceTopics,
+    mutationFn: ({ owner, repo, topics }: { owner: string; repo: string; topics: string[] }) => {
+      return githubApi.replaceTopics(owner, repo, topics);
+    },
+    onMutate: ({ owner, repo }) => ({ before: findCachedRepository(queryClient, accountId, owner, repo) }),
+    onSuccess: (_, { owner, repo }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repository(accountId, owner, repo) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.repositories(accountId) });
+    },
+    onSettled: (saved, error, { owner, repo, topics }, context) => {
+      audit(
+        {
+          action: 'repository.topics',
+          repository: `${owner}/${repo}`,
+          before: context?.before ? { topics: context.before.topics ?? [] } : null,
+          after: { topics: saved ?? topics },
+        },
+        error
+      );
+    },
+  });
+};
@@ -1,11 +1,14 @@
 import { useQuery } from '@tanstack/react-query';
 import { githubApi } from '@/utils/api';
+import { useActiveAccountId } from '@/hooks/useAccounts';
 import { QUERY_KEYS } from '@/types';
 
 export const useUser = () => {
+  const accountId = useActiveAccountId();
+
   return useQuery({
-    queryKey: QUERY_KEYS.user,
-    queryFn: () => githubApi.getCurrentUser(),
+    queryKey: QUERY_KEYS.user(accountId),
+    queryFn: ({ signal }) => githubApi.getCurrentUser(signal),
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
   });
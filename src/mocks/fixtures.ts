@@ -0,0 +1,501 @@
+import { config } from '@/config/environment';
+import type {
+  BranchProtectionRequest,
+  GitHubUser,
+  Organization,
+  Repository,
+  RepositoryVisibility,
+  RulesetRequest,
+  Team,
+} from '@/types';
+
+// Seed data for the mock GitHub server. Shapes follow the REST v3 responses
+// so the UI cannot tell the mock from api.github.com.
+
+const API_URL = config.githubApi.baseUrl;
+const WEB_URL = config.githubApi.webUrl;
+
+type Permission = 'admin' | 'push' | 'pull';
+
+const buildUser = (login: string, id: number, overrides: Partial<GitHubUser> = {}): GitHubUser => {
+  const userApiUrl = `${API_URL}/users/${login}`;
+  return {
+    login,
+    id,
+    node_id: `MDQ6VXNlcj${id}`,
+    avatar_url: `https://avatars.githubusercontent.com/u/${id}?v=4`,
+    gravatar_id: '',
+    url: userApiUrl,
+    html_url: `${WEB_URL}/${login}`,
+    followers_url: `${userApiUrl}/followers`,
+    following_url: `${userApiUrl}/following{/other_user}`,
+    gists_url: `${userApiUrl}/gists{/gist_id}`,
+    starred_url: `${userApiUrl}/starred{/owner}{/repo}`,
+    subscriptions_url: `${userApiUrl}/subscriptions`,
+    organizations_url: `${userApiUrl}/orgs`,
+    repos_url: `${userApiUrl}/repos`,
+    events_url: `${userApiUrl}/events{/privacy}`,
+    received_events_url: `${userApiUrl}/received_events`,
+    type: 'User',
+    site_admin: false,
+    name: null,
+    company: null,
+    blog: null,
+    location: null,
+    email: null,
+    hireable: null,
+    bio: null,
+    twitter_username: null,
+    public_repos: 0,
+    public_gists: 0,
+    followers: 0,
+    following: 0,
+    created_at: '2019-03-14T09:21:07Z',
+    updated_at: '2024-05-02T17:45:12Z',
+    ...overrides,
+  };
+};
+
+export const mockUser: GitHubUser = buildUser('octo-dev', 5823104, {
+  name: 'Octo Dev',
+  company: '@vlast-labs',
+  blog: 'https://octo.dev',
+  location: 'Lisbon, Portugal',
+  email: 'octo@octo.dev',
+  bio: 'Building tools for people who live in their terminal.',
+  twitter_username: 'octodev',
+  public_repos: 3,
+  public_gists: 7,
+  followers: 182,
+  following: 41,
+});
+
+const collaborator = buildUser('lena-park', 7710452, { name: 'Lena Park' });
+
+// Every personal account the mock knows, e.g. as transfer targets
+export const mockUsers: GitHubUser[] = [mockUser, collaborator];
+
+export interface MockOrganization {
+  organization: Organization;
+  account: GitHubUser; // how the organization appears as a repository owner
+  teams: Team[];
+  rulesets: RulesetRequest[]; // organization rulesets, inherited by every repository it owns
+}
+
+const buildOrganization = (
+  login: string,
+  id: number,
+  description: string,
+  teams: Array<{ name: string; description?: string }>,
+  rulesets: RulesetRequest[] = []
+): MockOrganization => {
+  const account = buildUser(login, id, { type: 'Organization', name: description });
+  return {
+    account,
+    organization: {
+      login,
+      id,
+      node_id: `O_kgDO${id.toString(36)}`,
+      url: `${API_URL}/orgs/${login}`,
+      repos_url: `${API_URL}/orgs/${login}/repos`,
+      avatar_url: account.avatar_url,
+      description,
+    },
+    teams: teams.map((team, index) => ({
+      id: id * 10 + index,
+      node_id: `T_kwDO${(id * 10 + index).toString(36)}`,
+      name: team.name,
+      slug: team.name.toLowerCase().replace(/\s+/g, '-'),
+      description: team.description ?? null,
+      privacy: 'closed',
+      permission: 'pull',
+    })),
+    rulesets,
+  };
+};
+
+const vlastLabs = buildOrganization(
+  'vlast-labs',
+  9120334,
+  'Vlast Labs',
+  [{ name: 'Core', description: 'Maintainers of the Vlast apps' }, { name: 'Docs' }],
+  [
+    {
+      name: 'Protect default branch',
+      target: 'branch',
+      enforcement: 'active',
+      conditions: { ref_name: { include: ['~DEFAULT_BRANCH'], exclude: [] } },
+      rules: [{ type: 'non_fast_forward' }, { type: 'deletion' }],
+    },
+  ]
+);
+
+// Organizations the mock user belongs to
+export const mockOrganizations: MockOrganization[] = [vlastLabs];
+
+const toPermissions = (level: Permission): NonNullable<Repository['permissions']> => ({
+  admin: level === 'admin',
+  maintain: level === 'admin',
+  push: level !== 'pull',
+  triage: level !== 'pull',
+  pull: true,
+});
+
+export interface MockRepositoryOptions {
+  name: string;
+  owner?: GitHubUser;
+  description?: string | null;
+  private?: boolean;
+  visibility?: RepositoryVisibility; // overrides `private`; 'internal' repositories are private too
+  language?: string | null;
+  topics?: string[];
+  homepage?: string | null;
+  stargazers?: number;
+  forks?: number;
+  openIssues?: number;
+  size?: number;
+  permission?: Permission;
+  archived?: boolean;
+  license?: 'mit' | 'apache-2.0' | null;
+  createdAt?: string;
+  pushedAt?: string;
+}
+
+const LICENSES = {
+  mit: { key: 'mit', name: 'MIT License', spdx_id: 'MIT', url: `${API_URL}/licenses/mit`, node_id: 'MDc6TGljZW5zZTEz' },
+  'apache-2.0': {
+    key: 'apache-2.0',
+    name: 'Apache License 2.0',
+    spdx_id: 'Apache-2.0',
+    url: `${API_URL}/licenses/apache-2.0`,
+    node_id: 'MDc6TGljZW5zZTI=',
+  },
+} as const;
+
+let nextRepositoryId = 702_114_000;
+
+// Builds a complete repository payload; also used by the server for POST /user/repos and /orgs/{org}/repos
+export const buildRepository = (options: MockRepositoryOptions): Repository => {
+  const owner = options.owner ?? mockUser;
+  const fullName = `${owner.login}/${options.name}`;
+  const repoApiUrl = `${API_URL}/repos/${fullName}`;
+  const htmlUrl = `${WEB_URL}/${fullName}`;
+  const id = nextRepositoryId++;
+  const visibility = options.visibility ?? (options.private ? 'private' : 'public');
+  const isPrivate = visibility !== 'public';
+  const createdAt = options.createdAt ?? new Date().toISOString();
+  const pushedAt = options.pushedAt ?? createdAt;
+  const stargazers = options.stargazers ?? 0;
+  const forks = options.forks ?? 0;
+  const openIssues = options.openIssues ?? 0;
+
+  return {
+    id,
+    node_id: `R_kgDOK${id.toString(36)}`,
+    name: options.name,
+    full_name: fullName,
+    private: isPrivate,
+    owner,
+    html_url: htmlUrl,
+    description: options.description ?? null,
+    fork: false,
+    url: repoApiUrl,
+    archive_url: `${repoApiUrl}/{archive_format}{/ref}`,
+    assignees_url: `${repoApiUrl}/assignees{/user}`,
+    blobs_url: `${repoApiUrl}/git/blobs{/sha}`,
+    branches_url: `${repoApiUrl}/branches{/branch}`,
+    collaborators_url: `${repoApiUrl}/collaborators{/collaborator}`,
+    comments_url: `${repoApiUrl}/comments{/number}`,
+    commits_url: `${repoApiUrl}/commits{/sha}`,
+    compare_url: `${repoApiUrl}/compare/{base}...{head}`,
+    contents_url: `${repoApiUrl}/contents/{+path}`,
+    contributors_url: `${repoApiUrl}/contributors`,
+    deployments_url: `${repoApiUrl}/deployments`,
+    downloads_url: `${repoApiUrl}/downloads`,
+    events_url: `${repoApiUrl}/events`,
+    forks_url: `${repoApiUrl}/forks`,
+    git_commits_url: `${repoApiUrl}/git/commits{/sha}`,
+    git_refs_url: `${repoApiUrl}/git/refs{/sha}`,
+    git_tags_url: `${repoApiUrl}/git/tags{/sha}`,
+    git_url: `git://${new URL(WEB_URL).host}/${fullName}.git`,
+    issue_comment_url: `${repoApiUrl}/issues/comments{/number}`,
+    issue_events_url: `${repoApiUrl}/issues/events{/number}`,
+    issues_url: `${repoApiUrl}/issues{/number}`,
+    keys_url: `${repoApiUrl}/keys{/key_id}`,
+    labels_url: `${repoApiUrl}/labels{/name}`,
+    languages_url: `${repoApiUrl}/languages`,
+    merges_url: `${repoApiUrl}/merges`,
+    milestones_url: `${repoApiUrl}/milestones{/number}`,
+    notifications_url: `${repoApiUrl}/notifications{?since,all,participating}`,
+    pulls_url: `${repoApiUrl}/pulls{/number}`,
+    releases_url: `${repoApiUrl}/releases{/id}`,
+    ssh_url: `git@${new URL(WEB_URL).host}:${fullName}.git`,
+    stargazers_url: `${repoApiUrl}/stargazers`,
+    statuses_url: `${repoApiUrl}/statuses/{sha}`,
+    subscribers_url: `${repoApiUrl}/subscribers`,
+    subscription_url: `${repoApiUrl}/subscription`,
+    tags_url: `${repoApiUrl}/tags`,
+    teams_url: `${repoApiUrl}/teams`,
+    trees_url: `${repoApiUrl}/git/trees{/sha}`,
+    clone_url: `${htmlUrl}.git`,
+    mirror_url: null,
+    hooks_url: `${repoApiUrl}/hooks`,
+    svn_url: htmlUrl,
+    homepage: options.homepage ?? null,
+    language: options.language ?? null,
+    forks_count: forks,
+    stargazers_count: stargazers,
+    watchers_count: stargazers,
+    size: options.size ?? 0,
+    default_branch: 'main',
+    open_issues_count: openIssues,
+    is_template: false,
+    topics: options.topics ?? [],
+    has_issues: true,
+    has_projects: true,
+    has_wiki: !isPrivate,
+    has_pages: false,
+    has_downloads: true,
+    archived: options.archived ?? false,
+    disabled: false,
+    visibility,
+    pushed_at: pushedAt,
+    created_at: createdAt,
+    updated_at: pushedAt,
+    permissions: toPermissions(options.permission ?? 'admin'),
+    allow_rebase_merge: true,
+    template_repository: null,
+    temp_clone_token: null,
+    allow_squash_merge: true,
+    allow_auto_merge: false,
+    delete_branch_on_merge: false,
+    allow_merge_commit: true,
+    subscribers_count: Math.ceil(stargazers / 10),
+    network_count: forks,
+    license: options.license ? { ...LICENSES[options.license] } : null,
+    forks,
+    open_issues: openIssues,
+    watchers: stargazers,
+  };
+};
+
+export interface MockBranchSeed {
+  name: string;
+  base?: number; // commits behind the default branch head it forks from
+  commits?: string[]; // messages of commits only on this branch, oldest first
+  protection?: BranchProtectionRequest;
+}
+
+export interface MockRepositorySeed {
+  repository: MockRepositoryOptions;
+  files: Record<string, string>; // path → UTF-8 text
+  history?: string[]; // default branch commit messages, oldest first
+  branches?: MockBranchSeed[];
+  rulesets?: RulesetRequest[];
+}
+
+const releaseBranchProtection: BranchProtectionRequest = {
+  required_status_checks: { strict: true, contexts: ['ci/build', 'ci/test'] },
+  enforce_admins: true,
+  required_pull_request_reviews: {
+    required_approving_review_count: 1,
+    dismiss_stale_reviews: true,
+    require_code_owner_reviews: false,
+    require_last_push_approval: false,
+  },
+  restrictions: null,
+  required_linear_history: true,
+  allow_force_pushes: false,
+  allow_deletions: false,
+  required_conversation_resolution: false,
+};
+
+export const mockRepositorySeeds: MockRepositorySeed[] = [
+  {
+    repository: {
+      name: 'vlast-cli',
+      description: 'Manage GitHub repositories from your terminal',
+      language: 'TypeScript',
+      topics: ['cli', 'github', 'developer-tools'],
+      homepage: 'https://octo.dev/vlast-cli',
+      stargazers: 412,
+      forks: 38,
+      openIssues: 9,
+      size: 1840,
+      license: 'mit',
+      createdAt: '2022-08-03T11:04:51Z',
+      pushedAt: '2024-06-11T08:32:19Z',
+    },
+    files: {
+      'README.md': '# vlast-cli\n\nManage GitHub repositories from your terminal.\n\n```sh\nnpx vlast-cli list\n```\n',
+      'package.json': '{\n  "name": "vlast-cli",\n  "version": "1.4.2",\n  "bin": { "vlast": "dist/index.js" }\n}\n',
+      'LICENSE': 'MIT License\n\nCopyright (c) 2022 Octo Dev\n',
+      'src/index.ts': "import { run } from './cli';\n\nrun(process.argv.slice(2));\n",
+      'src/cli.ts': "export const run = (args: string[]) => {\n  console.log('vlast', args.join(' '));\n};\n",
+    },
+    history: ['Initial commit', 'Add list command', 'Fix typo in README', 'Release 1.4.2'],
+    branches: [
+      { name: 'feature/plugins', commits: ['Load plugins from ~/.vlast', 'Document plugin API'] },
+      { name: 'fix/readme-typo', base: 1 },
+      { name: 'release/1.x', base: 0, protection: releaseBranchProtection },
+      { name: 'experiment/ink-ui', base: 2, commits: ['Try ink for rendering'] },
+    ],
+    rulesets: [
+      {
+        name: 'Protect default branch',
+        target: 'branch',
+        enforcement: 'active',
+        conditions: { ref_name: { include: ['~DEFAULT_BRANCH'], exclude: [] } },
+        rules: [
+          {
+            type: 'pull_request',
+            parameters: {
+              required_approving_review_count: 1,
+              dismiss_stale_reviews_on_push: false,
+              require_code_owner_review: false,
+              require_last_push_approval: false,
+              required_review_thread_resolution: true,
+            },
+          },
+          { type: 'non_fast_forward' },
+          { type: 'deletion' },
+        ],
+      },
+    ],
+  },
+  {
+    repository: {
+      name: 'dotfiles',
+      description: 'zsh, tmux and neovim configuration',
+      language: 'Shell',
+      topics: ['dotfiles', 'neovim'],
+      stargazers: 27,
+      forks: 4,
+      size: 312,
+      createdAt: '2019-03-15T20:11:02Z',
+      pushedAt: '2024-05-28T21:47:40Z',
+    },
+    files: {
+      'README.md': '# dotfiles\n\nRun `./install.sh` to symlink everything into `$HOME`.\n',
+      'install.sh': '#!/usr/bin/env sh\nset -e\nln -sf "$PWD/.zshrc" "$HOME/.zshrc"\n',
+      '.zshrc': 'export EDITOR=nvim\nalias g=git\n',
+    },
+  },
+  {
+    repository: {
+      name: 'billing-service',
+      description: 'Invoice generation and payment webhooks',
+      private: true,
+      language: 'Go',
+      topics: ['payments', 'microservice'],
+      openIssues: 3,
+      size: 5230,
+      createdAt: '2023-01-19T14:40:09Z',
+      pushedAt: '2024-06-10T16:05:55Z',
+    },
+    files: {
+      'README.md': '# billing-service\n\nInternal service. See `docs/runbook.md` before deploying.\n',
+      'go.mod': 'module github.com/octo-dev/billing-service\n\ngo 1.22\n',
+      'main.go': 'package main\n\nfunc main() {\n\tserve()\n}\n',
+      'docs/runbook.md': '# Runbook\n\n1. Drain the webhook queue\n2. Deploy\n',
+    },
+    history: ['Initial commit', 'Add Stripe webhook handler', 'Retry failed invoices'],
+    branches: [
+      { name: 'develop', commits: ['Add invoice PDF export'] },
+      { name: 'hotfix/duplicate-charges', base: 1 },
+    ],
+  },
+  {
+    repository: {
+      name: 'ml-notebooks',
+      description: 'Experiments with small language models',
+      language: 'Python',
+      topics: ['machine-learning', 'jupyter'],
+      stargazers: 96,
+      forks: 12,
+      openIssues: 1,
+      size: 20480,
+      license: 'apache-2.0',
+      createdAt: '2021-11-02T09:15:33Z',
+      pushedAt: '2024-03-22T13:27:08Z',
+    },
+    files: {
+      'README.md': '# ml-notebooks\n\nNotebooks are grouped by experiment under `experiments/`.\n',
+      'requirements.txt': 'numpy==1.26.4\ntorch==2.3.0\n',
+      'experiments/tokenizer.py': 'def tokenize(text):\n    return text.split()\n',
+    },
+  },
+  {
+    repository: {
+      name: 'design-tokens',
+      description: 'Shared colours and spacing for the Vlast apps',
+      owner: collaborator,
+      language: 'JavaScript',
+      stargazers: 14,
+      size: 96,
+      permission: 'push',
+      createdAt: '2023-06-07T10:00:00Z',
+      pushedAt: '2024-04-30T12:12:12Z',
+    },
+    files: {
+      'README.md': '# design-tokens\n\nGenerated from Figma; edit `tokens.json`, not the build output.\n',
+      'tokens.json': '{\n  "purple-500": "#8B5CF6"\n}\n',
+    },
+  },
+  {
+    repository: {
+      name: 'conference-talks',
+      description: 'Slides and demo code from past talks',
+      owner: collaborator,
+      language: null,
+      stargazers: 5,
+      size: 64,
+      permission: 'pull',
+      archived: true,
+      createdAt: '2020-09-12T18:30:00Z',
+      pushedAt: '2023-10-05T09:45:00Z',
+    },
+    files: {
+      'README.md': '# conference-talks\n\n- 2023: Shipping CLIs people enjoy\n',
+    },
+  },
+  {
+    repository: {
+      name: 'vlast-web',
+      description: 'The Vlast dashboard',
+      owner: vlastLabs.account,
+      language: 'TypeScript',
+      topics: ['react', 'github', 'dashboard'],
+      homepage: 'https://vlast.dev',
+      stargazers: 238,
+      forks: 21,
+      openIssues: 14,
+      size: 4120,
+      license: 'mit',
+      createdAt: '2023-02-14T09:30:00Z',
+      pushedAt: '2024-06-12T17:20:44Z',
+    },
+    files: {
+      'README.md': '# vlast-web\n\nRun `npm run dev` and open http://localhost:5173.\n',
+      'package.json': '{\n  "name": "vlast-web",\n  "private": true\n}\n',
+    },
+    history: ['Initial commit', 'Add repository grid', 'Add GraphQL source'],
+  },
+  {
+    repository: {
+      name: 'infra',
+      description: 'Terraform for the Vlast services',
+      owner: vlastLabs.account,
+      visibility: 'internal',
+      language: 'HCL',
+      size: 780,
+      permission: 'push',
+      createdAt: '2023-04-02T08:00:00Z',
+      pushedAt: '2024-06-03T11:41:09Z',
+    },
+    files: {
+      'README.md': '# infra\n\nApply with `terraform apply` from the `prod/` directory only.\n',
+      'prod/main.tf': 'module "api" {\n  source = "../modules/api"\n}\n',
+    },
+  },
+];
@@ -0,0 +1,79 @@
+import type { CommitComparison, GitHubUser } from '@/types';
+
+export interface MockCommit {
+  sha: string;
+  message: string;
+  date: string;
+  parent: string | null;
+  author: GitHubUser;
+}
+
+const fnv1a = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+// Deterministic 40-character stand-in for a git object SHA
+export const hashContent = (value: string): string => {
+  return [0, 1, 2, 3, 4].map((salt) => fnv1a(`${salt}:${value}`)).join('');
+};
+
+let commitCounter = 0;
+
+/**
+ * Linear commit history with named branches for one mock repository. Every
+ * commit has at most one parent, which is enough to answer compare requests
+ * (ahead/behind counts) the way GitHub does.
+ */
+export class MockGitHistory {
+  readonly branches = new Map<string, string>(); // name → head SHA
+  private readonly commits = new Map<string, MockCommit>();
+
+  commit(message: string, parent: string | null, author: GitHubUser, date = new Date().toISOString()): MockCommit {
+    const sha = hashContent(`${parent}:${message}:${date}:${commitCounter++}`);
+    const commit = { sha, message, date, parent, author };
+    this.commits.set(sha, commit);
+    return commit;
+  }
+
+  // Adds a commit on top of `branch`, creating the branch if the repository was empty
+  advance(branch: string, message: string, author: GitHubUser): MockCommit {
+    const commit = this.commit(message, this.branches.get(branch) ?? null, author);
+    this.branches.set(branch, commit.sha);
+    return commit;
+  }
+
+  // Accepts a branch name, a full SHA or an abbreviated SHA of at least 7 characters
+  resolve(ref: string): MockCommit | undefined {
+    const sha = this.branches.get(ref) ?? ref;
+    const exact = this.commits.get(sha);
+    if (exact || sha.length < 7) return exact;
+
+    return [...this.commits.values()].find((commit) => commit.sha.startsWith(sha));
+  }
+
+  private ancestors(sha: string): string[] {
+    const chain: string[] = [];
+    for (let current: string | null = sha; current; current = this.commits.get(current)?.parent ?? null) {
+      chain.push(current);
+    }
+    return chain;
+  }
+
+  compare(base: MockCommit, head: MockCommit): CommitComparison {
+    const baseAncestors = this.ancestors(base.sha);
+    const headAncestors = this.ancestors(head.sha);
+    const inBase = new Set(baseAncestors);
+    const inHead = new Set(headAncestors);
+
+    const aheadBy = headAncestors.filter((sha) => !inBase.has(sha)).length;
+    const behindBy = baseAncestors.filter((sha) => !inHead.has(sha)).length;
+    const status = aheadBy && behindBy ? 'diverged' : aheadBy ? 'ahead' : behindBy ? 'behind' : 'identical';
+
+    return { status, ahead_by: aheadBy, behind_by: behindBy, total_commits: aheadBy };
+  }
+}
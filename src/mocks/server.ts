@@ -0,0 +1,1054 @@
+import { config } from '@/config/environment';
+import { COLORS } from '@/utils/constants';
+import type { ApiHandler, ApiRequest } from '@/utils/middleware';
+import type {
+  BranchProtection,
+  BranchProtectionRequest,
+  CreateRepositoryRequest,
+  FileCommitResponse,
+  FileContent,
+  GitCommit,
+  GitHubApiError as GitHubErrorBody,
+  GitHubUser,
+  Repository,
+  TransferRepositoryRequest,
+  RepositoryRuleset,
+  RulesetRequest,
+  UpdateRepositoryRequest,
+} from '@/types';
+import { buildRepository, mockOrganizations, mockRepositorySeeds, mockUser, mockUsers } from './fixtures';
+import type { MockRepositorySeed } from './fixtures';
+import { MockGitHistory, hashContent } from './git';
+import type { MockCommit } from './git';
+
+interface MockFile {
+  text: string;
+  sha: string;
+}
+
+interface MockRepositoryState {
+  repository: Repository;
+  files: Map<string, MockFile>; // contents of the default branch
+  git: MockGitHistory;
+  protection: Map<string, BranchProtection>; // branch name → classic protection rule
+  rulesets: RepositoryRuleset[];
+}
+
+export interface MockServerOptions {
+  latencyMs?: number; // simulated round trip per request
+  scopes?: string[]; // reported for classic tokens; fine-grained tokens get no scopes header
+}
+
+type RouteHandler = (params: string[], request: ApiRequest, url: URL) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const RATE_LIMIT = 5000;
+const DEFAULT_SCOPES = ['repo', 'delete_repo', 'user'];
+const REPOSITORY_NAME_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+const MAX_REQUIRED_APPROVALS = 6;
+const MAX_TOPICS = 20;
+const MAX_TOPIC_LENGTH = 50;
+const TOPIC_PATTERN = new RegExp(`^[a-z0-9][a-z0-9-]{0,${MAX_TOPIC_LENGTH - 1}}$`);
+const FINE_GRAINED_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const encodeBase64 = (text: string): string => btoa(unescape(encodeURIComponent(text)));
+const decodeBase64 = (value: string): string => decodeURIComponent(escape(atob(value)));
+const byteLength = (text: string): number => new TextEncoder().encode(text).length;
+
+const toFile = (text: string): MockFile => ({ text, sha: hashContent(text) });
+
+// "2024-07-11 08:32:19 UTC", the format GitHub uses for token expiry
+const formatExpiration = (timestamp: number): string => {
+  return `${new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Stateful in-memory stand-in for the parts of the GitHub REST and GraphQL
+ * APIs Vlast uses. Plugged in as the pipeline's transport when mock mode is
+ * on, so every middleware (auth, caching, rate limits, errors) still runs.
+ * Any bearer token is accepted unless it was revoked with `revokeToken`.
+ */
+export class MockGitHubServer {
+  private repositories = new Map<string, MockRepositoryState>();
+  private revokedTokens = new Set<string>();
+  private remaining = RATE_LIMIT;
+  private nextRulesetId = 1;
+  // Keyed by lowercase organization login
+  private organizationRulesets = new Map<string, RepositoryRuleset[]>();
+  private readonly user: GitHubUser = mockUser;
+
+  private readonly routes: Route[] = [
+    { method: 'GET', pattern: /^\/user$/, handler: () => this.json(200, this.user) },
+    { method: 'GET', pattern: /^\/user\/repos$/, handler: (_, __, url) => this.listRepositories(url) },
+    { method: 'POST', pattern: /^\/user\/repos$/, handler: (_, request) => this.createRepository(request) },
+    { method: 'GET', pattern: /^\/user\/orgs$/, handler: () => this.json(200, mockOrganizations.map(({ organization }) => organization)) },
+    { method: 'GET', pattern: /^\/orgs\/([^/]+)\/teams$/, handler: (params) => this.listTeams(params) },
+    { method: 'POST', pattern: /^\/orgs\/([^/]+)\/repos$/, handler: ([org], request) => this.createRepository(request, org) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)$/, handler: (params) => this.getRepository(params) },
+    { method: 'POST', pattern: /^\/repos\/([^/]+)\/([^/]+)\/transfer$/, handler: (params, request) => this.transferRepository(params, request) },
+    { method: 'PATCH', pattern: /^\/repos\/([^/]+)\/([^/]+)$/, handler: (params, request) => this.updateRepository(params, request) },
+    { method: 'DELETE', pattern: /^\/repos\/([^/]+)\/([^/]+)$/, handler: (params) => this.deleteRepository(params) },
+    { method: 'PUT', pattern: /^\/repos\/([^/]+)\/([^/]+)\/topics$/, handler: (params, request) => this.replaceTopics(params, request) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/contents\/?(.*)$/, handler: (params) => this.getContents(params) },
+    { method: 'PUT', pattern: /^\/repos\/([^/]+)\/([^/]+)\/contents\/(.+)$/, handler: (params, request) => this.putFile(params, request) },
+    { method: 'DELETE', pattern: /^\/repos\/([^/]+)\/([^/]+)\/contents\/(.+)$/, handler: (params, request) => this.deleteFile(params, request) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/branches$/, handler: (params) => this.listBranches(params) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/branches\/(.+)\/protection$/, handler: (params) => this.getBranchProtection(params) },
+    { method: 'PUT', pattern: /^\/repos\/([^/]+)\/([^/]+)\/branches\/(.+)\/protection$/, handler: (params, request) => this.putBranchProtection(params, request) },
+    { method: 'DELETE', pattern: /^\/repos\/([^/]+)\/([^/]+)\/branches\/(.+)\/protection$/, handler: (params) => this.deleteBranchProtection(params) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/branches\/(.+)$/, handler: (params) => this.getBranch(params) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/commits\/(.+)$/, handler: (params) => this.getCommit(params) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/compare\/(.+?)\.\.\.(.+)$/, handler: (params) => this.compareCommits(params) },
+    { method: 'POST', pattern: /^\/repos\/([^/]+)\/([^/]+)\/git\/refs$/, handler: (params, request) => this.createReference(params, request) },
+    { method: 'DELETE', pattern: /^\/repos\/([^/]+)\/([^/]+)\/git\/refs\/heads\/(.+)$/, handler: (params) => this.deleteBranch(params) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/rulesets$/, handler: (params, _, url) => this.listRulesets(params, url) },
+    { method: 'POST', pattern: /^\/repos\/([^/]+)\/([^/]+)\/rulesets$/, handler: (params, request) => this.saveRuleset(params, request) },
+    { method: 'GET', pattern: /^\/repos\/([^/]+)\/([^/]+)\/rulesets\/(\d+)$/, handler: (params) => this.getRuleset(params) },
+    { method: 'PUT', pattern: /^\/repos\/([^/]+)\/([^/]+)\/rulesets\/(\d+)$/, handler: (params, request) => this.saveRuleset(params, request) },
+    { method: 'DELETE', pattern: /^\/repos\/([^/]+)\/([^/]+)\/rulesets\/(\d+)$/, handler: (params) => this.deleteRuleset(params) },
+  ];
+
+  constructor(private readonly options: MockServerOptions = {}) {
+    this.reset();
+  }
+
+  // Restores the seeded fixtures; tests call this between cases
+  reset() {
+    this.repositories.clear();
+    this.revokedTokens.clear();
+    this.remaining = RATE_LIMIT;
+    this.nextRulesetId = 1;
+    this.organizationRulesets.clear();
+
+    for (const { account, rulesets } of mockOrganizations) {
+      this.organizationRulesets.set(
+        account.login.toLowerCase(),
+        rulesets.map((ruleset) => ({
+          ...this.toRuleset(null, this.nextRulesetId++, ruleset),
+          source_type: 'Organization',
+          source: account.login,
+        }))
+      );
+    }
+
+    for (const seed of mockRepositorySeeds) {
+      const repository = buildRepository(seed.repository);
+      const files = new Map(Object.entries(seed.files).map(([path, text]) => [path, toFile(text)]));
+      const git = this.seedHistory(repository, seed);
+      const state: MockRepositoryState = { repository, files, git, protection: new Map(), rulesets: [] };
+
+      for (const branch of seed.branches ?? []) {
+        if (branch.protection) {
+          state.protection.set(branch.name, this.toBranchProtection(repository, branch.name, branch.protection));
+        }
+      }
+      for (const ruleset of seed.rulesets ?? []) {
+        state.rulesets.push(this.toRuleset(repository, this.nextRulesetId++, ruleset));
+      }
+
+      this.repositories.set(repository.full_name.toLowerCase(), state);
+    }
+  }
+
+  // Lays out the default branch one commit per day up to `pushed_at`, then forks the seeded branches off it
+  private seedHistory(repository: Repository, seed: Pick<MockRepositorySeed, 'history' | 'branches'>): MockGitHistory {
+    const git = new MockGitHistory();
+    const history = seed.history ?? ['Initial commit'];
+    const headTime = Date.parse(repository.pushed_at);
+    const mainline: MockCommit[] = [];
+
+    history.forEach((message, index) => {
+      const date = new Date(headTime - (history.length - 1 - index) * DAY_MS).toISOString();
+      mainline.push(git.commit(message, mainline[index - 1]?.sha ?? null, repository.owner, date));
+    });
+    git.branches.set(repository.default_branch, mainline[mainline.length - 1]!.sha);
+
+    for (const branch of seed.branches ?? []) {
+      let head = mainline[Math.max(mainline.length - 1 - (branch.base ?? 0), 0)]!;
+      const forkTime = Date.parse(head.date);
+      (branch.commits ?? []).forEach((message, index) => {
+        head = git.commit(message, head.sha, repository.owner, new Date(forkTime + (index + 1) * HOUR_MS).toISOString());
+      });
+      git.branches.set(branch.name, head.sha);
+    }
+
+    return git;
+  }
+
+  // Subsequent requests with this token get 401 Bad credentials
+  revokeToken(token: string) {
+    this.revokedTokens.add(token);
+  }
+
+  getRepositories(): Repository[] {
+    return [...this.repositories.values()].map(({ repository }) => repository);
+  }
+
+  readonly handle: ApiHandler = async (request) => {
+    if (this.options.latencyMs) {
+      await wait(this.options.latencyMs, request.signal);
+    } else if (request.signal?.aborted) {
+      throw request.signal.reason;
+    }
+
+    const token = request.headers.get('Authorization')?.replace(/^(Bearer|token)\s+/i, '');
+    if (!token || this.revokedTokens.has(token)) {
+      return this.error(401, 'Bad credentials');
+    }
+
+    const url = new URL(request.url);
+    // GitHub Enterprise Server serves the same routes under /api/v3
+    const path = url.pathname.replace(/^\/api\/v3/, '').replace(/\/$/, '') || '/';
+
+    try {
+      if (request.method === 'POST' && /\/graphql$/.test(path)) {
+        return this.withTokenHeaders(this.graphql(request), token, 'graphql');
+      }
+
+      for (const route of this.routes) {
+        const match = route.method === request.method ? path.match(route.pattern) : null;
+        if (match) {
+          const params = match.slice(1).map((param) => decodeURIComponent(param ?? ''));
+          return this.withTokenHeaders(await route.handler(params, request, url), token, 'core');
+        }
+      }
+    } catch {
+      // Handlers only throw while parsing the request body
+      return this.error(400, 'Problems parsing JSON');
+    }
+
+    return this.error(404, 'Not Found');
+  };
+
+  private json(status: number, body?: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+    });
+  }
+
+  private error(status: number, message: string, errors?: GitHubErrorBody['errors']): Response {
+    const body: GitHubErrorBody = {
+      message,
+      documentation_url: 'https://docs.github.com/rest',
+      ...(errors && { errors }),
+    };
+    return this.json(status, body);
+  }
+
+  // Adds the scope, expiry and rate limit headers GitHub sends on every authenticated response
+  private withTokenHeaders(response: Response, token: string, resource: 'core' | 'graphql'): Response {
+    this.remaining = Math.max(this.remaining - 1, 0);
+    const headers = response.headers;
+    headers.set('X-RateLimit-Limit', String(RATE_LIMIT));
+    headers.set('X-RateLimit-Remaining', String(this.remaining));
+    headers.set('X-RateLimit-Used', String(RATE_LIMIT - this.remaining));
+    headers.set('X-RateLimit-Reset', String(Math.floor(Date.now() / 1000) + 3600));
+    headers.set('X-RateLimit-Resource', resource);
+
+    if (token.startsWith('github_pat_')) {
+      headers.set('GitHub-Authentication-Token-Expiration', formatExpiration(Date.now() + FINE_GRAINED_LIFETIME_MS));
+    } else {
+      headers.set('X-OAuth-Scopes', (this.options.scopes ?? DEFAULT_SCOPES).join(', '));
+    }
+
+    return response;
+  }
+
+  private readBody<T>(request: ApiRequest): T {
+    return (request.body ? JSON.parse(request.body) : {}) as T;
+  }
+
+  private findRepository(owner: string, repo: string): MockRepositoryState | undefined {
+    return this.repositories.get(`${owner}/${repo}`.toLowerCase());
+  }
+
+  private touch(repository: Repository, pushed = false) {
+    const now = new Date().toISOString();
+    repository.updated_at = now;
+    if (pushed) {
+      repository.pushed_at = now;
+    }
+  }
+
+  private invalidName(message: string): Response {
+    return this.error(422, message, [{ resource: 'Repository', field: 'name', code: 'custom' }]);
+  }
+
+  private listRepositories(url: URL): Response {
+    const perPage = Math.min(Number(url.searchParams.get('per_page')) || 30, 100);
+    const page = Math.max(Number(url.searchParams.get('page')) || 1, 1);
+    const sorted = this.getRepositories().sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    const lastPage = Math.max(Math.ceil(sorted.length / perPage), 1);
+
+    const pageUrl = (target: number) => {
+      const next = new URL(url);
+      next.searchParams.set('page', String(target));
+      return next.toString();
+    };
+    const links = [
+      ...(page < lastPage ? [`<${pageUrl(page + 1)}>; rel="next"`, `<${pageUrl(lastPage)}>; rel="last"`] : []),
+      ...(page > 1 ? [`<${pageUrl(page - 1)}>; rel="prev"`, `<${pageUrl(1)}>; rel="first"`] : []),
+    ];
+
+    return this.json(
+      200,
+      sorted.slice((page - 1) * perPage, page * perPage),
+      links.length ? { Link: links.join(', ') } : {}
+    );
+  }
+
+  private createRepository(request: ApiRequest, org?: string): Response {
+    const params = this.readBody<CreateRepositoryRequest>(request);
+    const organization = org
+      ? mockOrganizations.find(({ account }) => account.login.toLowerCase() === org.toLowerCase())
+      : undefined;
+    if (org && !organization) return this.error(404, 'Not Found');
+
+    const owner = organization?.account ?? this.user;
+    if (!params.name || !REPOSITORY_NAME_PATTERN.test(params.name)) {
+      return this.invalidName('Repository creation failed.');
+    }
+    // Only organizations have internal repositories, and only they accept `visibility`
+    const visibility = (organization && params.visibility) || (params.private ? 'private' : 'public');
+    if (params.visibility === 'internal' && !organization) {
+      return this.error(422, 'Repository creation failed.', [
+        { resource: 'Repository', field: 'visibility', code: 'invalid' },
+      ]);
+    }
+    if (this.findRepository(owner.login, params.name)) {
+      return this.error(422, 'Repository creation failed.', [
+        { resource: 'Repository', field: 'name', code: 'already_exists' },
+      ]);
+    }
+
+    const repository = buildRepository({
+      name: params.name,
+      owner,
+      description: params.description || null,
+      homepage: params.homepage || null,
+      visibility,
+    });
+    Object.assign(repository, {
+      has_issues: params.has_issues ?? repository.has_issues,
+      has_projects: params.has_projects ?? repository.has_projects,
+      has_wiki: params.has_wiki ?? repository.has_wiki,
+      is_template: params.is_template ?? repository.is_template,
+      allow_squash_merge: params.allow_squash_merge ?? repository.allow_squash_merge,
+      allow_merge_commit: params.allow_merge_commit ?? repository.allow_merge_commit,
+      allow_rebase_merge: params.allow_rebase_merge ?? repository.allow_rebase_merge,
+      allow_auto_merge: params.allow_auto_merge ?? repository.allow_auto_merge,
+      delete_branch_on_merge: params.delete_branch_on_merge ?? repository.delete_branch_on_merge,
+    });
+
+    // Without auto_init the repository is empty: no commits and no branches
+    const files = new Map<string, MockFile>();
+    const git = new MockGitHistory();
+    if (params.auto_init) {
+      files.set('README.md', toFile(`# ${params.name}\n${params.description ? `\n${params.description}\n` : ''}`));
+      git.advance(repository.default_branch, 'Initial commit', this.user);
+    }
+
+    this.repositories.set(repository.full_name.toLowerCase(), {
+      repository,
+      files,
+      git,
+      protection: new Map(),
+      rulesets: [],
+    });
+    return this.json(201, repository);
+  }
+
+  private listTeams([org]: string[]): Response {
+    const organization = mockOrganizations.find(({ account }) => account.login.toLowerCase() === org!.toLowerCase());
+    return organization ? this.json(200, organization.teams) : this.error(404, 'Not Found');
+  }
+
+  private getRepository([owner, repo]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    return state ? this.json(200, state.repository) : this.error(404, 'Not Found');
+  }
+
+  private updateRepository([owner, repo]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+
+    const { repository } = state;
+    if (!repository.permissions?.admin) {
+      return this.error(403, 'Must have admin rights to Repository.');
+    }
+
+    const updates = this.readBody<UpdateRepositoryRequest>(request);
+    if (repository.archived && updates.archived !== false) {
+      return this.error(403, 'Repository was archived so is read-only.');
+    }
+
+    const merged = { ...repository, ...updates };
+    if (!merged.allow_merge_commit && !merged.allow_squash_merge && !merged.allow_rebase_merge) {
+      return this.error(422, 'Sorry, you need to allow at least one merge strategy. (no_merge_method)');
+    }
+
+    if (updates.default_branch !== undefined && !state.git.branches.has(updates.default_branch)) {
+      return this.error(422, 'Validation Failed', [
+        { resource: 'Repository', field: 'default_branch', code: 'invalid' },
+      ]);
+    }
+
+    if (updates.name !== undefined && updates.name !== repository.name) {
+      if (!REPOSITORY_NAME_PATTERN.test(updates.name)) {
+        return this.invalidName('Repository update failed.');
+      }
+      if (this.findRepository(repository.owner.login, updates.name)) {
+        return this.error(422, 'Repository update failed.', [
+          { resource: 'Repository', field: 'name', code: 'already_exists' },
+        ]);
+      }
+      this.moveRepository(state, repository.owner, updates.name);
+    }
+
+    const { name: _name, private: isPrivate, ...settings } = updates;
+    Object.assign(repository, settings);
+    if (isPrivate !== undefined) {
+      repository.private = isPrivate;
+      repository.visibility = isPrivate ? 'private' : 'public';
+    }
+
+    this.touch(repository);
+    return this.json(200, repository);
+  }
+
+  // Renames and transfers: rewrites every URL and re-keys the repository under its new full name
+  private moveRepository(state: MockRepositoryState, owner: GitHubUser, name: string) {
+    const { repository } = state;
+    const previous = repository.full_name;
+    const fullName = `${owner.login}/${name}`;
+    const fields = repository as unknown as Record<string, unknown>;
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (typeof value === 'string' && key.endsWith('url')) {
+        fields[key] = value.replace(previous, fullName);
+      }
+    }
+
+    repository.owner = owner;
+    repository.name = name;
+    repository.full_name = fullName;
+    this.repositories.delete(previous.toLowerCase());
+    this.repositories.set(fullName.toLowerCase(), state);
+  }
+
+  private transferRepository([owner, repo]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const { new_owner: newOwner, new_name: newName, team_ids: teamIds } = this.readBody<TransferRepositoryRequest>(request);
+    if (!newOwner) {
+      return this.error(422, 'Invalid request.\n\n"new_owner" wasn\'t supplied.');
+    }
+
+    const target = newOwner.toLowerCase();
+    const organization = mockOrganizations.find(({ account }) => account.login.toLowerCase() === target);
+    const user = mockUsers.find(({ login }) => login.toLowerCase() === target);
+    const account = organization?.account ?? user;
+    if (!account) {
+      return this.error(422, 'Validation Failed', [{ resource: 'Repository', field: 'new_owner', code: 'invalid' }]);
+    }
+
+    const name = newName ?? state.repository.name;
+    if (account.login === state.repository.owner.login) {
+      return this.error(422, `${account.login} already owns this repository.`);
+    }
+    if (!REPOSITORY_NAME_PATTERN.test(name)) {
+      return this.invalidName('Repository transfer failed.');
+    }
+    if (this.findRepository(account.login, name)) {
+      return this.error(422, 'Validation Failed', [{ resource: 'Repository', field: 'name', code: 'already_exists' }]);
+    }
+    if (teamIds?.length) {
+      if (!organization) {
+        return this.error(422, 'team_ids can only be given when transferring to an organization.');
+      }
+      const unknown = teamIds.find((id) => !organization.teams.some((team) => team.id === id));
+      if (unknown !== undefined) {
+        return this.error(422, `Team ${unknown} does not belong to ${organization.account.login}.`);
+      }
+    }
+
+    this.moveRepository(state, account, name);
+    this.touch(state.repository);
+
+    // Another person's repository is no longer ours to see
+    if (!organization && account.login !== this.user.login) {
+      this.repositories.delete(state.repository.full_name.toLowerCase());
+    }
+    return this.json(202, state.repository);
+  }
+
+  private deleteRepository([owner, repo]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+    if (!state.repository.permissions?.admin) {
+      return this.error(403, 'Must have admin rights to Repository.');
+    }
+
+    this.repositories.delete(state.repository.full_name.toLowerCase());
+    return this.json(204);
+  }
+
+  private replaceTopics([owner, repo]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+    if (state.repository.archived) return this.error(403, 'Repository was archived so is read-only.');
+
+    const { names } = this.readBody<{ names?: string[] }>(request);
+    if (!Array.isArray(names)) {
+      return this.error(422, 'Invalid request.\n\n"names" wasn\'t supplied.');
+    }
+    const topics = Array.from(new Set(names.map((name) => name.toLowerCase())));
+    if (topics.length > MAX_TOPICS || topics.some((topic) => !TOPIC_PATTERN.test(topic))) {
+      return this.error(422, 'Validation Failed', [{ resource: 'Repository', field: 'topics', code: 'invalid' }]);
+    }
+
+    state.repository.topics = topics;
+    this.touch(state.repository);
+    return this.json(200, { names: topics });
+  }
+
+  private toFileContent(repository: Repository, path: string, file?: MockFile): FileContent {
+    const type = file ? 'file' : 'dir';
+    const sha = file?.sha ?? hashContent(path);
+    const self = `${repository.url}/contents/${path}?ref=${repository.default_branch}`;
+    const git = `${repository.url}/git/${file ? 'blobs' : 'trees'}/${sha}`;
+    const html = `${repository.html_url}/${file ? 'blob' : 'tree'}/${repository.default_branch}/${path}`;
+
+    return {
+      name: path.split('/').pop() ?? path,
+      path,
+      sha,
+      size: file ? byteLength(file.text) : 0,
+      url: self,
+      html_url: html,
+      git_url: git,
+      download_url: file
+        ? `https://raw.githubusercontent.com/${repository.full_name}/${repository.default_branch}/${path}`
+        : null,
+      type,
+      _links: { self, git, html },
+    };
+  }
+
+  private getContents([owner, repo, path = '']: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+
+    const file = state.files.get(path);
+    if (file) {
+      return this.json(200, {
+        ...this.toFileContent(state.repository, path, file),
+        content: encodeBase64(file.text),
+        encoding: 'base64',
+      });
+    }
+
+    // Directories only exist implicitly, as prefixes of file paths
+    const prefix = path ? `${path}/` : '';
+    const entries = new Map<string, FileContent>();
+    for (const [filePath, entry] of state.files) {
+      if (!filePath.startsWith(prefix)) continue;
+
+      const [name, ...rest] = filePath.slice(prefix.length).split('/');
+      const childPath = `${prefix}${name}`;
+      if (!entries.has(childPath)) {
+        entries.set(childPath, this.toFileContent(state.repository, childPath, rest.length ? undefined : entry));
+      }
+    }
+
+    if (!entries.size && path) {
+      return this.error(404, 'Not Found');
+    }
+
+    return this.json(200, [...entries.values()].sort((a, b) => a.path.localeCompare(b.path)));
+  }
+
+  // Mirrors GitHub's checks for content writes; returns an error response or null
+  private checkWritable(state: MockRepositoryState | undefined): Response | null {
+    if (!state) return this.error(404, 'Not Found');
+    if (!state.repository.permissions?.push) {
+      return this.error(403, 'Resource not accessible by personal access token');
+    }
+    if (state.repository.archived) {
+      return this.error(403, 'Repository was archived so is read-only.');
+    }
+    return null;
+  }
+
+  // Content writes land as a new commit on the default branch, returned in the git data shape
+  private commitToDefaultBranch(state: MockRepositoryState, message: string): FileCommitResponse['commit'] {
+    const commit = this.toGitCommit(state.repository, state.git.advance(state.repository.default_branch, message, this.user));
+    this.touch(state.repository, true);
+    return {
+      sha: commit.sha,
+      node_id: commit.node_id,
+      url: `${state.repository.url}/git/commits/${commit.sha}`,
+      html_url: commit.html_url,
+      message: commit.commit.message,
+      author: commit.commit.author!,
+      committer: commit.commit.committer!,
+      parents: commit.parents.map(({ sha }) => ({
+        sha,
+        url: `${state.repository.url}/git/commits/${sha}`,
+        html_url: `${state.repository.html_url}/commit/${sha}`,
+      })),
+    };
+  }
+
+  private toGitCommit(repository: Repository, commit: MockCommit): GitCommit {
+    const identity = {
+      name: commit.author.name ?? commit.author.login,
+      email: commit.author.email ?? `${commit.author.login}@users.noreply.github.com`,
+      date: commit.date,
+    };
+
+    return {
+      sha: commit.sha,
+      node_id: `C_kwDO${commit.sha.slice(0, 12)}`,
+      url: `${repository.url}/commits/${commit.sha}`,
+      html_url: `${repository.html_url}/commit/${commit.sha}`,
+      commit: { message: commit.message, author: identity, committer: identity },
+      author: {
+        login: commit.author.login,
+        avatar_url: commit.author.avatar_url,
+        html_url: commit.author.html_url,
+      },
+      parents: commit.parent ? [{ sha: commit.parent, url: `${repository.url}/commits/${commit.parent}` }] : [],
+    };
+  }
+
+  private putFile([owner, repo, path]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkWritable(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const body = this.readBody<{ message?: string; content?: string; sha?: string }>(request);
+    if (!body.message || body.content === undefined) {
+      return this.error(422, 'Invalid request.\n\n"message" and "content" are required.');
+    }
+
+    const existing = state.files.get(path!);
+    if (existing && !body.sha) {
+      return this.error(422, 'Invalid request.\n\n"sha" wasn\'t supplied.');
+    }
+    if (existing && body.sha !== existing.sha) {
+      return this.error(409, `${path} does not match ${body.sha}`);
+    }
+
+    const file = toFile(decodeBase64(body.content));
+    state.files.set(path!, file);
+
+    return this.json(existing ? 200 : 201, {
+      content: this.toFileContent(state.repository, path!, file),
+      commit: this.commitToDefaultBranch(state, body.message),
+    });
+  }
+
+  private deleteFile([owner, repo, path]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkWritable(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const body = this.readBody<{ message?: string; sha?: string }>(request);
+    const existing = state.files.get(path!);
+    if (!existing) return this.error(404, 'Not Found');
+    if (body.sha !== existing.sha) {
+      return this.error(409, `${path} does not match ${body.sha ?? ''}`);
+    }
+
+    state.files.delete(path!);
+    return this.json(200, { content: null, commit: this.commitToDefaultBranch(state, body.message ?? `Delete ${path}`) });
+  }
+
+  private listBranches([owner, repo]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+
+    const branches = [...state.git.branches.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, sha]) => ({
+        name,
+        commit: { sha, url: `${state.repository.url}/commits/${sha}` },
+        protected: state.protection.has(name),
+      }));
+    return this.json(200, branches);
+  }
+
+  private getBranch([owner, repo, name]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+
+    const sha = state.git.branches.get(name!);
+    const commit = sha ? state.git.resolve(sha) : undefined;
+    if (!commit) return this.error(404, 'Branch not found');
+
+    return this.json(200, {
+      name,
+      commit: this.toGitCommit(state.repository, commit),
+      protected: state.protection.has(name!),
+      _links: {
+        self: `${state.repository.url}/branches/${name}`,
+        html: `${state.repository.html_url}/tree/${name}`,
+      },
+    });
+  }
+
+  private getCommit([owner, repo, ref]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    if (!state) return this.error(404, 'Not Found');
+
+    const commit = state.git.resolve(ref!);
+    return commit
+      ? this.json(200, this.toGitCommit(state.repository, commit))
+      : this.error(422, `No commit found for SHA: ${ref}`);
+  }
+
+  private compareCommits([owner, repo, baseRef, headRef]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const base = state?.git.resolve(baseRef!);
+    const head = state?.git.resolve(headRef!);
+    if (!state || !base || !head) return this.error(404, 'Not Found');
+
+    return this.json(200, {
+      ...state.git.compare(base, head),
+      base_commit: this.toGitCommit(state.repository, base),
+    });
+  }
+
+  private createReference([owner, repo]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkWritable(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const { ref = '', sha = '' } = this.readBody<{ ref?: string; sha?: string }>(request);
+    const name = ref.replace(/^refs\/heads\//, '');
+    if (!ref.startsWith('refs/heads/') || !name) {
+      return this.error(422, 'Reference name must start with refs/heads/');
+    }
+    if (state.git.branches.has(name)) {
+      return this.error(422, 'Reference already exists');
+    }
+    if (!state.git.resolve(sha)) {
+      return this.error(422, 'Object does not exist');
+    }
+
+    state.git.branches.set(name, sha);
+    return this.json(201, {
+      ref,
+      node_id: `REF_kwDO${hashContent(ref).slice(0, 12)}`,
+      url: `${state.repository.url}/git/${ref}`,
+      object: { sha, type: 'commit', url: `${state.repository.url}/git/commits/${sha}` },
+    });
+  }
+
+  private deleteBranch([owner, repo, name]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkWritable(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    if (!state.git.branches.has(name!)) {
+      return this.error(422, 'Reference does not exist');
+    }
+    if (name === state.repository.default_branch) {
+      return this.error(422, 'Cannot delete the default branch');
+    }
+    if (state.protection.has(name!)) {
+      return this.error(422, 'Cannot delete a protected branch');
+    }
+
+    state.git.branches.delete(name!);
+    return this.json(204);
+  }
+
+  // Protection and rulesets are admin-only, including reads
+  private checkAdmin(state: MockRepositoryState | undefined): Response | null {
+    if (!state) return this.error(404, 'Not Found');
+    if (!state.repository.permissions?.admin) {
+      return this.error(403, 'Must have admin rights to Repository.');
+    }
+    return null;
+  }
+
+  private toBranchProtection(repository: Repository, branch: string, request: BranchProtectionRequest): BranchProtection {
+    return {
+      url: `${repository.url}/branches/${branch}/protection`,
+      ...(request.required_status_checks && { required_status_checks: request.required_status_checks }),
+      ...(request.required_pull_request_reviews && { required_pull_request_reviews: request.required_pull_request_reviews }),
+      enforce_admins: { enabled: !!request.enforce_admins },
+      required_linear_history: { enabled: !!request.required_linear_history },
+      allow_force_pushes: { enabled: !!request.allow_force_pushes },
+      allow_deletions: { enabled: !!request.allow_deletions },
+      required_conversation_resolution: { enabled: !!request.required_conversation_resolution },
+    };
+  }
+
+  private getBranchProtection([owner, repo, branch]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    if (!state.git.branches.has(branch!)) return this.error(404, 'Branch not found');
+    const protection = state.protection.get(branch!);
+    return protection ? this.json(200, protection) : this.error(404, 'Branch not protected');
+  }
+
+  private putBranchProtection([owner, repo, branch]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+    if (state.repository.archived) return this.error(403, 'Repository was archived so is read-only.');
+    if (!state.git.branches.has(branch!)) return this.error(404, 'Branch not found');
+
+    const body = this.readBody<Partial<BranchProtectionRequest>>(request);
+    const required = ['required_status_checks', 'enforce_admins', 'required_pull_request_reviews', 'restrictions'] as const;
+    const missing = required.find((key) => !(key in body));
+    if (missing) {
+      return this.error(422, `Invalid request.\n\n"${missing}" wasn't supplied.`);
+    }
+
+    const approvals = body.required_pull_request_reviews?.required_approving_review_count ?? 0;
+    if (approvals > MAX_REQUIRED_APPROVALS) {
+      return this.error(422, `Invalid request.\n\n${approvals} is greater than the maximum of ${MAX_REQUIRED_APPROVALS}.`);
+    }
+
+    const protection = this.toBranchProtection(state.repository, branch!, body as BranchProtectionRequest);
+    state.protection.set(branch!, protection);
+    return this.json(200, protection);
+  }
+
+  private deleteBranchProtection([owner, repo, branch]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    if (!state.protection.delete(branch!)) return this.error(404, 'Branch not protected');
+    return this.json(204);
+  }
+
+  private toRuleset(repository: Repository | null, id: number, request: RulesetRequest, createdAt?: string): RepositoryRuleset {
+    const now = new Date().toISOString();
+    return {
+      id,
+      name: request.name,
+      target: request.target ?? 'branch',
+      source_type: 'Repository',
+      source: repository?.full_name ?? '',
+      enforcement: request.enforcement,
+      conditions: request.conditions ?? { ref_name: { include: [], exclude: [] } },
+      rules: request.rules ?? [],
+      created_at: createdAt ?? now,
+      updated_at: now,
+    };
+  }
+
+  // Organization rulesets that apply to a repository; GitHub lists them with the repository's own
+  private inheritedRulesets(state: MockRepositoryState): RepositoryRuleset[] {
+    return this.organizationRulesets.get(state.repository.owner.login.toLowerCase()) ?? [];
+  }
+
+  private listRulesets([owner, repo]: string[], url: URL): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const includeParents = url.searchParams.get('includes_parents') !== 'false';
+    const rulesets = includeParents ? [...this.inheritedRulesets(state), ...state.rulesets] : state.rulesets;
+    // Summaries, like GitHub: conditions and rules are only on the single-ruleset endpoint
+    return this.json(200, rulesets.map(({ conditions: _conditions, rules: _rules, ...summary }) => summary));
+  }
+
+  // Inherited rulesets can be read here, but only changed through the organization's endpoints
+  private getRuleset([owner, repo, id]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const ruleset = [...state.rulesets, ...this.inheritedRulesets(state)].find((candidate) => candidate.id === Number(id));
+    return ruleset ? this.json(200, ruleset) : this.error(404, 'Not Found');
+  }
+
+  // POST creates; PUT (with an id) replaces an existing ruleset
+  private saveRuleset([owner, repo, id]: string[], request: ApiRequest): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+    if (state.repository.archived) return this.error(403, 'Repository was archived so is read-only.');
+
+    const existing = id === undefined ? undefined : state.rulesets.find((candidate) => candidate.id === Number(id));
+    if (id !== undefined && !existing) return this.error(404, 'Not Found');
+
+    const body = this.readBody<Partial<RulesetRequest>>(request);
+    const name = body.name?.trim() ?? existing?.name;
+    if (!name || !(body.enforcement ?? existing?.enforcement)) {
+      return this.error(422, 'Validation Failed', [
+        { resource: 'Ruleset', field: name ? 'enforcement' : 'name', code: 'missing_field' },
+      ]);
+    }
+    if (state.rulesets.some((candidate) => candidate.name === name && candidate !== existing)) {
+      return this.error(422, 'Validation Failed', [{ resource: 'Ruleset', field: 'name', code: 'already_exists' }]);
+    }
+
+    const ruleset = this.toRuleset(
+      state.repository,
+      existing?.id ?? this.nextRulesetId++,
+      { ...existing, ...body, name } as RulesetRequest,
+      existing?.created_at
+    );
+    if (existing) {
+      state.rulesets[state.rulesets.indexOf(existing)] = ruleset;
+    } else {
+      state.rulesets.push(ruleset);
+    }
+    return this.json(existing ? 200 : 201, ruleset);
+  }
+
+  private deleteRuleset([owner, repo, id]: string[]): Response {
+    const state = this.findRepository(owner!, repo!);
+    const denied = this.checkAdmin(state);
+    if (denied || !state) return denied ?? this.error(404, 'Not Found');
+
+    const index = state.rulesets.findIndex((candidate) => candidate.id === Number(id));
+    if (index === -1) return this.error(404, 'Not Found');
+
+    state.rulesets.splice(index, 1);
+    return this.json(204);
+  }
+
+  // Answers the Dashboard's ViewerRepositories query; other queries are not supported
+  private graphql(request: ApiRequest): Response {
+    const { query, variables = {} } = this.readBody<{ query?: string; variables?: { first?: number; after?: string | null } }>(request);
+    if (!query?.includes('ViewerRepositories')) {
+      return this.json(200, { errors: [{ message: 'The mock server only supports the ViewerRepositories query' }] });
+    }
+
+    const repositories = this.getRepositories().sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    const start = variables.after ? Number(variables.after) : 0;
+    const end = start + (variables.first ?? 100);
+
+    return this.json(200, {
+      data: {
+        viewer: {
+          repositories: {
+            pageInfo: { hasNextPage: end < repositories.length, endCursor: end < repositories.length ? String(end) : null },
+            nodes: repositories.slice(start, end).map((repository) => this.toRepositoryNode(this.findRepository(repository.owner.login, repository.name)!)),
+          },
+        },
+      },
+    });
+  }
+
+  private toRepositoryNode({ repository, git }: MockRepositoryState) {
+    const head = git.resolve(repository.default_branch);
+    const permissions = repository.permissions;
+    const viewerPermission = permissions?.admin ? 'ADMIN' : permissions?.push ? 'WRITE' : 'READ';
+    const color = repository.language
+      ? (COLORS.LANGUAGE as Record<string, string>)[repository.language] ?? null
+      : null;
+
+    return {
+      id: repository.node_id,
+      databaseId: repository.id,
+      name: repository.name,
+      nameWithOwner: repository.full_name,
+      description: repository.description,
+      url: repository.html_url,
+      sshUrl: repository.ssh_url,
+      homepageUrl: repository.homepage,
+      isPrivate: repository.private,
+      visibility: repository.visibility.toUpperCase(),
+      isFork: repository.fork,
+      isArchived: repository.archived,
+      isDisabled: repository.disabled,
+      isTemplate: repository.is_template,
+      hasIssuesEnabled: repository.has_issues,
+      hasProjectsEnabled: repository.has_projects,
+      hasWikiEnabled: repository.has_wiki,
+      mergeCommitAllowed: repository.allow_merge_commit,
+      squashMergeAllowed: repository.allow_squash_merge,
+      rebaseMergeAllowed: repository.allow_rebase_merge,
+      autoMergeAllowed: repository.allow_auto_merge,
+      deleteBranchOnMerge: repository.delete_branch_on_merge,
+      diskUsage: repository.size,
+      stargazerCount: repository.stargazers_count,
+      forkCount: repository.forks_count,
+      createdAt: repository.created_at,
+      updatedAt: repository.updated_at,
+      pushedAt: repository.pushed_at,
+      viewerPermission,
+      owner: {
+        __typename: repository.owner.type === 'Organization' ? 'Organization' : 'User',
+        id: repository.owner.node_id,
+        login: repository.owner.login,
+        avatarUrl: repository.owner.avatar_url,
+        url: repository.owner.html_url,
+        databaseId: repository.owner.id,
+      },
+      primaryLanguage: repository.language ? { name: repository.language } : null,
+      licenseInfo: repository.license
+        ? {
+            id: repository.license.node_id,
+            key: repository.license.key,
+            name: repository.license.name,
+            spdxId: repository.license.spdx_id,
+            url: repository.license.url,
+          }
+        : null,
+      watchers: { totalCount: repository.watchers_count },
+      issues: { totalCount: repository.open_issues_count },
+      pullRequests: { totalCount: 0 },
+      repositoryTopics: { nodes: repository.topics.map((name) => ({ topic: { name } })) },
+      languages: {
+        edges: repository.language
+          ? [{ size: repository.size * 1024, node: { name: repository.language, color } }]
+          : [],
+      },
+      defaultBranchRef: head
+        ? {
+            name: repository.default_branch,
+            target: {
+              oid: head.sha,
+              messageHeadline: head.message.split('\n')[0],
+              committedDate: head.date,
+              author: { name: head.author.name ?? head.author.login },
+            },
+          }
+        : null,
+    };
+  }
+}
+
+export const mockServer = new MockGitHubServer({ latencyMs: config.mockApi.latencyMs });
@@ -0,0 +1,33 @@
+import { vi } from 'vitest';
+import { MockGitHubServer } from '@/mocks/server';
+
+// Shared by every test; `setup.ts` reseeds it before each one
+export const testServer = new MockGitHubServer();
+
+/**
+ * Replaces the global fetch with one answered by `testServer`, so tests run
+ * the real API client and middleware with no network. Individual tests can
+ * still queue canned responses with `vi.mocked(fetch).mockResolvedValueOnce`.
+ */
+export const installFakeFetch = () => {
+  const fetchMock = vi.fn((input: RequestInfo | URL, init: RequestInit = {}) => {
+    return testServer.handle({
+      url: input instanceof Request ? input.url : String(input),
+      method: init.method ?? 'GET',
+      headers: new Headers(init.headers),
+      ...(typeof init.body === 'string' && { body: init.body }),
+      ...(init.signal && { signal: init.signal }),
+    });
+  });
+
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+// Builds a JSON response the way GitHub sends it, for canned responses
+export const jsonResponse = (body: unknown, init: ResponseInit = {}): Response => {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...init.headers },
+  });
+};
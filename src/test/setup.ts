@@ -0,0 +1,18 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { accountKeyring } from '@/utils/accounts';
+import { installFakeFetch, testServer } from './fakeFetch';
+
+beforeEach(() => {
+  testServer.reset();
+  installFakeFetch();
+});
+
+afterEach(() => {
+  cleanup();
+  accountKeyring.clear();
+  localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
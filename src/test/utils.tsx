@@ -0,0 +1,54 @@
+import React from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, renderHook } from '@testing-library/react';
+import type { RenderOptions } from '@testing-library/react';
+import { accountKeyring } from '@/utils/accounts';
+import { DEFAULT_HOST_PROFILE } from '@/utils/host';
+import { mockUser } from '@/mocks/fixtures';
+import type { TokenPermissions } from '@/types';
+
+export const TEST_TOKEN = 'ghp_test_token';
+
+export const CLASSIC_PERMISSIONS: TokenPermissions = {
+  kind: 'classic',
+  scopes: ['repo', 'delete_repo', 'user'],
+  expiresAt: null,
+};
+
+// Stores an active account for the mock user, as if they had just signed in
+export const signInTestAccount = (permissions: TokenPermissions = CLASSIC_PERMISSIONS) => {
+  return accountKeyring.addAccount({
+    token: TEST_TOKEN,
+    host: DEFAULT_HOST_PROFILE,
+    user: mockUser,
+    permissions,
+  });
+};
+
+// Retries are off so failures surface immediately
+export const createTestQueryClient = () => {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false, gcTime: Infinity },
+      mutations: { retry: false },
+    },
+  });
+};
+
+const createWrapper = (queryClient: QueryClient) => {
+  const Wrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return Wrapper;
+};
+
+export const renderWithClient = (
+  ui: React.ReactElement,
+  { queryClient = createTestQueryClient(), ...options }: RenderOptions & { queryClient?: QueryClient } = {}
+) => {
+  return { queryClient, ...render(ui, { wrapper: createWrapper(queryClient), ...options }) };
+};
+
+export const renderHookWithClient = <T,>(hook: () => T, queryClient: QueryClient = createTestQueryClient()) => {
+  return { queryClient, ...renderHook(hook, { wrapper: createWrapper(queryClient) }) };
+};
@@ -34,6 +34,9 @@ export interface GitHubUser {
   updated_at: string;
 }
 
+// Internal repositories exist only in organizations on GitHub Enterprise; they count as private
+export type RepositoryVisibility = 'public' | 'private' | 'internal';
+
 export interface Repository {
   id: number;
   node_id: string;
@@ -103,7 +106,7 @@ export interface Repository {
   has_downloads: boolean;
   archived: boolean;
   disabled: boolean;
-  visibility: 'public' | 'private';
+  visibility: RepositoryVisibility;
   pushed_at: string;
   created_at: string;
   updated_at: string;
@@ -133,6 +136,230 @@ export interface Repository {
   forks: number;
   open_issues: number;
   watchers: number;
+  insights?: RepositoryInsights; // only present when loaded through the GraphQL client
+}
+
+export interface RepositoryLanguage {
+  name: string;
+  size: number; // bytes
+  color: string | null;
+}
+
+export interface RepositoryCommit {
+  oid: string;
+  messageHeadline: string;
+  committedDate: string;
+  authorName: string | null;
+}
+
+export interface RepositoryInsights {
+  languages: RepositoryLanguage[];
+  openPullRequests: number;
+  lastCommit: RepositoryCommit | null;
+}
+
+export interface Branch {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+  protected: boolean;
+}
+
+// A branch with its head commit resolved, as shown in the Branches tab
+export interface BranchSummary extends Branch {
+  lastCommit: RepositoryCommit | null;
+}
+
+export interface GitCommitIdentity {
+  name: string;
+  email: string;
+  date: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  node_id: string;
+  url: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: GitCommitIdentity | null;
+    committer: GitCommitIdentity | null;
+  };
+  author: Pick<GitHubUser, 'login' | 'avatar_url' | 'html_url'> | null;
+  parents: Array<{ sha: string; url: string }>;
+}
+
+export interface GitReference {
+  ref: string;
+  node_id: string;
+  url: string;
+  object: {
+    sha: string;
+    type: string;
+    url: string;
+  };
+}
+
+export interface CommitComparison {
+  status: 'identical' | 'ahead' | 'behind' | 'diverged';
+  ahead_by: number;
+  behind_by: number;
+  total_commits: number;
+}
+
+// Result of deleting several branches at once; failures do not stop the rest
+export interface BranchDeletionResult {
+  deleted: string[];
+  failed: Array<{ branch: string; message: string }>;
+}
+
+export interface RequiredStatusChecks {
+  strict: boolean;
+  contexts: string[];
+}
+
+export interface RequiredPullRequestReviews {
+  required_approving_review_count: number;
+  dismiss_stale_reviews: boolean;
+  require_code_owner_reviews: boolean;
+  require_last_push_approval: boolean;
+}
+
+// Classic branch protection as returned by the API; disabled sections are omitted
+export interface BranchProtection {
+  url: string;
+  required_status_checks?: RequiredStatusChecks;
+  required_pull_request_reviews?: RequiredPullRequestReviews;
+  enforce_admins: { enabled: boolean };
+  required_linear_history: { enabled: boolean };
+  allow_force_pushes: { enabled: boolean };
+  allow_deletions: { enabled: boolean };
+  required_conversation_resolution: { enabled: boolean };
+}
+
+// PUT body for branch protection; the first four keys are required and null disables them
+export interface BranchProtectionRequest {
+  required_status_checks: RequiredStatusChecks | null;
+  enforce_admins: boolean | null;
+  required_pull_request_reviews: RequiredPullRequestReviews | null;
+  restrictions: { users: string[]; teams: string[]; apps?: string[] } | null;
+  required_linear_history: boolean;
+  allow_force_pushes: boolean;
+  allow_deletions: boolean;
+  required_conversation_resolution: boolean;
+}
+
+export type RulesetEnforcement = 'active' | 'evaluate' | 'disabled';
+
+export type RulesetRule =
+  | {
+      type: 'pull_request';
+      parameters: {
+        required_approving_review_count: number;
+        dismiss_stale_reviews_on_push: boolean;
+        require_code_owner_review: boolean;
+        require_last_push_approval: boolean;
+        required_review_thread_resolution: boolean;
+      };
+    }
+  | {
+      type: 'required_status_checks';
+      parameters: {
+        strict_required_status_checks_policy: boolean;
+        required_status_checks: Array<{ context: string; integration_id?: number }>;
+      };
+    }
+  | { type: 'required_linear_history' }
+  | { type: 'non_fast_forward' }
+  | { type: 'deletion' };
+
+// The list endpoint returns rulesets without `conditions` and `rules`
+export interface RepositoryRuleset {
+  id: number;
+  name: string;
+  target: 'branch' | 'tag';
+  source_type: 'Repository' | 'Organization';
+  source: string;
+  enforcement: RulesetEnforcement;
+  conditions?: {
+    ref_name: {
+      include: string[];
+      exclude: string[];
+    };
+  };
+  rules?: RulesetRule[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type RulesetRequest = Pick<RepositoryRuleset, 'name' | 'target' | 'enforcement'> &
+  Required<Pick<RepositoryRuleset, 'conditions' | 'rules'>>;
+
+// Result of copying protection to several repositories; failures do not stop the rest
+export interface ProtectionCopyResult {
+  applied: string[];
+  failed: Array<{ repository: string; message: string }>;
+}
+
+// Boolean settings a batch can switch on or off; names and descriptions stay per repository
+export type BatchSettingsField =
+  | 'has_issues'
+  | 'has_projects'
+  | 'has_wiki'
+  | 'allow_merge_commit'
+  | 'allow_squash_merge'
+  | 'allow_rebase_merge'
+  | 'allow_auto_merge'
+  | 'delete_branch_on_merge';
+
+// One change applied to every selected repository
+export type BatchOperation =
+  | { kind: 'visibility'; private: boolean }
+  | { kind: 'archive'; archived: boolean }
+  | { kind: 'topics'; add: string[]; remove: string[] }
+  | { kind: 'settings'; updates: Partial<Record<BatchSettingsField, boolean>> }
+  | { kind: 'delete' };
+
+// A field a plan changes on one repository; topics are compared as whole lists
+export interface PlanChange {
+  field: BatchSettingsField | 'visibility' | 'archived' | 'topics';
+  label: string;
+  from: boolean | string | string[];
+  to: boolean | string | string[];
+}
+
+export type PlanAction = 'update' | 'delete' | 'skip';
+
+// What applying an operation would do to one repository; `reason` explains skips
+export interface PlanItem {
+  id: number;
+  owner: string;
+  name: string;
+  action: PlanAction;
+  changes: PlanChange[];
+  reason?: string;
+  // Deletions only: the repository as planned, so the audit log records what was lost
+  snapshot?: AuditValues;
+}
+
+// A dry run of a batch operation, computed from the repositories' current state
+export interface RepositoryPlan {
+  operation: BatchOperation;
+  createdAt: string;
+  items: PlanItem[];
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+// Progress of one repository in a batch; `message` explains failures and skips
+export interface BatchJob {
+  id: string;
+  label: string;
+  status: BatchJobStatus;
+  message?: string;
 }
 
 export interface FileContent {
@@ -154,11 +381,27 @@ export interface FileContent {
   };
 }
 
+// Response to writing or deleting a file through the contents API; `commit` is the new git commit
+export interface FileCommitResponse {
+  content: FileContent | null; // null once the file is deleted
+  commit: {
+    sha: string;
+    node_id: string;
+    url: string;
+    html_url: string;
+    message: string;
+    author: GitCommitIdentity;
+    committer: GitCommitIdentity;
+    parents: Array<{ sha: string; url: string; html_url: string }>;
+  };
+}
+
 export interface CreateRepositoryRequest {
   name: string;
   description?: string;
   homepage?: string;
   private?: boolean;
+  visibility?: RepositoryVisibility; // organization repositories only; takes precedence over `private`
   has_issues?: boolean;
   has_projects?: boolean;
   has_wiki?: boolean;
@@ -192,6 +435,33 @@ export interface UpdateRepositoryRequest {
   archived?: boolean;
 }
 
+// GitHub answers with 202 Accepted; the move may finish shortly after
+export interface TransferRepositoryRequest {
+  new_owner: string;
+  new_name?: string;
+  team_ids?: number[]; // organization targets only
+}
+
+export interface Organization {
+  login: string;
+  id: number;
+  node_id: string;
+  url: string;
+  repos_url: string;
+  avatar_url: string;
+  description: string | null;
+}
+
+export interface Team {
+  id: number;
+  node_id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  privacy: 'closed' | 'secret';
+  permission: string;
+}
+
 export interface UploadFileRequest {
   path: string;
   content: string;
@@ -234,6 +504,15 @@ export interface RepositoryStats {
   averageStars: number;
 }
 
+// One row of the dashboard's per-owner breakdown
+export interface OwnerSummary {
+  login: string;
+  avatarUrl: string;
+  isOrganization: boolean;
+  isViewer: boolean; // the signed-in user's own account
+  stats: RepositoryStats;
+}
+
 export interface LanguageStats {
   name: string;
   value: number;
@@ -246,6 +525,23 @@ export interface ChartData {
   color?: string;
 }
 
+// Form model shared by the branch protection and ruleset editors
+export interface ProtectionSettings {
+  requirePullRequest: boolean;
+  requiredApprovals: number;
+  dismissStaleReviews: boolean;
+  requireCodeOwnerReviews: boolean;
+  requireLastPushApproval: boolean;
+  requireConversationResolution: boolean;
+  requireStatusChecks: boolean;
+  strictStatusChecks: boolean;
+  statusChecks: string[];
+  requireLinearHistory: boolean;
+  allowForcePushes: boolean;
+  allowDeletions: boolean;
+  enforceAdmins: boolean; // branch protection only; rulesets apply to admins unless they are bypass actors
+}
+
 export interface GitCommands {
   clone: string;
   sshClone: string;
@@ -255,6 +551,37 @@ export interface GitCommands {
   createBranch: string;
 }
 
+// Rate limit types
+export type RateLimitResource = 'core' | 'search' | 'graphql';
+
+export interface RateLimitBucket {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: number; // epoch milliseconds
+}
+
+export interface RateLimitState {
+  core: RateLimitBucket | null;
+  search: RateLimitBucket | null;
+  graphql: RateLimitBucket | null;
+  pausedUntil: number | null; // epoch milliseconds while secondary limits hold requests
+}
+
+// Session types
+export interface SessionState {
+  expiredAccountId: string | null; // set while a 401 holds requests for re-authentication
+  pausedRequests: number;
+}
+
+// HTTP cache types
+export interface HttpCacheEntry {
+  etag: string | null;
+  lastModified: string | null;
+  body: unknown;
+  storedAt: number;
+}
+
 // Error types
 export interface GitHubApiError {
   message: string;
@@ -295,6 +622,9 @@ export interface ConfirmDeleteModalProps extends ModalProps {
   onConfirm: (repo: Repository) => Promise<void>;
 }
 
+// Repository list source: REST /user/repos or the bulk GraphQL query
+export type RepositorySource = 'rest' | 'graphql';
+
 // Hook return types
 export interface UseRepositoriesReturn {
   repositories: Repository[];
@@ -311,47 +641,239 @@ export interface UseUserReturn {
 
 // Form types
 export interface CreateRepoFormData {
+  owner: string; // the user's own login or one of their organizations
   name: string;
   description: string;
-  private: boolean;
+  visibility: RepositoryVisibility;
   autoInit: boolean;
 }
 
+// Everything the Edit tab can change; nullable text fields are edited as ''
 export interface EditRepoFormData {
   name: string;
   description: string;
+  homepage: string;
+  has_issues: boolean;
+  has_projects: boolean;
+  has_wiki: boolean;
+  is_template: boolean;
+  allow_merge_commit: boolean;
+  allow_squash_merge: boolean;
+  allow_rebase_merge: boolean;
+  allow_auto_merge: boolean;
+  delete_branch_on_merge: boolean;
+}
+
+// One row of the diff preview shown before saving
+export interface RepositorySettingChange {
+  field: keyof EditRepoFormData;
+  label: string;
+  from: string | boolean;
+  to: string | boolean;
 }
 
 // Filter and sort types
 export type VisibilityFilter = 'all' | 'public' | 'private';
+export type ArchivedFilter = 'all' | 'active' | 'archived';
 export type ViewMode = 'grid' | 'list';
 export type SortOption = 'updated' | 'created' | 'name' | 'stars';
 
+// Host types: github.com or a GitHub Enterprise Server instance
+export type HostKind = 'github' | 'enterprise';
+
+export interface HostProfile {
+  kind: HostKind;
+  url: string; // web origin, e.g. https://github.com or https://ghe.example.com
+}
+
+export interface HostEndpoints {
+  apiUrl: string;
+  graphqlUrl: string;
+  webUrl: string;
+  sshHost: string;
+}
+
+// Token scope types
+export type TokenKind = 'classic' | 'oauth' | 'fine-grained' | 'unknown';
+
+export interface TokenPermissions {
+  kind: TokenKind;
+  scopes: string[] | null; // null when the token does not report scopes (fine-grained)
+  expiresAt: number | null; // epoch ms, null for tokens without an expiry
+}
+
+export interface TokenValidation {
+  user: GitHubUser;
+  permissions: TokenPermissions;
+}
+
+// Account keyring types
+export interface StoredAccount {
+  id: string;
+  label: string;
+  token: string;
+  host: HostProfile;
+  user: GitHubUser | null; // cached profile for the account switcher
+  permissions: TokenPermissions | null; // null until the token has been inspected
+  addedAt: number;
+}
+
+export interface AccountKeyringState {
+  accounts: StoredAccount[]; // tokens are empty strings while the vault is locked
+  activeId: string | null;
+  vaultStatus: VaultStatus;
+  idleTimeoutMinutes: number | null; // auto-lock delay, null when the vault is disabled
+}
+
+// Token vault types
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+export interface EncryptedSecret {
+  iv: string; // base64
+  ciphertext: string; // base64, includes the AES-GCM tag
+}
+
+export interface VaultMetadata {
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedSecret; // known plaintext used to verify the passphrase
+  idleTimeoutMinutes: number;
+}
+
+// Shape written to localStorage; plaintext tokens are omitted while the vault is enabled
+export interface PersistedAccount extends Omit<StoredAccount, 'token'> {
+  token?: string;
+  encryptedToken?: EncryptedSecret;
+}
+
+export interface PersistedKeyring {
+  accounts: PersistedAccount[];
+  activeId: string | null;
+  vault?: VaultMetadata;
+}
+
+// Audit log types
+export type AuditAction =
+  | 'repository.create'
+  | 'repository.update'
+  | 'repository.visibility'
+  | 'repository.archive'
+  | 'repository.unarchive'
+  | 'repository.transfer'
+  | 'repository.topics'
+  | 'repository.delete'
+  | 'file.upload'
+  | 'file.delete'
+  | 'branch.create'
+  | 'branch.delete'
+  | 'branch.protect'
+  | 'branch.unprotect'
+  | 'ruleset.create'
+  | 'ruleset.update'
+  | 'ruleset.delete'
+  | 'protection.copy';
+
+export type AuditValues = Record<string, string | number | boolean | string[] | null>;
+
+// One mutation attempted through the app; `before` and `after` hold only the fields it touched
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  accountId: string;
+  accountLogin: string;
+  host: string;
+  action: AuditAction;
+  repository: string; // owner/name at the time of the change
+  path?: string; // the file for file actions, the branch for branch actions
+  before: AuditValues | null;
+  after: AuditValues | null;
+  result: 'success' | 'failure';
+  error?: string;
+}
+
+// OAuth device flow types
+export interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number; // seconds
+  interval: number; // minimum seconds between polls
+}
+
 // Environment configuration types
 export interface Config {
-  isDevelopment: boolean;
   githubApi: {
     baseUrl: string;
     tokenKey: string;
+    perPage: number;
+    maxRateLimitRetries: number;
+    logRequests: boolean;
+    graphqlUrl: string;
+    webUrl: string;
+    hostKey: string;
+    accountsKey: string;
+  };
+  oauth: {
+    clientId: string;
+    proxyUrl: string;
+  };
+  httpCache: {
+    dbName: string;
+  };
+  vault: {
+    pbkdf2Iterations: number;
+    defaultIdleTimeoutMinutes: number;
+    idleTimeoutOptions: readonly number[];
+  };
+  tokenExpiry: {
+    reminderDays: number;
+  };
+  mockApi: {
+    enabled: boolean;
+    latencyMs: number;
   };
   requiredScopes: readonly string[];
 }
 
-// Query keys for React Query
+// Query keys for React Query, namespaced per account so switching accounts
+// never serves another account's cached data
 export const QUERY_KEYS = {
-  repositories: ['repositories'] as const,
-  repository: (owner: string, repo: string) => ['repository', owner, repo] as const,
-  user: ['user'] as const,
-  repositoryContents: (owner: string, repo: string, path?: string) => 
-    ['repository-contents', owner, repo, path] as const,
+  account: (accountId: string) => ['account', accountId] as const,
+  // prefix of every repository list query
+  repositories: (accountId: string) => ['account', accountId, 'repositories'] as const,
+  repositoriesFrom: (accountId: string, source: RepositorySource) =>
+    ['account', accountId, 'repositories', source] as const,
+  repository: (accountId: string, owner: string, repo: string) =>
+    ['account', accountId, 'repository', owner, repo] as const,
+  user: (accountId: string) => ['account', accountId, 'user'] as const,
+  repositoryContents: (accountId: string, owner: string, repo: string, path?: string) => 
+    ['account', accountId, 'repository-contents', owner, repo, path] as const,
+  branches: (accountId: string, owner: string, repo: string) =>
+    ['account', accountId, 'branches', owner, repo] as const,
+  mergedBranches: (accountId: string, owner: string, repo: string, base: string) =>
+    ['account', accountId, 'branches', owner, repo, 'merged', base] as const,
+  branchProtection: (accountId: string, owner: string, repo: string, branch: string) =>
+    ['account', accountId, 'branch-protection', owner, repo, branch] as const,
+  rulesets: (accountId: string, owner: string, repo: string) =>
+    ['account', accountId, 'rulesets', owner, repo] as const,
+  organizations: (accountId: string) => ['account', accountId, 'organizations'] as const,
+  teams: (accountId: string, org: string) => ['account', accountId, 'teams', org] as const,
 } as const;
 
 // Mutation keys for React Query
 export const MUTATION_KEYS = {
   createRepository: ['create-repository'] as const,
   updateRepository: ['update-repository'] as const,
-  deleteRepository: ['delete-repository'] as const,
   uploadFile: ['upload-file'] as const,
   deleteFile: ['delete-file'] as const,
-  toggleVisibility: ['toggle-visibility'] as const,
+  transferRepository: ['transfer-repository'] as const,
+  createBranch: ['create-branch'] as const,
+  deleteBranches: ['delete-branches'] as const,
+  setDefaultBranch: ['set-default-branch'] as const,
+  saveBranchProtection: ['save-branch-protection'] as const,
+  removeBranchProtection: ['remove-branch-protection'] as const,
+  saveRuleset: ['save-ruleset'] as const,
+  deleteRuleset: ['delete-ruleset'] as const,
+  copyProtection: ['copy-protection'] as const,
+  replaceTopics: ['replace-topics'] as const,
 } as const;
\ No newline at end of file
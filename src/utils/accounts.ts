@@ -0,0 +1,281 @@
+import { config } from '@/config/environment';
+import { VaultError, createVault, decryptSecret, encryptSecret, openVault } from '@/utils/vault';
+import type {
+  AccountKeyringState,
+  EncryptedSecret,
+  GitHubUser,
+  HostProfile,
+  PersistedKeyring,
+  StoredAccount,
+  TokenPermissions,
+  VaultMetadata,
+} from '@/types';
+
+type Listener = () => void;
+
+const EMPTY_KEYRING: PersistedKeyring = { accounts: [], activeId: null };
+
+const createAccountId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+const isSameIdentity = (account: StoredAccount, host: HostProfile, login: string) => {
+  return account.host.url === host.url && account.user?.login === login;
+};
+
+/**
+ * Named GitHub accounts (token, host and cached profile) persisted in
+ * localStorage. Exactly one account is active; API clients read its token and
+ * host on every request so switching takes effect immediately.
+ *
+ * With the vault enabled, tokens are stored AES-GCM encrypted and only held
+ * in memory while unlocked; locking wipes them until the passphrase is entered.
+ */
+class AccountKeyring {
+  private readonly persisted: PersistedKeyring = this.load();
+  private vault: VaultMetadata | null = this.persisted.vault ?? null;
+  private key: CryptoKey | null = null;
+  private readonly sealedTokens = new Map<string, EncryptedSecret>(
+    this.persisted.accounts.flatMap((account) =>
+      account.encryptedToken ? [[account.id, account.encryptedToken] as const] : []
+    )
+  );
+  private persistQueue: Promise<void> = Promise.resolve();
+  private state: AccountKeyringState = {
+    accounts: this.persisted.accounts.map(({ encryptedToken: _sealed, ...account }) => ({
+      ...account,
+      token: account.token ?? '',
+    })),
+    activeId: this.persisted.activeId,
+    vaultStatus: this.vault ? 'locked' : 'disabled',
+    idleTimeoutMinutes: this.vault?.idleTimeoutMinutes ?? null,
+  };
+  private readonly listeners = new Set<Listener>();
+
+  private load(): PersistedKeyring {
+    const stored = localStorage.getItem(config.githubApi.accountsKey);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as PersistedKeyring;
+      } catch {
+        return EMPTY_KEYRING;
+      }
+    }
+
+    return this.migrateLegacyToken();
+  }
+
+  // Moves a token saved by the single-account version into the keyring
+  private migrateLegacyToken(): PersistedKeyring {
+    const token = localStorage.getItem(config.githubApi.tokenKey);
+    if (!token) return EMPTY_KEYRING;
+
+    let host: HostProfile = { kind: 'github', url: config.githubApi.webUrl };
+    const storedHost = localStorage.getItem(config.githubApi.hostKey);
+    if (storedHost) {
+      try {
+        host = JSON.parse(storedHost) as HostProfile;
+      } catch {
+        // Keep the github.com default
+      }
+    }
+
+    const account: StoredAccount = {
+      id: createAccountId(),
+      label: 'Default',
+      token,
+      host,
+      user: null,
+      permissions: null,
+      addedAt: Date.now(),
+    };
+    const migrated = { accounts: [account], activeId: account.id };
+
+    localStorage.setItem(config.githubApi.accountsKey, JSON.stringify(migrated));
+    localStorage.removeItem(config.githubApi.tokenKey);
+    localStorage.removeItem(config.githubApi.hostKey);
+    return migrated;
+  }
+
+  private setState(state: AccountKeyringState) {
+    this.state = state;
+    this.persist();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Writes are serialized because sealing tokens is async; while locked the
+  // previously sealed tokens are written back unchanged
+  private persist() {
+    const { accounts, activeId } = this.state;
+    const vault = this.vault;
+    const key = this.key;
+
+    this.persistQueue = this.persistQueue
+      .then(async () => {
+        const persisted: PersistedKeyring = vault
+          ? {
+              accounts: await Promise.all(accounts.map(async ({ token, ...account }) => {
+                if (key && token) {
+                  this.sealedTokens.set(account.id, await encryptSecret(key, token));
+                }
+                const encryptedToken = this.sealedTokens.get(account.id);
+                return { ...account, ...(encryptedToken && { encryptedToken }) };
+              })),
+              activeId,
+              vault,
+            }
+          : { accounts, activeId };
+
+        localStorage.setItem(config.githubApi.accountsKey, JSON.stringify(persisted));
+      })
+      .catch((error) => {
+        console.error('Failed to persist account keyring:', error);
+      });
+  }
+
+  private assertUnlocked() {
+    if (this.state.vaultStatus === 'locked') {
+      throw new VaultError('Unlock the vault before changing accounts', 'locked');
+    }
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): AccountKeyringState => this.state;
+
+  getActiveAccount(): StoredAccount | null {
+    return this.state.accounts.find((account) => account.id === this.state.activeId) ?? null;
+  }
+
+  // Null while signed out or while the vault is locked
+  getActiveToken(): string | null {
+    return this.getActiveAccount()?.token || null;
+  }
+
+  // Adds an account and makes it active; signing in again as the same user on
+  // the same host refreshes the existing entry instead of duplicating it
+  addAccount(params: {
+    token: string;
+    host: HostProfile;
+    user: GitHubUser;
+    permissions: TokenPermissions;
+    label?: string;
+  }): StoredAccount {
+    this.assertUnlocked();
+
+    const existing = this.state.accounts.find((account) =>
+      isSameIdentity(account, params.host, params.user.login)
+    );
+
+    const account: StoredAccount = {
+      id: existing?.id ?? createAccountId(),
+      label: params.label?.trim() || existing?.label || params.user.login,
+      token: params.token,
+      host: params.host,
+      user: params.user,
+      permissions: params.permissions,
+      addedAt: existing?.addedAt ?? Date.now(),
+    };
+
+    this.setState({
+      ...this.state,
+      accounts: existing
+        ? this.state.accounts.map((item) => (item.id === existing.id ? account : item))
+        : [...this.state.accounts, account],
+      activeId: account.id,
+    });
+
+    return account;
+  }
+
+  updateAccount(id: string, updates: Partial<Omit<StoredAccount, 'id'>>) {
+    this.setState({
+      ...this.state,
+      accounts: this.state.accounts.map((account) =>
+        account.id === id ? { ...account, ...updates } : account
+      ),
+    });
+  }
+
+  setActive(id: string) {
+    if (!this.state.accounts.some((account) => account.id === id)) return;
+    this.setState({ ...this.state, activeId: id });
+  }
+
+  // Removes an account; if it was active, the first remaining account becomes active
+  removeAccount(id: string) {
+    this.sealedTokens.delete(id);
+    const accounts = this.state.accounts.filter((account) => account.id !== id);
+    const activeId = this.state.activeId === id ? accounts[0]?.id ?? null : this.state.activeId;
+    this.setState({ ...this.state, accounts, activeId });
+  }
+
+  async enableVault(passphrase: string, idleTimeoutMinutes: number): Promise<void> {
+    if (this.state.vaultStatus !== 'disabled') return;
+
+    const { key, metadata } = await createVault(passphrase, idleTimeoutMinutes);
+    this.key = key;
+    this.vault = metadata;
+    this.setState({ ...this.state, vaultStatus: 'unlocked', idleTimeoutMinutes });
+  }
+
+  // Throws VaultError('invalid_passphrase') when the passphrase does not match
+  async unlockVault(passphrase: string): Promise<void> {
+    if (!this.vault || this.state.vaultStatus !== 'locked') return;
+
+    const key = await openVault(passphrase, this.vault);
+    const accounts = await Promise.all(this.state.accounts.map(async (account) => {
+      const sealed = this.sealedTokens.get(account.id);
+      return sealed ? { ...account, token: await decryptSecret(key, sealed) } : account;
+    }));
+
+    this.key = key;
+    this.setState({ ...this.state, accounts, vaultStatus: 'unlocked' });
+  }
+
+  lockVault() {
+    if (this.state.vaultStatus !== 'unlocked') return;
+
+    this.key = null;
+    this.setState({
+      ...this.state,
+      accounts: this.state.accounts.map((account) => ({ ...account, token: '' })),
+      vaultStatus: 'locked',
+    });
+  }
+
+  // Stores tokens in plaintext again; only possible while unlocked
+  disableVault() {
+    if (this.state.vaultStatus !== 'unlocked') return;
+
+    this.key = null;
+    this.vault = null;
+    this.sealedTokens.clear();
+    this.setState({ ...this.state, vaultStatus: 'disabled', idleTimeoutMinutes: null });
+  }
+
+  // Last resort for a forgotten passphrase: drops every account and the vault
+  clear() {
+    this.key = null;
+    this.vault = null;
+    this.sealedTokens.clear();
+    this.setState({ accounts: [], activeId: null, vaultStatus: 'disabled', idleTimeoutMinutes: null });
+  }
+
+  setIdleTimeout(idleTimeoutMinutes: number) {
+    if (!this.vault) return;
+
+    this.vault = { ...this.vault, idleTimeoutMinutes };
+    this.setState({ ...this.state, idleTimeoutMinutes });
+  }
+}
+
+export const accountKeyring = new AccountKeyring();
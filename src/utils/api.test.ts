@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { githubApi, GitHubApiError } from './api';
+import { buildRepository } from '@/mocks/fixtures';
+import { jsonResponse, testServer } from '@/test/fakeFetch';
+import { signInTestAccount, TEST_TOKEN } from '@/test/utils';
+
+const requestedUrls = () => vi.mocked(fetch).mock.calls.map(([input]) => String(input));
+
+describe('GitHubApi', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  describe('pagination', () => {
+    it('follows Link headers and reports the running total after each page', async () => {
+      const firstPage = [buildRepository({ name: 'one' }), buildRepository({ name: 'two' })];
+      const secondPage = [buildRepository({ name: 'three' })];
+      const nextUrl = 'https://api.github.com/user/repos?sort=updated&per_page=100&page=2';
+
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(jsonResponse(firstPage, { headers: { Link: `<${nextUrl}>; rel="next", <${nextUrl}>; rel="last"` } }))
+        .mockResolvedValueOnce(jsonResponse(secondPage));
+
+      const onPage = vi.fn();
+      const repositories = await githubApi.fetchRepositories(onPage);
+
+      expect(repositories.map((repo) => repo.name)).toEqual(['one', 'two', 'three']);
+      expect(onPage).toHaveBeenCalledTimes(2);
+      expect(onPage.mock.calls[0]?.[0]).toHaveLength(2);
+      expect(onPage.mock.calls[1]?.[0]).toHaveLength(3);
+      expect(requestedUrls()).toEqual([
+        'https://api.github.com/user/repos?sort=updated&per_page=100',
+        nextUrl,
+      ]);
+    });
+
+    it('stops after a page without a next link', async () => {
+      const repositories = await githubApi.fetchRepositories();
+
+      expect(repositories).toHaveLength(testServer.getRepositories().length);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('sends the active account token', async () => {
+    await githubApi.getCurrentUser();
+
+    const [, init] = vi.mocked(fetch).mock.calls[0] ?? [];
+    expect(new Headers(init?.headers).get('Authorization')).toBe(`Bearer ${TEST_TOKEN}`);
+  });
+
+  it('explains duplicate repository names', async () => {
+    await expect(githubApi.createRepository({ name: 'dotfiles' })).rejects.toThrow(
+      "Repository name 'dotfiles' already exists for your account. Please choose a different name."
+    );
+  });
+
+  it('creates organization repositories under the organization, including internal ones', async () => {
+    const repository = await githubApi.createRepository({ name: 'handbook', visibility: 'internal' }, 'vlast-labs');
+
+    expect(requestedUrls()).toContain('https://api.github.com/orgs/vlast-labs/repos');
+    expect(repository).toMatchObject({ full_name: 'vlast-labs/handbook', visibility: 'internal', private: true });
+    await expect(githubApi.createRepository({ name: 'vlast-web' }, 'vlast-labs')).rejects.toThrow(
+      "Repository name 'vlast-web' already exists in vlast-labs. Please choose a different name."
+    );
+  });
+
+  it('rejects internal visibility for personal repositories', async () => {
+    await expect(githubApi.createRepository({ name: 'handbook', visibility: 'internal' })).rejects.toThrow(
+      "'internal' visibility is not available for personal repositories."
+    );
+  });
+
+  it('surfaces GitHub errors as GitHubApiError', async () => {
+    const error = await githubApi.fetchRepository('octo-dev', 'missing').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ status: 404, message: 'Not Found' });
+  });
+
+  it('resolves deletes that return 204 No Content', async () => {
+    await expect(githubApi.deleteRepository('octo-dev', 'dotfiles')).resolves.toBeUndefined();
+    expect(testServer.getRepositories().some((repo) => repo.name === 'dotfiles')).toBe(false);
+  });
+});
@@ -1,103 +1,152 @@
 import { config } from '@/config/environment';
+import { getActiveHostEndpoints, getActiveHostProfile, resolveHostEndpoints } from '@/utils/host';
+import { getTokenPermissions } from '@/utils/scopes';
+import {
+  authenticate,
+  cacheResponses,
+  createApiRequest,
+  createPipeline,
+  dedupeRequests,
+  fetchTransport,
+  handleExpiredSession,
+  logRequests,
+  normalizeErrors,
+  retryRateLimits,
+} from '@/utils/middleware';
+import type { ApiHandler, ApiRequestOptions } from '@/utils/middleware';
 import type {
   Repository,
   GitHubUser,
+  FileCommitResponse,
   FileContent,
+  HostProfile,
+  TokenPermissions,
+  TokenValidation,
+  Branch,
+  GitCommit,
+  GitReference,
+  CommitComparison,
+  BranchProtection,
+  BranchProtectionRequest,
+  RepositoryRuleset,
+  RulesetRequest,
   CreateRepositoryRequest,
   UpdateRepositoryRequest,
+  TransferRepositoryRequest,
+  Organization,
+  Team,
   UploadFileRequest,
   DeleteFileRequest,
 } from '@/types';
+import { GitHubApiError } from '@/utils/apiErrors';
 
-export class GitHubApiError extends Error {
-  public readonly status?: number;
-  public readonly errors?: Array<{
-    resource: string;
-    field: string;
-    code: string;
-  }>;
-
-  constructor(message: string, status?: number, errors?: Array<{
-    resource: string;
-    field: string;
-    code: string;
-  }>) {
-    super(message);
-    this.name = 'GitHubApiError';
-    if (status !== undefined) {
-      this.status = status;
-    }
-    if (errors !== undefined) {
-      this.errors = errors;
-    }
-  }
-}
+export { GitHubApiError, RateLimitError } from '@/utils/apiErrors';
+
+// The mock server is only bundled into the page when mock mode is on
+const mockTransport: ApiHandler = async (request) => {
+  const { mockServer } = await import('@/mocks/server');
+  return mockServer.handle(request);
+};
 
+// Branch names may contain slashes, which GitHub expects unescaped in ref paths
+const encodeRef = (ref: string): string => ref.split('/').map(encodeURIComponent).join('/');
+
+// 204 No Content (e.g. DELETE) has no body to parse
+const readJson = async <T>(response: Response): Promise<T> => {
+  if (response.status === 204) return undefined as T;
+  return response.json() as Promise<T>;
+};
+
+/**
+ * The single GitHub REST client. Every request, including the GraphQL
+ * client's, runs through one middleware pipeline so authentication, rate
+ * limiting, caching and error handling behave the same everywhere.
+ */
 class GitHubApi {
-  private readonly baseUrl = config.githubApi.baseUrl;
-  private readonly tokenKey = config.githubApi.tokenKey;
+  // Resolved per call so a host switch takes effect without reloading
+  private get baseUrl(): string {
+    return getActiveHostEndpoints().apiUrl;
+  }
 
-  private async getHeaders(): Promise<HeadersInit> {
-    const token = localStorage.getItem(this.tokenKey);
-    if (!token) {
-      throw new GitHubApiError('No GitHub token found. Please submit your token first.');
-    }
-    
-    return {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'Content-Type': 'application/json',
-    };
+  private readonly perPage = config.githubApi.perPage;
+
+  // Outermost first: errors are normalized after every other middleware ran
+  readonly send: ApiHandler = createPipeline(
+    [
+      normalizeErrors,
+      handleExpiredSession,
+      logRequests,
+      dedupeRequests,
+      authenticate,
+      cacheResponses,
+      retryRateLimits,
+    ],
+    config.mockApi.enabled ? mockTransport : fetchTransport
+  );
+
+  private async call<T>(url: string, options: ApiRequestOptions = {}): Promise<T> {
+    const response = await this.send(createApiRequest(url, options));
+    return readJson<T>(response);
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorData: GitHubApiError | undefined;
-      
-      try {
-        errorData = await response.json() as GitHubApiError;
-      } catch {
-        // If JSON parsing fails, use default error
-      }
+  // Extracts the rel="next" URL from a GitHub Link header, if any
+  private getNextPageUrl(linkHeader: string | null): string | null {
+    if (!linkHeader) return null;
 
-      throw new GitHubApiError(
-        errorData?.message || `Request failed with status ${response.status}: ${response.statusText}`,
-        response.status,
-        errorData?.errors
-      );
+    for (const part of linkHeader.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+      if (match?.[1]) {
+        return match[1];
+      }
     }
 
-    return response.json() as Promise<T>;
+    return null;
   }
 
-  async fetchRepositories(): Promise<Repository[]> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/user/repos?per_page=100&sort=updated`, {
-      headers,
-    });
+  // Follows Link headers page by page, yielding each page as it arrives
+  private async *paginate<T>(path: string, signal?: AbortSignal): AsyncGenerator<T[]> {
+    const separator = path.includes('?') ? '&' : '?';
+    let url: string | null = `${this.baseUrl}${path}${separator}per_page=${this.perPage}`;
 
-    return this.handleResponse<Repository[]>(response);
+    while (url) {
+      const response = await this.send(createApiRequest(url, { signal }));
+      yield await readJson<T[]>(response);
+      url = this.getNextPageUrl(response.headers.get('Link'));
+    }
   }
 
-  async fetchRepository(owner: string, repo: string): Promise<Repository> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}`, {
-      headers,
-    });
+  // Collects every page of a list endpoint, reporting the running total after each page
+  private async fetchAllPages<T>(
+    path: string,
+    onPage?: (items: T[]) => void,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    for await (const page of this.paginate<T>(path, signal)) {
+      items.push(...page);
+      onPage?.([...items]);
+    }
 
-    return this.handleResponse<Repository>(response);
+    return items;
   }
 
-  async createRepository(params: CreateRepositoryRequest): Promise<Repository> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/user/repos`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(params),
-    });
+  async fetchRepositories(
+    onPage?: (repositories: Repository[]) => void,
+    signal?: AbortSignal
+  ): Promise<Repository[]> {
+    return this.fetchAllPages<Repository>('/user/repos?sort=updated', onPage, signal);
+  }
 
+  async fetchRepository(owner: string, repo: string, signal?: AbortSignal): Promise<Repository> {
+    return this.call<Repository>(`${this.baseUrl}/repos/${owner}/${repo}`, { cache: true, signal });
+  }
+
+  // Creates under the user's own account, or under `org` when given
+  async createRepository(params: CreateRepositoryRequest, org?: string, signal?: AbortSignal): Promise<Repository> {
+    const path = org ? `/orgs/${org}/repos` : '/user/repos';
     try {
-      return await this.handleResponse<Repository>(response);
+      return await this.call<Repository>(`${this.baseUrl}${path}`, { method: 'POST', body: params, signal });
     } catch (error) {
       if (error instanceof GitHubApiError && error.status === 422 && error.errors) {
         const nameError = error.errors.find(
@@ -105,7 +154,13 @@ class GitHubApi {
         );
         if (nameError) {
           throw new GitHubApiError(
-            `Repository name '${params.name}' already exists for your account. Please choose a different name.`,
+            `Repository name '${params.name}' already exists ${org ? `in ${org}` : 'for your account'}. Please choose a different name.`,
+            error.status
+          );
+        }
+        if (error.errors.some((err) => err.field === 'visibility')) {
+          throw new GitHubApiError(
+            `'${params.visibility}' visibility is not available ${org ? `in ${org}` : 'for personal repositories'}.`,
             error.status
           );
         }
@@ -117,63 +172,105 @@ class GitHubApi {
   async updateRepository(
     owner: string,
     repo: string,
-    updates: UpdateRepositoryRequest
+    updates: UpdateRepositoryRequest,
+    signal?: AbortSignal
   ): Promise<Repository> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}`, {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify(updates),
-    });
+    return this.call<Repository>(`${this.baseUrl}/repos/${owner}/${repo}`, { method: 'PATCH', body: updates, signal });
+  }
 
-    return this.handleResponse<Repository>(response);
+  // Replaces the whole topic list; GitHub answers with the stored names
+  async replaceTopics(owner: string, repo: string, names: string[], signal?: AbortSignal): Promise<string[]> {
+    try {
+      const response = await this.call<{ names: string[] }>(`${this.baseUrl}/repos/${owner}/${repo}/topics`, {
+        method: 'PUT',
+        body: { names },
+        signal,
+      });
+      return response.names;
+    } catch (error) {
+      if (
+        error instanceof GitHubApiError &&
+        error.status === 422 &&
+        error.errors?.some((err) => err.field === 'topics')
+      ) {
+        throw new GitHubApiError(
+          'Topics must start with a lowercase letter or number, use only letters, numbers and hyphens, ' +
+            'and a repository can have at most 20 topics.',
+          error.status,
+          error.errors
+        );
+      }
+      throw error;
+    }
   }
 
-  async deleteRepository(owner: string, repo: string): Promise<void> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}`, {
-      method: 'DELETE',
-      headers,
-    });
+  async deleteRepository(owner: string, repo: string, signal?: AbortSignal): Promise<void> {
+    await this.call<void>(`${this.baseUrl}/repos/${owner}/${repo}`, { method: 'DELETE', signal });
+  }
 
-    if (!response.ok) {
-      throw new GitHubApiError(`Failed to delete repository: ${response.statusText}`, response.status);
+  async toggleRepositoryVisibility(
+    owner: string,
+    repo: string,
+    makePrivate: boolean,
+    signal?: AbortSignal
+  ): Promise<Repository> {
+    return this.updateRepository(owner, repo, { private: makePrivate }, signal);
+  }
+
+  async transferRepository(
+    owner: string,
+    repo: string,
+    request: TransferRepositoryRequest,
+    signal?: AbortSignal
+  ): Promise<Repository> {
+    try {
+      return await this.call<Repository>(`${this.baseUrl}/repos/${owner}/${repo}/transfer`, {
+        method: 'POST',
+        body: request,
+        signal,
+      });
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 422) {
+        if (error.errors?.some((err) => err.field === 'new_owner')) {
+          throw new GitHubApiError(`No user or organization named '${request.new_owner}' can receive this repository.`, 422);
+        }
+        if (error.errors?.some((err) => err.field === 'name' && err.code === 'already_exists')) {
+          const name = request.new_name ?? repo;
+          throw new GitHubApiError(`${request.new_owner} already has a repository named '${name}'.`, 422);
+        }
+      }
+      throw error;
     }
   }
 
-  async toggleRepositoryVisibility(
+  async setRepositoryArchived(
     owner: string,
     repo: string,
-    makePrivate: boolean
+    archived: boolean,
+    signal?: AbortSignal
   ): Promise<Repository> {
-    return this.updateRepository(owner, repo, { private: makePrivate });
+    return this.updateRepository(owner, repo, { archived }, signal);
   }
 
   async getRepositoryContents(
     owner: string,
     repo: string,
-    path: string = ''
+    path: string = '',
+    signal?: AbortSignal
   ): Promise<FileContent[]> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`, {
-      headers,
-    });
-
-    return this.handleResponse<FileContent[]>(response);
+    return this.call<FileContent[]>(`${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`, { cache: true, signal });
   }
 
-  async getFileContent(owner: string, repo: string, path: string): Promise<FileContent> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`, {
-      headers,
-    });
-
-    return this.handleResponse<FileContent>(response);
+  async getFileContent(owner: string, repo: string, path: string, signal?: AbortSignal): Promise<FileContent> {
+    return this.call<FileContent>(`${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`, { cache: true, signal });
   }
 
-  async uploadFile(owner: string, repo: string, params: UploadFileRequest): Promise<any> {
-    const headers = await this.getHeaders();
-    
+  async uploadFile(
+    owner: string,
+    repo: string,
+    params: UploadFileRequest,
+    signal?: AbortSignal
+  ): Promise<FileCommitResponse> {
     // Convert file content to base64 if it's not already
     const base64Content = btoa(unescape(encodeURIComponent(params.content)));
     
@@ -186,54 +283,214 @@ class GitHubApi {
       ...(params.author && { author: params.author }),
     };
 
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}/contents/${params.path}`, {
+    return this.call<FileCommitResponse>(`${this.baseUrl}/repos/${owner}/${repo}/contents/${params.path}`, {
       method: 'PUT',
-      headers,
-      body: JSON.stringify(body),
+      body,
+      signal,
     });
-
-    return this.handleResponse<any>(response);
   }
 
-  async deleteFile(owner: string, repo: string, params: DeleteFileRequest): Promise<any> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}/contents/${params.path}`, {
+  async deleteFile(
+    owner: string,
+    repo: string,
+    params: DeleteFileRequest,
+    signal?: AbortSignal
+  ): Promise<FileCommitResponse> {
+    return this.call<FileCommitResponse>(`${this.baseUrl}/repos/${owner}/${repo}/contents/${params.path}`, {
       method: 'DELETE',
-      headers,
-      body: JSON.stringify({
+      body: {
         message: params.message,
         sha: params.sha,
         ...(params.branch && { branch: params.branch }),
         ...(params.committer && { committer: params.committer }),
         ...(params.author && { author: params.author }),
-      }),
+      },
+      signal,
     });
+  }
 
-    return this.handleResponse<any>(response);
+  async fetchBranches(owner: string, repo: string, signal?: AbortSignal): Promise<Branch[]> {
+    return this.fetchAllPages<Branch>(`/repos/${owner}/${repo}/branches`, undefined, signal);
   }
 
-  async validateToken(token: string): Promise<boolean> {
+  async getBranch(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<Branch> {
+    return this.call<Branch>(`${this.baseUrl}/repos/${owner}/${repo}/branches/${encodeRef(branch)}`, { signal });
+  }
+
+  // `ref` may be a branch, tag or commit SHA; responses for a SHA never change, so they are cached
+  async getCommit(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<GitCommit> {
+    return this.call<GitCommit>(`${this.baseUrl}/repos/${owner}/${repo}/commits/${encodeRef(ref)}`, { cache: true, signal });
+  }
+
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string,
+    signal?: AbortSignal
+  ): Promise<CommitComparison> {
+    return this.call<CommitComparison>(
+      `${this.baseUrl}/repos/${owner}/${repo}/compare/${encodeRef(base)}...${encodeRef(head)}`,
+      { signal }
+    );
+  }
+
+  // Creates `branch` pointing at whatever `fromRef` (branch, tag or SHA) currently resolves to
+  async createBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    fromRef: string,
+    signal?: AbortSignal
+  ): Promise<GitReference> {
+    const { sha } = await this.getCommit(owner, repo, fromRef, signal);
+
     try {
-      const response = await fetch(`${this.baseUrl}/user`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-        },
+      return await this.call<GitReference>(`${this.baseUrl}/repos/${owner}/${repo}/git/refs`, {
+        method: 'POST',
+        body: { ref: `refs/heads/${branch}`, sha },
+        signal,
       });
-      
-      return response.ok;
-    } catch {
-      return false;
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 422 && /already exists/i.test(error.message)) {
+        throw new GitHubApiError(`A branch named '${branch}' already exists.`, error.status);
+      }
+      throw error;
     }
   }
 
-  async getCurrentUser(): Promise<GitHubUser> {
-    const headers = await this.getHeaders();
-    const response = await fetch(`${this.baseUrl}/user`, {
-      headers,
+  async deleteBranch(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<void> {
+    await this.call<void>(`${this.baseUrl}/repos/${owner}/${repo}/git/refs/heads/${encodeRef(branch)}`, {
+      method: 'DELETE',
+      signal,
     });
+  }
+
+  // Checks the branch still exists before switching, so a stale list cannot point the default at nothing
+  async setDefaultBranch(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<Repository> {
+    await this.getBranch(owner, repo, branch, signal);
+    return this.updateRepository(owner, repo, { default_branch: branch }, signal);
+  }
+
+  // Resolves to null when the branch has no protection rule; needs admin rights on the repository
+  async getBranchProtection(
+    owner: string,
+    repo: string,
+    branch: string,
+    signal?: AbortSignal
+  ): Promise<BranchProtection | null> {
+    try {
+      return await this.call<BranchProtection>(
+        `${this.baseUrl}/repos/${owner}/${repo}/branches/${encodeRef(branch)}/protection`,
+        { signal }
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404 && /not protected/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async updateBranchProtection(
+    owner: string,
+    repo: string,
+    branch: string,
+    protection: BranchProtectionRequest,
+    signal?: AbortSignal
+  ): Promise<BranchProtection> {
+    return this.call<BranchProtection>(
+      `${this.baseUrl}/repos/${owner}/${repo}/branches/${encodeRef(branch)}/protection`,
+      { method: 'PUT', body: protection, signal }
+    );
+  }
+
+  async deleteBranchProtection(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<void> {
+    await this.call<void>(`${this.baseUrl}/repos/${owner}/${repo}/branches/${encodeRef(branch)}/protection`, {
+      method: 'DELETE',
+      signal,
+    });
+  }
+
+  // Summaries only: fetch each ruleset with getRuleset for its conditions and rules
+  async fetchRulesets(owner: string, repo: string, signal?: AbortSignal): Promise<RepositoryRuleset[]> {
+    return this.fetchAllPages<RepositoryRuleset>(`/repos/${owner}/${repo}/rulesets`, undefined, signal);
+  }
+
+  async getRuleset(owner: string, repo: string, id: number, signal?: AbortSignal): Promise<RepositoryRuleset> {
+    return this.call<RepositoryRuleset>(`${this.baseUrl}/repos/${owner}/${repo}/rulesets/${id}`, { signal });
+  }
+
+  async createRuleset(
+    owner: string,
+    repo: string,
+    ruleset: RulesetRequest,
+    signal?: AbortSignal
+  ): Promise<RepositoryRuleset> {
+    return this.sendRuleset(`${this.baseUrl}/repos/${owner}/${repo}/rulesets`, 'POST', ruleset, signal);
+  }
+
+  async updateRuleset(
+    owner: string,
+    repo: string,
+    id: number,
+    ruleset: RulesetRequest,
+    signal?: AbortSignal
+  ): Promise<RepositoryRuleset> {
+    return this.sendRuleset(`${this.baseUrl}/repos/${owner}/${repo}/rulesets/${id}`, 'PUT', ruleset, signal);
+  }
+
+  private async sendRuleset(
+    url: string,
+    method: 'POST' | 'PUT',
+    ruleset: RulesetRequest,
+    signal?: AbortSignal
+  ): Promise<RepositoryRuleset> {
+    try {
+      return await this.call<RepositoryRuleset>(url, { method, body: ruleset, signal });
+    } catch (error) {
+      if (
+        error instanceof GitHubApiError &&
+        error.status === 422 &&
+        error.errors?.some((err) => err.field === 'name' && err.code === 'already_exists')
+      ) {
+        throw new GitHubApiError(`A ruleset named '${ruleset.name}' already exists.`, error.status);
+      }
+      throw error;
+    }
+  }
+
+  async deleteRuleset(owner: string, repo: string, id: number, signal?: AbortSignal): Promise<void> {
+    await this.call<void>(`${this.baseUrl}/repos/${owner}/${repo}/rulesets/${id}`, { method: 'DELETE', signal });
+  }
+
+  async fetchOrganizations(signal?: AbortSignal): Promise<Organization[]> {
+    return this.fetchAllPages<Organization>('/user/orgs', undefined, signal);
+  }
+
+  async fetchTeams(org: string, signal?: AbortSignal): Promise<Team[]> {
+    return this.fetchAllPages<Team>(`/orgs/${org}/teams`, undefined, signal);
+  }
+
+  // Resolves the token's granted permissions, or null when GitHub rejects the token
+  async validateToken(token: string, host: HostProfile = getActiveHostProfile()): Promise<TokenPermissions | null> {
+    try {
+      const { permissions } = await this.inspectToken(token, host);
+      return permissions;
+    } catch {
+      return null;
+    }
+  }
+
+  // Loads the profile and granted scopes behind a token that is not stored yet, e.g. while signing in
+  async inspectToken(token: string, host: HostProfile): Promise<TokenValidation> {
+    const response = await this.send(createApiRequest(`${resolveHostEndpoints(host).apiUrl}/user`, { token }));
+    const user = await readJson<GitHubUser>(response);
+    return { user, permissions: getTokenPermissions(token, response.headers) };
+  }
 
-    return this.handleResponse<GitHubUser>(response);
+  async getCurrentUser(signal?: AbortSignal): Promise<GitHubUser> {
+    return this.call<GitHubUser>(`${this.baseUrl}/user`, { cache: true, signal });
   }
 }
 
@@ -0,0 +1,33 @@
+export class GitHubApiError extends Error {
+  public readonly status?: number;
+  public readonly errors?: Array<{
+    resource: string;
+    field: string;
+    code: string;
+  }>;
+
+  constructor(message: string, status?: number, errors?: Array<{
+    resource: string;
+    field: string;
+    code: string;
+  }>) {
+    super(message);
+    this.name = 'GitHubApiError';
+    if (status !== undefined) {
+      this.status = status;
+    }
+    if (errors !== undefined) {
+      this.errors = errors;
+    }
+  }
+}
+
+export class RateLimitError extends GitHubApiError {
+  public readonly resetAt: number;
+
+  constructor(message: string, status: number, resetAt: number) {
+    super(message, status);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { auditEntriesToCsv, auditLog, pickAuditValues, searchAuditEntries } from './auditLog';
+import type { AuditEntry } from '@/types';
+
+const buildEntry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  id: 'entry-1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  accountId: 'account-1',
+  accountLogin: 'octo-dev',
+  host: 'https://github.com',
+  action: 'repository.visibility',
+  repository: 'octo-dev/dotfiles',
+  before: { private: false },
+  after: { private: true },
+  result: 'success',
+  ...overrides,
+});
+
+describe('auditLog', () => {
+  it('keeps appended entries newest first', async () => {
+    const fields = { accountId: 'audit-test', accountLogin: 'octo-dev', host: 'https://github.com', before: null, after: null };
+    const first = await auditLog.append({ ...fields, action: 'repository.create', repository: 'octo-dev/one', result: 'success' });
+    const second = await auditLog.append({ ...fields, action: 'repository.delete', repository: 'octo-dev/one', result: 'failure' });
+
+    const entries = auditLog.getSnapshot().filter(({ accountId }) => accountId === 'audit-test');
+    expect(entries.map(({ id }) => id)).toEqual([second.id, first.id]);
+    expect(first.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+});
+
+describe('searchAuditEntries', () => {
+  const entries = [
+    buildEntry({ id: 'a', repository: 'octo-dev/dotfiles' }),
+    buildEntry({ id: 'b', action: 'file.delete', repository: 'octo-dev/vlast-cli', path: 'LICENSE' }),
+    buildEntry({ id: 'c', accountLogin: 'lena-park', result: 'failure', error: 'Must have admin rights' }),
+  ];
+
+  it('matches every term against the account, action, repository, path and error', () => {
+    expect(searchAuditEntries(entries, 'LICENSE').map(({ id }) => id)).toEqual(['b']);
+    expect(searchAuditEntries(entries, 'lena admin').map(({ id }) => id)).toEqual(['c']);
+    expect(searchAuditEntries(entries, 'dotfiles visibility').map(({ id }) => id)).toEqual(['a', 'c']);
+    expect(searchAuditEntries(entries, '  ')).toBe(entries);
+  });
+});
+
+describe('auditEntriesToCsv', () => {
+  it('writes a header and quotes cells that need it', () => {
+    const csv = auditEntriesToCsv([buildEntry({ result: 'failure', error: 'Name "x", taken' })]);
+    const [header, row] = csv.split('\r\n');
+
+    expect(header).toBe('timestamp,accountLogin,host,action,repository,path,result,error,before,after');
+    expect(row).toBe(
+      '2024-05-01T10:00:00.000Z,octo-dev,https://github.com,repository.visibility,octo-dev/dotfiles,,failure,' +
+        '"Name ""x"", taken","{""private"":false}","{""private"":true}"'
+    );
+  });
+});
+
+describe('pickAuditValues', () => {
+  it('records missing fields as null and a missing source as null', () => {
+    expect(pickAuditValues({ has_wiki: true }, ['has_wiki', 'homepage'])).toEqual({ has_wiki: true, homepage: null });
+    expect(pickAuditValues(undefined, ['has_wiki'])).toBeNull();
+  });
+});
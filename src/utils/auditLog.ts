@@ -0,0 +1,164 @@
+import { config } from '@/config/environment';
+import type { AuditEntry, AuditValues } from '@/types';
+
+type Listener = () => void;
+
+const STORE_NAME = 'entries';
+
+const createEntryId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+const newestFirst = (a: AuditEntry, b: AuditEntry) => b.timestamp.localeCompare(a.timestamp);
+
+/**
+ * Append-only record of the mutations made through the app. Entries are kept
+ * in memory and written to IndexedDB, which is read once on first use; there
+ * is deliberately no way to edit or remove an entry. Without IndexedDB
+ * (private browsing, tests) the log lasts for the session only.
+ */
+class AuditLog {
+  private entries: AuditEntry[] = [];
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private readonly listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Newest first
+  getSnapshot = (): AuditEntry[] => this.entries;
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(config.auditLog.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+
+    return this.dbPromise;
+  }
+
+  // Reads the stored entries; entries appended before it finishes are kept
+  load(): Promise<void> {
+    if (this.loadPromise) return this.loadPromise;
+
+    this.loadPromise = this.openDb().then(
+      (db) =>
+        new Promise<void>((resolve) => {
+          if (!db) {
+            resolve();
+            return;
+          }
+          try {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+            request.onsuccess = () => {
+              const known = new Set(this.entries.map(({ id }) => id));
+              const stored = (request.result as AuditEntry[]).filter(({ id }) => !known.has(id));
+              this.entries = [...this.entries, ...stored].sort(newestFirst);
+              this.emit();
+              resolve();
+            };
+            request.onerror = () => resolve();
+          } catch {
+            resolve();
+          }
+        })
+    );
+
+    return this.loadPromise;
+  }
+
+  async append(fields: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const entry: AuditEntry = { id: createEntryId(), timestamp: new Date().toISOString(), ...fields };
+    this.entries = [entry, ...this.entries];
+    this.emit();
+
+    const db = await this.openDb();
+    if (db) {
+      await new Promise<void>((resolve) => {
+        try {
+          const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).add(entry);
+          request.onsuccess = () => resolve();
+          request.onerror = () => resolve();
+        } catch {
+          resolve();
+        }
+      });
+    }
+    return entry;
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const auditLog = new AuditLog();
+
+// What the log keeps of a deleted repository
+export const DELETED_REPOSITORY_FIELDS = ['visibility', 'archived', 'default_branch', 'description'] as const;
+
+// The named fields of a repository or request; fields it lacks are recorded as null
+export const pickAuditValues = (source: object | undefined, fields: readonly string[]): AuditValues | null => {
+  if (!source) return null;
+  const values = source as Record<string, AuditValues[string] | undefined>;
+  return Object.fromEntries(fields.map((field) => [field, values[field] ?? null]));
+};
+
+// Case-insensitive match against the account, action, repository, path and error
+export const searchAuditEntries = (entries: AuditEntry[], query: string): AuditEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter((entry) => {
+    const haystack = [entry.accountLogin, entry.action, entry.repository, entry.path, entry.result, entry.error]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'accountLogin',
+  'host',
+  'action',
+  'repository',
+  'path',
+  'result',
+  'error',
+  'before',
+  'after',
+] as const;
+
+const toCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per entry; before/after are written as JSON so every field survives the round trip
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => toCsvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
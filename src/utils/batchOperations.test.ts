@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyPlanItem, buildPlan, serializePlan } from './batchOperations';
+import { githubApi } from '@/utils/api';
+import { buildRepository } from '@/mocks/fixtures';
+import { signInTestAccount } from '@/test/utils';
+
+describe('buildPlan', () => {
+  it('diffs each repository against the requested state', () => {
+    const plan = buildPlan({ kind: 'settings', updates: { has_wiki: false, allow_auto_merge: true } }, [
+      buildRepository({ name: 'wiki-on' }),
+      buildRepository({ name: 'done', archived: true }),
+    ]);
+
+    expect(plan.operation.kind).toBe('settings');
+    expect(plan.items.map(({ name, action, changes, reason }) => ({ name, action, changes, reason }))).toEqual([
+      {
+        name: 'wiki-on',
+        action: 'update',
+        changes: expect.arrayContaining([{ field: 'has_wiki', label: 'Wiki', from: true, to: false }]),
+        reason: undefined,
+      },
+      { name: 'done', action: 'skip', changes: expect.any(Array), reason: 'Archived repositories are read-only' },
+    ]);
+  });
+
+  it('skips repositories already in the requested state or over the topic limit', () => {
+    const crowded = Array.from({ length: 20 }, (_, index) => `topic-${index}`);
+    const plan = buildPlan({ kind: 'topics', add: ['cli'], remove: [] }, [
+      buildRepository({ name: 'tagged', topics: ['cli'] }),
+      buildRepository({ name: 'crowded', topics: crowded }),
+      buildRepository({ name: 'plain' }),
+    ]);
+
+    expect(plan.items.map(({ action, reason }) => ({ action, reason }))).toEqual([
+      { action: 'skip', reason: 'Already up to date' },
+      { action: 'skip', reason: 'Would have 21 topics; the limit is 20.' },
+      { action: 'update', reason: undefined },
+    ]);
+    expect(plan.items[2]?.changes).toEqual([{ field: 'topics', label: 'Topics', from: [], to: ['cli'] }]);
+  });
+
+  it('skips repositories whose last enabled merge method the change turns off', () => {
+    const plan = buildPlan({ kind: 'settings', updates: { allow_merge_commit: false } }, [
+      { ...buildRepository({ name: 'merge-only' }), allow_squash_merge: false, allow_rebase_merge: false },
+      { ...buildRepository({ name: 'squash-too' }), allow_rebase_merge: false },
+    ]);
+
+    expect(plan.items.map(({ name, action, reason }) => ({ name, action, reason }))).toEqual([
+      { name: 'merge-only', action: 'skip', reason: 'Would disable its last enabled merge method' },
+      { name: 'squash-too', action: 'update', reason: undefined },
+    ]);
+  });
+
+  it('plans deletions without field changes', () => {
+    const plan = buildPlan({ kind: 'delete' }, [buildRepository({ name: 'gone', archived: true })]);
+
+    expect(plan.items[0]).toMatchObject({ action: 'delete', changes: [] });
+  });
+});
+
+describe('serializePlan', () => {
+  it('adds the outcome of applied items', () => {
+    const plan = buildPlan({ kind: 'visibility', private: true }, [
+      buildRepository({ name: 'open' }),
+      buildRepository({ name: 'closed', private: true }),
+    ]);
+    const [open, closed] = plan.items;
+
+    const exported = JSON.parse(
+      serializePlan(plan, [
+        { id: String(open!.id), label: 'octo-dev/open', status: 'failed', message: 'Not Found' },
+        { id: String(closed!.id), label: 'octo-dev/closed', status: 'skipped', message: 'Already private' },
+      ])
+    );
+
+    expect(exported.operation).toEqual({ kind: 'visibility', private: true });
+    expect(exported.items[0]).toMatchObject({
+      name: 'open',
+      changes: [{ field: 'visibility', from: 'public', to: 'private' }],
+      outcome: { status: 'failed', message: 'Not Found' },
+    });
+    expect(exported.items[1].outcome).toEqual({ status: 'skipped', message: 'Already private' });
+  });
+});
+
+describe('applyPlanItem', () => {
+  beforeEach(() => {
+    signInTestAccount();
+  });
+
+  it('fails when GitHub ignores a planned change', async () => {
+    const repository = buildRepository({ name: 'vlast-cli' });
+    const [item] = buildPlan({ kind: 'settings', updates: { allow_auto_merge: true, has_wiki: false } }, [
+      { ...repository, allow_auto_merge: false },
+    ]).items;
+    vi.spyOn(githubApi, 'updateRepository').mockResolvedValueOnce({
+      ...repository,
+      allow_auto_merge: false,
+      has_wiki: false,
+    });
+
+    await expect(applyPlanItem(item!)).rejects.toThrow('GitHub did not apply: Allow auto-merge');
+    expect(githubApi.updateRepository).toHaveBeenCalledWith('octo-dev', 'vlast-cli', {
+      allow_auto_merge: true,
+      has_wiki: false,
+    });
+  });
+});
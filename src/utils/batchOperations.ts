@@ -0,0 +1,220 @@
+import type {
+  BatchJob,
+  BatchOperation,
+  BatchSettingsField,
+  PlanChange,
+  PlanItem,
+  Repository,
+  RepositoryPlan,
+  UpdateRepositoryRequest,
+} from '@/types';
+import { githubApi } from '@/utils/api';
+import { DELETED_REPOSITORY_FIELDS, pickAuditValues } from '@/utils/auditLog';
+import { downloadFile } from '@/utils/download';
+import { applyTopicChanges, MAX_TOPICS } from '@/utils/topics';
+import { MERGE_METHOD_FIELDS, SETTING_LABELS } from '@/utils/repositorySettings';
+
+export const BATCH_SETTINGS_FIELDS: BatchSettingsField[] = [
+  'has_issues',
+  'has_projects',
+  'has_wiki',
+  'allow_merge_commit',
+  'allow_squash_merge',
+  'allow_rebase_merge',
+  'allow_auto_merge',
+  'delete_branch_on_merge',
+];
+
+export const describeBatchOperation = (operation: BatchOperation): string => {
+  switch (operation.kind) {
+    case 'visibility':
+      return operation.private ? 'Make private' : 'Make public';
+    case 'archive':
+      return operation.archived ? 'Archive' : 'Unarchive';
+    case 'topics':
+      return 'Update topics';
+    case 'settings':
+      return 'Update settings';
+    case 'delete':
+      return 'Delete';
+  }
+};
+
+// Problems with the operation itself, before any repository is touched
+export const validateBatchOperation = (operation: BatchOperation): string | null => {
+  if (operation.kind === 'topics' && operation.add.length === 0 && operation.remove.length === 0) {
+    return 'Choose topics to add or remove';
+  }
+  if (operation.kind === 'settings') {
+    const { updates } = operation;
+    if (Object.keys(updates).length === 0) {
+      return 'Choose at least one setting to change';
+    }
+    if (MERGE_METHOD_FIELDS.every((field) => updates[field] === false)) {
+      return 'At least one merge method must stay enabled';
+    }
+  }
+  return null;
+};
+
+const sameTopics = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((topic, index) => topic === b[index]);
+};
+
+// The repository's current value for a field a plan can change
+const readField = (repository: Repository, field: PlanChange['field']): PlanChange['from'] => {
+  switch (field) {
+    case 'visibility':
+      return repository.visibility;
+    case 'topics':
+      return repository.topics ?? [];
+    default:
+      return repository[field];
+  }
+};
+
+const isApplied = (change: PlanChange, value: PlanChange['from']): boolean => {
+  return Array.isArray(change.to) && Array.isArray(value) ? sameTopics(change.to, value) : change.to === value;
+};
+
+const planChanges = (operation: BatchOperation, repository: Repository): PlanChange[] => {
+  const wanted: Array<Pick<PlanChange, 'field' | 'label' | 'to'>> = [];
+
+  switch (operation.kind) {
+    case 'visibility':
+      wanted.push({ field: 'visibility', label: 'Visibility', to: operation.private ? 'private' : 'public' });
+      break;
+    case 'archive':
+      wanted.push({ field: 'archived', label: 'Archived', to: operation.archived });
+      break;
+    case 'topics':
+      wanted.push({
+        field: 'topics',
+        label: 'Topics',
+        to: applyTopicChanges(repository.topics ?? [], operation.add, operation.remove),
+      });
+      break;
+    case 'settings':
+      for (const field of BATCH_SETTINGS_FIELDS) {
+        const value = operation.updates[field];
+        if (value !== undefined) wanted.push({ field, label: SETTING_LABELS[field], to: value });
+      }
+      break;
+    case 'delete':
+      break;
+  }
+
+  return wanted
+    .map((change) => ({ ...change, from: readField(repository, change.field) }))
+    .filter((change) => !isApplied(change, change.from));
+};
+
+/**
+ * Why a repository is left out of the plan, or null when the operation
+ * applies to it. Repositories already in the requested state are skipped
+ * rather than rewritten, as are archived ones for anything but (un)archiving
+ * and deletion, since GitHub rejects other writes to them, and ones a
+ * settings change would leave without a merge method.
+ */
+const getSkipReason = (operation: BatchOperation, repository: Repository, changes: PlanChange[]): string | null => {
+  if (repository.archived && operation.kind !== 'archive' && operation.kind !== 'delete') {
+    return 'Archived repositories are read-only';
+  }
+  if (operation.kind === 'delete') {
+    return null;
+  }
+  if (changes.length === 0) {
+    if (operation.kind === 'visibility') return `Already ${repository.visibility}`;
+    if (operation.kind === 'archive') return operation.archived ? 'Already archived' : 'Not archived';
+    return 'Already up to date';
+  }
+
+  const topics = changes.find((change) => change.field === 'topics')?.to;
+  if (Array.isArray(topics) && topics.length > MAX_TOPICS) {
+    return `Would have ${topics.length} topics; the limit is ${MAX_TOPICS}.`;
+  }
+
+  // The patch alone may leave a method on, but not on a repository that only had the ones it turns off
+  if (operation.kind === 'settings') {
+    const enabled = MERGE_METHOD_FIELDS.filter((field) => operation.updates[field] ?? repository[field]);
+    if (enabled.length === 0) return 'Would disable its last enabled merge method';
+  }
+  return null;
+};
+
+// Dry run of an operation: the per-repository diff against the current state, without touching GitHub
+export const buildPlan = (operation: BatchOperation, repositories: Repository[]): RepositoryPlan => ({
+  operation,
+  createdAt: new Date().toISOString(),
+  items: repositories.map((repository) => {
+    const changes = planChanges(operation, repository);
+    const reason = getSkipReason(operation, repository, changes);
+    const snapshot = operation.kind === 'delete' ? pickAuditValues(repository, DELETED_REPOSITORY_FIELDS) : null;
+    return {
+      id: repository.id,
+      owner: repository.owner.login,
+      name: repository.name,
+      action: reason ? 'skip' : operation.kind === 'delete' ? 'delete' : 'update',
+      changes,
+      ...(reason && { reason }),
+      ...(snapshot && { snapshot }),
+    };
+  }),
+});
+
+export const getPlanItemLabel = (item: PlanItem): string => `${item.owner}/${item.name}`;
+
+const toUpdateRequest = (changes: PlanChange[]): UpdateRepositoryRequest => {
+  return Object.fromEntries(
+    changes.map(({ field, to }) => (field === 'visibility' ? ['private', to === 'private'] : [field, to]))
+  ) as UpdateRepositoryRequest;
+};
+
+/**
+ * Applies one planned item and checks GitHub's response against the plan.
+ * GitHub quietly ignores some settings (auto-merge on plans without it, for
+ * one), so a change that did not stick is reported as a failure.
+ */
+export const applyPlanItem = async (item: PlanItem): Promise<void> => {
+  const { owner, name } = item;
+
+  if (item.action === 'delete') {
+    await githubApi.deleteRepository(owner, name);
+    return;
+  }
+
+  let notApplied: PlanChange[];
+  const topicsChange = item.changes.find((change) => change.field === 'topics');
+  if (topicsChange && Array.isArray(topicsChange.to)) {
+    const topics = await githubApi.replaceTopics(owner, name, topicsChange.to);
+    notApplied = isApplied(topicsChange, topics) ? [] : [topicsChange];
+  } else {
+    const updated = await githubApi.updateRepository(owner, name, toUpdateRequest(item.changes));
+    notApplied = item.changes.filter((change) => !isApplied(change, readField(updated, change.field)));
+  }
+
+  if (notApplied.length > 0) {
+    throw new Error(`GitHub did not apply: ${notApplied.map((change) => change.label).join(', ')}`);
+  }
+};
+
+// The plan as JSON, with each item's outcome once it has been applied
+export const serializePlan = (plan: RepositoryPlan, jobs: BatchJob[] = []): string => {
+  const outcomes = new Map(jobs.map((job) => [job.id, job]));
+  return JSON.stringify(
+    {
+      ...plan,
+      items: plan.items.map((item) => {
+        const job = outcomes.get(String(item.id));
+        return job ? { ...item, outcome: { status: job.status, ...(job.message && { message: job.message }) } } : item;
+      }),
+    },
+    null,
+    2
+  );
+};
+
+export const downloadPlan = (plan: RepositoryPlan, jobs: BatchJob[] = []) => {
+  const timestamp = plan.createdAt.replace(/[:.]/g, '-');
+  downloadFile(`plan-${plan.operation.kind}-${timestamp}.json`, serializePlan(plan, jobs), 'application/json');
+};
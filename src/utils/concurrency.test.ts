@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and returns results in input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const items = Array.from({ length: 20 }, (_, index) => index);
+
+    const results = await mapWithConcurrency(items, 3, async (item) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, (item % 4) * 2));
+      inFlight--;
+      return item * 2;
+    });
+
+    expect(peak).toBe(3);
+    expect(results).toEqual(items.map((item) => item * 2));
+  });
+
+  it('rejects with the first failure', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (item) => {
+        if (item === 2) throw new Error('boom');
+        return item;
+      })
+    ).rejects.toThrow('boom');
+  });
+
+  it('handles an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
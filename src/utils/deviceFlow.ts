@@ -0,0 +1,137 @@
+import { config } from '@/config/environment';
+import { resolveHostEndpoints } from '@/utils/host';
+import type { DeviceCodeResponse, HostProfile } from '@/types';
+
+export type DeviceFlowErrorCode =
+  | 'not_configured'
+  | 'expired_token'
+  | 'access_denied'
+  | 'cancelled'
+  | 'request_failed';
+
+export class DeviceFlowError extends Error {
+  public readonly code: DeviceFlowErrorCode;
+
+  constructor(message: string, code: DeviceFlowErrorCode) {
+    super(message);
+    this.name = 'DeviceFlowError';
+    this.code = code;
+  }
+}
+
+interface AccessTokenResponse {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+  interval?: number;
+}
+
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+// Device flow endpoints live on the web host, optionally routed through a CORS proxy
+const getOAuthUrl = (host: HostProfile, path: string) => {
+  const url = `${resolveHostEndpoints(host).webUrl}${path}`;
+  return config.oauth.proxyUrl ? `${config.oauth.proxyUrl}${encodeURIComponent(url)}` : url;
+};
+
+const postForm = async <T>(url: string, params: Record<string, string>, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+    ...(signal && { signal }),
+  });
+
+  if (!response.ok) {
+    throw new DeviceFlowError(
+      `Device authorization request failed with status ${response.status}: ${response.statusText}`,
+      'request_failed'
+    );
+  }
+
+  return response.json() as Promise<T>;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DeviceFlowError('Sign-in was cancelled', 'cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DeviceFlowError('Sign-in was cancelled', 'cancelled'));
+    };
+    // Polls run for the whole sign-in, so each one removes its listener when it finishes
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const isDeviceFlowConfigured = (): boolean => Boolean(config.oauth.clientId);
+
+export const requestDeviceCode = async (host: HostProfile, signal?: AbortSignal): Promise<DeviceCodeResponse> => {
+  if (!isDeviceFlowConfigured()) {
+    throw new DeviceFlowError('OAuth sign-in is not configured. Set VITE_GITHUB_OAUTH_CLIENT_ID.', 'not_configured');
+  }
+
+  return postForm<DeviceCodeResponse>(
+    getOAuthUrl(host, '/login/device/code'),
+    { client_id: config.oauth.clientId, scope: config.requiredScopes.join(' ') },
+    signal
+  );
+};
+
+// Polls until the user approves the code, honouring slow_down and expiry
+export const pollForAccessToken = async (
+  host: HostProfile,
+  deviceCode: DeviceCodeResponse,
+  signal?: AbortSignal
+): Promise<string> => {
+  let intervalSeconds = deviceCode.interval;
+  const expiresAt = Date.now() + deviceCode.expires_in * 1000;
+
+  while (Date.now() < expiresAt) {
+    await wait(intervalSeconds * 1000, signal);
+
+    const result = await postForm<AccessTokenResponse>(
+      getOAuthUrl(host, '/login/oauth/access_token'),
+      {
+        client_id: config.oauth.clientId,
+        device_code: deviceCode.device_code,
+        grant_type: DEVICE_GRANT_TYPE,
+      },
+      signal
+    );
+
+    if (result.access_token) {
+      return result.access_token;
+    }
+
+    switch (result.error) {
+      case 'authorization_pending':
+        break;
+      case 'slow_down':
+        intervalSeconds = result.interval ?? intervalSeconds + SLOW_DOWN_INCREMENT_SECONDS;
+        break;
+      case 'expired_token':
+        throw new DeviceFlowError('The sign-in code expired. Please start again.', 'expired_token');
+      case 'access_denied':
+        throw new DeviceFlowError('Sign-in was denied on GitHub.', 'access_denied');
+      default:
+        throw new DeviceFlowError(
+          result.error_description || `Unexpected device flow response: ${result.error ?? 'unknown'}`,
+          'request_failed'
+        );
+    }
+  }
+
+  throw new DeviceFlowError('The sign-in code expired. Please start again.', 'expired_token');
+};
@@ -0,0 +1,10 @@
+// Saves generated text as a file through a temporary object URL
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download asynchronously, so the URL must outlive the click
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { validateBranchName, validateRepositoryName } from './formatters';
+
+describe('validateRepositoryName', () => {
+  it.each(['vlast', 'my-repo', 'my_repo', 'repo.js', 'Repo2024', 'a'])('accepts %s', (name) => {
+    expect(validateRepositoryName(name)).toBeNull();
+  });
+
+  it('requires a name', () => {
+    expect(validateRepositoryName('')).toBe('Repository name is required');
+    expect(validateRepositoryName('   ')).toBe('Repository name is required');
+  });
+
+  it.each(['my repo', 'repo/name', 'répo', 'repo!'])('rejects invalid characters in %s', (name) => {
+    expect(validateRepositoryName(name)).toMatch(/^Invalid repository name/);
+  });
+
+  it('limits names to 100 characters', () => {
+    expect(validateRepositoryName('a'.repeat(100))).toBeNull();
+    expect(validateRepositoryName('a'.repeat(101))).toBe('Repository name must be 100 characters or less');
+  });
+
+  it.each(['.hidden', '-dash'])('rejects %s for its leading character', (name) => {
+    expect(validateRepositoryName(name)).toBe('Repository name cannot start with a dot or hyphen');
+  });
+});
+
+describe('validateBranchName', () => {
+  it.each(['main', 'feature/plugins', 'release-1.4', 'fix_typo', 'user/octo/wip'])('accepts %s', (name) => {
+    expect(validateBranchName(name)).toBeNull();
+  });
+
+  it('requires a name', () => {
+    expect(validateBranchName(' ')).toBe('Branch name is required');
+  });
+
+  it.each(['my branch', 'a..b', 'a//b', 'a@{1}', 'what?', 'ref:name', 'tilde~1'])('rejects %s', (name) => {
+    expect(validateBranchName(name)).toMatch(/^Branch names cannot contain/);
+  });
+
+  it.each(['-flag', '/lead', 'trail/', 'dot.'])('rejects the edges of %s', (name) => {
+    expect(validateBranchName(name)).toMatch(/^Branch names cannot start with/);
+  });
+
+  it.each(['.hidden', 'feature/.hidden', 'branch.lock', 'a.lock/b'])('rejects the component in %s', (name) => {
+    expect(validateBranchName(name)).toMatch(/^No part of a branch name/);
+  });
+});
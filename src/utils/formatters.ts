@@ -1,4 +1,5 @@
 import type { Repository, RepositoryStats, LanguageStats } from '@/types';
+import { getRepositoryUrls } from '@/utils/host';
 
 export const formatDate = (dateString: string): string => {
   return new Date(dateString).toLocaleDateString('en-US', {
@@ -120,23 +121,52 @@ export const validateRepositoryName = (name: string): string | null => {
   return null;
 };
 
-export const generateGitCommands = (repository: Repository) => {
+// The subset of git check-ref-format rules GitHub enforces for branch names
+export const validateBranchName = (name: string): string | null => {
+  if (!name.trim()) {
+    return 'Branch name is required';
+  }
+
+  if (/[\s~^:?*[\\]|\.\.|@\{|\/\/|[\x00-\x1f\x7f]/.test(name)) {
+    return 'Branch names cannot contain spaces, "..", "//", "@{" or any of ~ ^ : ? * [ \\';
+  }
+
+  if (name.startsWith('-') || name.startsWith('/') || name.endsWith('/') || name.endsWith('.') || name === '@') {
+    return 'Branch names cannot start with "-" or "/", or end with "/" or "."';
+  }
+
+  if (name.split('/').some((part) => part.startsWith('.') || part.endsWith('.lock'))) {
+    return 'No part of a branch name can start with "." or end with ".lock"';
+  }
+
+  return null;
+};
+
+export const generateGitCommands = (
+  repository: Pick<Repository, 'name' | 'full_name' | 'default_branch'>,
+  branch: string = 'feature/new-feature'
+) => {
+  // Built from the active host so GitHub Enterprise Server remotes are correct
+  const { cloneUrl, sshUrl } = getRepositoryUrls(repository.full_name);
+
   return {
-    clone: `git clone ${repository.clone_url}`,
-    sshClone: `git clone ${repository.ssh_url}`,
-    addRemote: `git remote add origin ${repository.clone_url}`,
-    pushExisting: `git remote add origin ${repository.clone_url}
+    clone: `git clone ${cloneUrl}`,
+    sshClone: `git clone ${sshUrl}`,
+    addRemote: `git remote add origin ${cloneUrl}`,
+    pushExisting: `git remote add origin ${cloneUrl}
 git branch -M ${repository.default_branch}
 git push -u origin ${repository.default_branch}`,
     pullLatest: `git pull origin ${repository.default_branch}`,
-    createBranch: `git checkout -b feature/new-feature
-git push -u origin feature/new-feature`,
+    createBranch: `git checkout -b ${branch}
+git push -u origin ${branch}`,
+    checkoutBranch: `git fetch origin
+git checkout ${branch}`,
     newRepo: `echo "# ${repository.name}" >> README.md
 git init
 git add README.md
 git commit -m "first commit"
 git branch -M ${repository.default_branch}
-git remote add origin ${repository.clone_url}
+git remote add origin ${cloneUrl}
 git push -u origin ${repository.default_branch}`,
   };
 };
\ No newline at end of file
@@ -0,0 +1,403 @@
+import { config } from '@/config/environment';
+import { githubApi, GitHubApiError } from '@/utils/api';
+import { createApiRequest } from '@/utils/middleware';
+import { getActiveHostEndpoints } from '@/utils/host';
+import type { Repository, GitHubUser, RepositoryVisibility } from '@/types';
+
+interface GraphQLError {
+  message: string;
+  type?: string;
+  path?: Array<string | number>;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: GraphQLError[];
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+type ViewerPermission = 'ADMIN' | 'MAINTAIN' | 'WRITE' | 'TRIAGE' | 'READ';
+
+interface RepositoryNode {
+  id: string;
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  description: string | null;
+  url: string;
+  sshUrl: string;
+  homepageUrl: string | null;
+  isPrivate: boolean;
+  visibility: 'PUBLIC' | 'PRIVATE' | 'INTERNAL';
+  isFork: boolean;
+  isArchived: boolean;
+  isDisabled: boolean;
+  isTemplate: boolean;
+  hasIssuesEnabled: boolean;
+  hasProjectsEnabled: boolean;
+  hasWikiEnabled: boolean;
+  mergeCommitAllowed: boolean;
+  squashMergeAllowed: boolean;
+  rebaseMergeAllowed: boolean;
+  autoMergeAllowed: boolean;
+  deleteBranchOnMerge: boolean;
+  diskUsage: number | null;
+  stargazerCount: number;
+  forkCount: number;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string | null;
+  viewerPermission: ViewerPermission | null;
+  owner: {
+    __typename: 'User' | 'Organization';
+    id: string;
+    login: string;
+    avatarUrl: string;
+    url: string;
+    databaseId?: number;
+  };
+  primaryLanguage: { name: string } | null;
+  licenseInfo: {
+    id: string;
+    key: string;
+    name: string;
+    spdxId: string | null;
+    url: string | null;
+  } | null;
+  watchers: { totalCount: number };
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  languages: {
+    edges: Array<{ size: number; node: { name: string; color: string | null } }>;
+  } | null;
+  defaultBranchRef: {
+    name: string;
+    target: {
+      oid?: string;
+      messageHeadline?: string;
+      committedDate?: string;
+      author?: { name: string | null } | null;
+    } | null;
+  } | null;
+}
+
+interface ViewerRepositoriesData {
+  viewer: {
+    repositories: {
+      pageInfo: PageInfo;
+      nodes: RepositoryNode[];
+    };
+  };
+}
+
+const VIEWER_REPOSITORIES_QUERY = `
+  query ViewerRepositories($first: Int!, $after: String) {
+    viewer {
+      repositories(
+        first: $first
+        after: $after
+        ownerAffiliations: [OWNER, COLLABORATOR, ORGANIZATION_MEMBER]
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          databaseId
+          name
+          nameWithOwner
+          description
+          url
+          sshUrl
+          homepageUrl
+          isPrivate
+          visibility
+          isFork
+          isArchived
+          isDisabled
+          isTemplate
+          hasIssuesEnabled
+          hasProjectsEnabled
+          hasWikiEnabled
+          mergeCommitAllowed
+          squashMergeAllowed
+          rebaseMergeAllowed
+          autoMergeAllowed
+          deleteBranchOnMerge
+          diskUsage
+          stargazerCount
+          forkCount
+          createdAt
+          updatedAt
+          pushedAt
+          viewerPermission
+          owner {
+            __typename
+            id
+            login
+            avatarUrl
+            url
+            ... on User { databaseId }
+            ... on Organization { databaseId }
+          }
+          primaryLanguage { name }
+          licenseInfo { id key name spdxId url }
+          watchers { totalCount }
+          issues(states: OPEN) { totalCount }
+          pullRequests(states: OPEN) { totalCount }
+          repositoryTopics(first: 20) { nodes { topic { name } } }
+          languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+            edges { size node { name color } }
+          }
+          defaultBranchRef {
+            name
+            target {
+              ... on Commit {
+                oid
+                messageHeadline
+                committedDate
+                author { name }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const toPermissions = (permission: ViewerPermission | null): NonNullable<Repository['permissions']> => {
+  const level = ['READ', 'TRIAGE', 'WRITE', 'MAINTAIN', 'ADMIN'].indexOf(permission ?? 'READ');
+  return {
+    pull: level >= 0,
+    triage: level >= 1,
+    push: level >= 2,
+    maintain: level >= 3,
+    admin: level >= 4,
+  };
+};
+
+const toOwner = (owner: RepositoryNode['owner'], apiUrl: string): GitHubUser => {
+  const ownerApiUrl = `${apiUrl}/users/${owner.login}`;
+  return {
+    login: owner.login,
+    id: owner.databaseId ?? 0,
+    node_id: owner.id,
+    avatar_url: owner.avatarUrl,
+    gravatar_id: null,
+    url: ownerApiUrl,
+    html_url: owner.url,
+    followers_url: `${ownerApiUrl}/followers`,
+    following_url: `${ownerApiUrl}/following{/other_user}`,
+    gists_url: `${ownerApiUrl}/gists{/gist_id}`,
+    starred_url: `${ownerApiUrl}/starred{/owner}{/repo}`,
+    subscriptions_url: `${ownerApiUrl}/subscriptions`,
+    organizations_url: `${ownerApiUrl}/orgs`,
+    repos_url: `${ownerApiUrl}/repos`,
+    events_url: `${ownerApiUrl}/events{/privacy}`,
+    received_events_url: `${ownerApiUrl}/received_events`,
+    type: owner.__typename,
+    site_admin: false,
+    name: null,
+    company: null,
+    blog: null,
+    location: null,
+    email: null,
+    hireable: null,
+    bio: null,
+    twitter_username: null,
+    public_repos: 0,
+    public_gists: 0,
+    followers: 0,
+    following: 0,
+    created_at: '',
+    updated_at: '',
+  };
+};
+
+// Maps a GraphQL repository node onto the REST `Repository` shape the UI already consumes
+const toRepository = (node: RepositoryNode, apiUrl: string): Repository => {
+  const repoApiUrl = `${apiUrl}/repos/${node.nameWithOwner}`;
+  const openIssues = node.issues.totalCount;
+  const watchers = node.watchers.totalCount;
+  const commit = node.defaultBranchRef?.target;
+
+  return {
+    id: node.databaseId,
+    node_id: node.id,
+    name: node.name,
+    full_name: node.nameWithOwner,
+    private: node.isPrivate,
+    owner: toOwner(node.owner, apiUrl),
+    html_url: node.url,
+    description: node.description,
+    fork: node.isFork,
+    url: repoApiUrl,
+    archive_url: `${repoApiUrl}/{archive_format}{/ref}`,
+    assignees_url: `${repoApiUrl}/assignees{/user}`,
+    blobs_url: `${repoApiUrl}/git/blobs{/sha}`,
+    branches_url: `${repoApiUrl}/branches{/branch}`,
+    collaborators_url: `${repoApiUrl}/collaborators{/collaborator}`,
+    comments_url: `${repoApiUrl}/comments{/number}`,
+    commits_url: `${repoApiUrl}/commits{/sha}`,
+    compare_url: `${repoApiUrl}/compare/{base}...{head}`,
+    contents_url: `${repoApiUrl}/contents/{+path}`,
+    contributors_url: `${repoApiUrl}/contributors`,
+    deployments_url: `${repoApiUrl}/deployments`,
+    downloads_url: `${repoApiUrl}/downloads`,
+    events_url: `${repoApiUrl}/events`,
+    forks_url: `${repoApiUrl}/forks`,
+    git_commits_url: `${repoApiUrl}/git/commits{/sha}`,
+    git_refs_url: `${repoApiUrl}/git/refs{/sha}`,
+    git_tags_url: `${repoApiUrl}/git/tags{/sha}`,
+    git_url: `${node.url.replace(/^https?:/, 'git:')}.git`,
+    issue_comment_url: `${repoApiUrl}/issues/comments{/number}`,
+    issue_events_url: `${repoApiUrl}/issues/events{/number}`,
+    issues_url: `${repoApiUrl}/issues{/number}`,
+    keys_url: `${repoApiUrl}/keys{/key_id}`,
+    labels_url: `${repoApiUrl}/labels{/name}`,
+    languages_url: `${repoApiUrl}/languages`,
+    merges_url: `${repoApiUrl}/merges`,
+    milestones_url: `${repoApiUrl}/milestones{/number}`,
+    notifications_url: `${repoApiUrl}/notifications{?since,all,participating}`,
+    pulls_url: `${repoApiUrl}/pulls{/number}`,
+    releases_url: `${repoApiUrl}/releases{/id}`,
+    ssh_url: node.sshUrl,
+    stargazers_url: `${repoApiUrl}/stargazers`,
+    statuses_url: `${repoApiUrl}/statuses/{sha}`,
+    subscribers_url: `${repoApiUrl}/subscribers`,
+    subscription_url: `${repoApiUrl}/subscription`,
+    tags_url: `${repoApiUrl}/tags`,
+    teams_url: `${repoApiUrl}/teams`,
+    trees_url: `${repoApiUrl}/git/trees{/sha}`,
+    clone_url: `${node.url}.git`,
+    mirror_url: null,
+    hooks_url: `${repoApiUrl}/hooks`,
+    svn_url: node.url,
+    homepage: node.homepageUrl,
+    language: node.primaryLanguage?.name ?? null,
+    forks_count: node.forkCount,
+    stargazers_count: node.stargazerCount,
+    watchers_count: watchers,
+    size: node.diskUsage ?? 0,
+    default_branch: node.defaultBranchRef?.name ?? 'main',
+    open_issues_count: openIssues,
+    is_template: node.isTemplate,
+    topics: node.repositoryTopics.nodes.map(({ topic }) => topic.name),
+    has_issues: node.hasIssuesEnabled,
+    has_projects: node.hasProjectsEnabled,
+    has_wiki: node.hasWikiEnabled,
+    has_pages: false,
+    has_downloads: true,
+    archived: node.isArchived,
+    disabled: node.isDisabled,
+    visibility: node.visibility.toLowerCase() as RepositoryVisibility,
+    pushed_at: node.pushedAt ?? node.updatedAt,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    permissions: toPermissions(node.viewerPermission),
+    allow_rebase_merge: node.rebaseMergeAllowed,
+    template_repository: null,
+    temp_clone_token: null,
+    allow_squash_merge: node.squashMergeAllowed,
+    allow_auto_merge: node.autoMergeAllowed,
+    delete_branch_on_merge: node.deleteBranchOnMerge,
+    allow_merge_commit: node.mergeCommitAllowed,
+    subscribers_count: watchers,
+    network_count: node.forkCount,
+    license: node.licenseInfo
+      ? {
+          key: node.licenseInfo.key,
+          name: node.licenseInfo.name,
+          spdx_id: node.licenseInfo.spdxId ?? '',
+          url: node.licenseInfo.url ?? '',
+          node_id: node.licenseInfo.id,
+        }
+      : null,
+    forks: node.forkCount,
+    open_issues: openIssues,
+    watchers,
+    insights: {
+      languages: (node.languages?.edges ?? []).map((edge) => ({
+        name: edge.node.name,
+        size: edge.size,
+        color: edge.node.color,
+      })),
+      openPullRequests: node.pullRequests.totalCount,
+      lastCommit: commit?.oid
+        ? {
+            oid: commit.oid,
+            messageHeadline: commit.messageHeadline ?? '',
+            committedDate: commit.committedDate ?? '',
+            authorName: commit.author?.name ?? null,
+          }
+        : null,
+    },
+  };
+};
+
+/**
+ * GitHub GraphQL v4 client. Used where REST would need one request per
+ * repository (languages, open PRs, last commit) to hydrate the Dashboard.
+ */
+class GitHubGraphQLApi {
+  private get apiUrl(): string {
+    return getActiveHostEndpoints().apiUrl;
+  }
+
+  private get graphqlUrl(): string {
+    return getActiveHostEndpoints().graphqlUrl;
+  }
+
+  private readonly perPage = config.githubApi.perPage;
+
+  // Sent through the REST client's pipeline, which handles auth, rate limits and HTTP errors
+  async query<T>(query: string, variables: Record<string, unknown> = {}, signal?: AbortSignal): Promise<T> {
+    const response = await githubApi.send(
+      createApiRequest(this.graphqlUrl, { method: 'POST', body: { query, variables }, signal })
+    );
+    const payload = await response.json() as GraphQLResponse<T>;
+
+    // GraphQL reports query errors with a 200 status
+    if (payload.errors?.length) {
+      throw new GitHubApiError(payload.errors.map((error) => error.message).join('; '), response.status);
+    }
+
+    if (!payload.data) {
+      throw new GitHubApiError('GraphQL response did not contain any data', response.status);
+    }
+
+    return payload.data;
+  }
+
+  // Walks the viewer's repositories with cursor pagination, reporting the running total after each page
+  async fetchRepositories(
+    onPage?: (repositories: Repository[]) => void,
+    signal?: AbortSignal
+  ): Promise<Repository[]> {
+    const repositories: Repository[] = [];
+    let after: string | null = null;
+
+    do {
+      const data: ViewerRepositoriesData = await this.query<ViewerRepositoriesData>(
+        VIEWER_REPOSITORIES_QUERY,
+        { first: this.perPage, after },
+        signal
+      );
+      const { nodes, pageInfo } = data.viewer.repositories;
+
+      repositories.push(...nodes.map((node) => toRepository(node, this.apiUrl)));
+      onPage?.([...repositories]);
+
+      after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+    } while (after);
+
+    return repositories;
+  }
+}
+
+export const graphqlApi = new GitHubGraphQLApi();
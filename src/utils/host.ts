@@ -0,0 +1,60 @@
+import { config } from '@/config/environment';
+import { accountKeyring } from '@/utils/accounts';
+import type { HostProfile, HostEndpoints } from '@/types';
+
+export const DEFAULT_HOST_PROFILE: HostProfile = {
+  kind: 'github',
+  url: config.githubApi.webUrl,
+};
+
+// Normalizes user input such as "ghe.example.com/" or "https://ghe.example.com/api/v3"
+// to a bare origin; returns null when the input is not a usable host
+export const normalizeHostUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.hostname.includes('.') || url.hostname === 'localhost' ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+export const resolveHostEndpoints = (profile: HostProfile): HostEndpoints => {
+  if (profile.kind === 'github') {
+    return {
+      apiUrl: config.githubApi.baseUrl,
+      graphqlUrl: config.githubApi.graphqlUrl,
+      webUrl: config.githubApi.webUrl,
+      sshHost: new URL(config.githubApi.webUrl).hostname,
+    };
+  }
+
+  // GitHub Enterprise Server serves REST under /api/v3 and GraphQL under /api/graphql
+  const origin = normalizeHostUrl(profile.url) ?? profile.url;
+  return {
+    apiUrl: `${origin}/api/v3`,
+    graphqlUrl: `${origin}/api/graphql`,
+    webUrl: origin,
+    sshHost: new URL(origin).hostname,
+  };
+};
+
+export const getActiveHostProfile = (): HostProfile => {
+  return accountKeyring.getActiveAccount()?.host ?? DEFAULT_HOST_PROFILE;
+};
+
+export const getActiveHostEndpoints = (): HostEndpoints => {
+  return resolveHostEndpoints(getActiveHostProfile());
+};
+
+// Web, HTTPS clone and SSH clone URLs for a repository on the active host
+export const getRepositoryUrls = (fullName: string) => {
+  const { webUrl, sshHost } = getActiveHostEndpoints();
+  return {
+    webUrl: `${webUrl}/${fullName}`,
+    cloneUrl: `${webUrl}/${fullName}.git`,
+    sshUrl: `git@${sshHost}:${fullName}.git`,
+  };
+};
@@ -0,0 +1,93 @@
+import { config } from '@/config/environment';
+import type { HttpCacheEntry } from '@/types';
+
+const STORE_NAME = 'responses';
+
+/**
+ * Validator + body cache for conditional GitHub requests. Entries are kept in
+ * memory and mirrored to IndexedDB so they survive reloads; when IndexedDB is
+ * unavailable (private browsing, tests) the cache silently stays in memory.
+ */
+class HttpCache {
+  private readonly memory = new Map<string, HttpCacheEntry>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(config.httpCache.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    const db = await this.openDb();
+    if (!db) return undefined;
+
+    return new Promise((resolve) => {
+      try {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => resolve(undefined);
+      } catch {
+        resolve(undefined);
+      }
+    });
+  }
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    const cached = this.memory.get(url);
+    if (cached) return cached;
+
+    const stored = await this.withStore<HttpCacheEntry>('readonly', (store) => store.get(url));
+    if (stored) {
+      this.memory.set(url, stored);
+    }
+    return stored;
+  }
+
+  async set(url: string, entry: HttpCacheEntry): Promise<void> {
+    this.memory.set(url, entry);
+    await this.withStore('readwrite', (store) => store.put(entry, url));
+  }
+
+  async delete(url: string): Promise<void> {
+    this.memory.delete(url);
+    await this.withStore('readwrite', (store) => store.delete(url));
+  }
+
+  // Drops every entry whose key starts with `prefix`, e.g. all of one account's responses
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of this.memory.keys()) {
+      if (key.startsWith(prefix)) {
+        this.memory.delete(key);
+      }
+    }
+    await this.withStore('readwrite', (store) =>
+      store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+    );
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.withStore('readwrite', (store) => store.clear());
+  }
+}
+
+export const httpCache = new HttpCache();
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { JobQueue } from './jobQueue';
+
+// A task that settles only when the test says so
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('JobQueue', () => {
+  it('never runs more jobs at once than its concurrency', async () => {
+    const queue = new JobQueue(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const done = queue.run(tasks.map((task, index) => ({ id: String(index), label: `repo-${index}`, run: () => task.promise })));
+
+    expect(queue.getSnapshot().map(({ status }) => status)).toEqual(['running', 'running', 'queued']);
+
+    tasks[0]!.resolve();
+    await flush();
+    expect(queue.getSnapshot().map(({ status }) => status)).toEqual(['succeeded', 'running', 'running']);
+
+    tasks[1]!.resolve();
+    tasks[2]!.resolve();
+    await done;
+    expect(queue.getSnapshot().every(({ status }) => status === 'succeeded')).toBe(true);
+  });
+
+  it('reports failures and skips without stopping the rest', async () => {
+    const queue = new JobQueue(4);
+
+    await queue.run([
+      { id: '1', label: 'ok', run: () => Promise.resolve() },
+      { id: '2', label: 'broken', run: () => Promise.reject(new Error('Must have admin rights to Repository.')) },
+      { id: '3', label: 'unchanged', skipReason: 'Already up to date' },
+    ]);
+
+    expect(queue.getSnapshot()).toEqual([
+      { id: '1', label: 'ok', status: 'succeeded' },
+      { id: '2', label: 'broken', status: 'failed', message: 'Must have admin rights to Repository.' },
+      { id: '3', label: 'unchanged', status: 'skipped', message: 'Already up to date' },
+    ]);
+  });
+
+  it('retries only the failed jobs', async () => {
+    const queue = new JobQueue(4);
+    let succeededRuns = 0;
+    let flakyRuns = 0;
+
+    await queue.run([
+      { id: '1', label: 'ok', run: async () => void succeededRuns++ },
+      {
+        id: '2',
+        label: 'flaky',
+        run: async () => {
+          flakyRuns++;
+          if (flakyRuns === 1) throw new Error('Server Error');
+        },
+      },
+    ]);
+    await queue.retryFailed();
+
+    expect(succeededRuns).toBe(1);
+    expect(flakyRuns).toBe(2);
+    expect(queue.getSnapshot().map(({ status }) => status)).toEqual(['succeeded', 'succeeded']);
+  });
+
+  it('refuses a second batch while one is running', async () => {
+    const queue = new JobQueue(1);
+    const task = deferred();
+    const done = queue.run([{ id: '1', label: 'slow', run: () => task.promise }]);
+
+    await expect(queue.run([])).rejects.toThrow('A batch is already running');
+    task.resolve();
+    await done;
+  });
+});
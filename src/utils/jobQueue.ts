@@ -0,0 +1,121 @@
+import type { BatchJob } from '@/types';
+
+type Listener = () => void;
+
+export interface JobTask {
+  id: string;
+  label: string;
+  // Omitted for jobs that are reported as skipped without running
+  run?: () => Promise<void>;
+  skipReason?: string;
+}
+
+/**
+ * Runs a batch of jobs with at most `concurrency` in flight and publishes each
+ * job's status as it changes. Failed jobs keep their task, so they can be
+ * retried without re-running the ones that succeeded.
+ */
+export class JobQueue {
+  private jobs: BatchJob[] = [];
+  private readonly tasks = new Map<string, () => Promise<void>>();
+  private pending: string[] = [];
+  private running = 0;
+  private idleWaiters: Array<() => void> = [];
+  private readonly listeners = new Set<Listener>();
+
+  constructor(private readonly concurrency: number) {}
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): BatchJob[] => this.jobs;
+
+  isIdle(): boolean {
+    return this.running === 0 && this.pending.length === 0;
+  }
+
+  // Replaces the previous batch; resolves once every job has settled
+  run(tasks: JobTask[]): Promise<void> {
+    if (!this.isIdle()) {
+      return Promise.reject(new Error('A batch is already running'));
+    }
+
+    this.tasks.clear();
+    this.jobs = tasks.map(({ id, label, run, skipReason }) => {
+      if (!run) {
+        return { id, label, status: 'skipped', ...(skipReason && { message: skipReason }) };
+      }
+      this.tasks.set(id, run);
+      this.pending.push(id);
+      return { id, label, status: 'queued' };
+    });
+    this.emit();
+    return this.drain();
+  }
+
+  retryFailed(): Promise<void> {
+    if (!this.isIdle()) {
+      return Promise.reject(new Error('A batch is already running'));
+    }
+
+    this.jobs = this.jobs.map((job) => {
+      if (job.status !== 'failed') return job;
+      this.pending.push(job.id);
+      return { id: job.id, label: job.label, status: 'queued' };
+    });
+    this.emit();
+    return this.drain();
+  }
+
+  clear() {
+    if (!this.isIdle()) return;
+    this.jobs = [];
+    this.tasks.clear();
+    this.emit();
+  }
+
+  private drain(): Promise<void> {
+    const settled = new Promise<void>((resolve) => this.idleWaiters.push(resolve));
+    this.pump();
+    return settled;
+  }
+
+  private pump() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const task = this.tasks.get(id)!;
+      this.running++;
+      this.update(id, { status: 'running' });
+
+      task()
+        .then(
+          () => this.update(id, { status: 'succeeded' }),
+          (error: unknown) =>
+            this.update(id, { status: 'failed', message: error instanceof Error ? error.message : 'Failed' })
+        )
+        .finally(() => {
+          this.running--;
+          this.pump();
+        });
+    }
+
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private update(id: string, changes: Pick<BatchJob, 'status' | 'message'>) {
+    this.jobs = this.jobs.map((job) => (job.id === id ? { id: job.id, label: job.label, ...changes } : job));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createApiRequest, handleExpiredSession, normalizeErrors, retryRateLimits } from './middleware';
+import { GitHubApiError, RateLimitError } from './apiErrors';
+import { rateLimitTracker } from './rateLimit';
+import { sessionMonitor } from './session';
+import { jsonResponse } from '@/test/fakeFetch';
+
+const request = createApiRequest('https://api.github.com/user');
+
+const respondWith = (response: Response) => vi.fn(() => Promise.resolve(response));
+
+describe('normalizeErrors', () => {
+  it('passes successful responses through', async () => {
+    const response = jsonResponse({ login: 'octo-dev' });
+    await expect(normalizeErrors(request, respondWith(response))).resolves.toBe(response);
+  });
+
+  it('uses the message and status from GitHub error bodies', async () => {
+    const next = respondWith(jsonResponse({ message: 'Not Found' }, { status: 404 }));
+
+    const error = await normalizeErrors(request, next).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ message: 'Not Found', status: 404 });
+  });
+
+  it('keeps validation errors from 422 responses', async () => {
+    const errors = [{ resource: 'Repository', field: 'name', code: 'already_exists' }];
+    const next = respondWith(jsonResponse({ message: 'Repository creation failed.', errors }, { status: 422 }));
+
+    await expect(normalizeErrors(request, next)).rejects.toMatchObject({ status: 422, errors });
+  });
+
+  it('falls back to the status line when the body is not JSON', async () => {
+    const next = respondWith(new Response('<html>Bad gateway</html>', { status: 502, statusText: 'Bad Gateway' }));
+
+    await expect(normalizeErrors(request, next)).rejects.toMatchObject({
+      message: 'Request failed with status 502: Bad Gateway',
+      status: 502,
+    });
+  });
+
+  it('turns exhausted primary rate limits into RateLimitError', async () => {
+    const resetSeconds = Math.floor(Date.now() / 1000) + 600;
+    const next = respondWith(
+      jsonResponse(
+        { message: 'API rate limit exceeded' },
+        {
+          status: 403,
+          headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(resetSeconds) },
+        }
+      )
+    );
+
+    const error = await normalizeErrors(request, next).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).status).toBe(403);
+    expect((error as RateLimitError).resetAt).toBeGreaterThan(Date.now());
+  });
+
+  it('treats a 403 with quota remaining as a plain API error', async () => {
+    const next = respondWith(
+      jsonResponse({ message: 'Must have admin rights to Repository.' }, {
+        status: 403,
+        headers: { 'X-RateLimit-Remaining': '4999' },
+      })
+    );
+
+    const error = await normalizeErrors(request, next).catch((err: unknown) => err);
+    expect(error).not.toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ message: 'Must have admin rights to Repository.', status: 403 });
+  });
+
+  it('wraps network failures', async () => {
+    const next = vi.fn(() => Promise.reject(new TypeError('Failed to fetch')));
+
+    const error = await normalizeErrors(request, next).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ message: 'Network error: Failed to fetch' });
+    expect((error as GitHubApiError).status).toBeUndefined();
+  });
+
+  it('lets cancellations through untouched', async () => {
+    const abort = new DOMException('The operation was aborted.', 'AbortError');
+    const next = vi.fn(() => Promise.reject(abort));
+
+    await expect(normalizeErrors(request, next)).rejects.toBe(abort);
+  });
+});
+
+describe('retryRateLimits', () => {
+  it('drops a request cancelled while the rate limiter is paused', async () => {
+    vi.useFakeTimers();
+    try {
+      rateLimitTracker.pause(1000);
+      const controller = new AbortController();
+      const next = respondWith(jsonResponse({}));
+
+      const cancelled = retryRateLimits(createApiRequest(request.url, { signal: controller.signal }), next);
+      const waiting = retryRateLimits(request, next);
+      controller.abort();
+
+      await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await waiting;
+      expect(next).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('handleExpiredSession', () => {
+  it('drops a request cancelled while waiting for re-authentication', async () => {
+    sessionMonitor.markExpired('octo-dev');
+    const controller = new AbortController();
+    const next = respondWith(jsonResponse({}));
+
+    const cancelled = handleExpiredSession(createApiRequest(request.url, { signal: controller.signal }), next);
+    const waiting = handleExpiredSession(request, next);
+    expect(sessionMonitor.getSnapshot().pausedRequests).toBe(2);
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(sessionMonitor.getSnapshot().pausedRequests).toBe(1);
+    sessionMonitor.restore();
+    await waiting;
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
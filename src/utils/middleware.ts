@@ -0,0 +1,290 @@
+import { config } from '@/config/environment';
+import { GitHubApiError, RateLimitError } from '@/utils/apiErrors';
+import { rateLimitTracker, getRetryDelay } from '@/utils/rateLimit';
+import { httpCache } from '@/utils/httpCache';
+import { accountKeyring } from '@/utils/accounts';
+import { sessionMonitor } from '@/utils/session';
+import { TOKEN_EXPIRATION_HEADER, parseTokenExpiration } from '@/utils/scopes';
+import type { GitHubApiError as GitHubErrorBody } from '@/types';
+
+export interface ApiRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: string;
+  token?: string; // overrides the active account's token, e.g. while signing in
+  cache?: boolean; // revalidate through the HTTP cache (GET only)
+  signal?: AbortSignal;
+}
+
+export interface ApiRequestOptions {
+  method?: string;
+  body?: unknown; // serialized as JSON
+  token?: string;
+  cache?: boolean;
+  signal?: AbortSignal | undefined; // optional methods pass theirs straight through
+}
+
+export const createApiRequest = (url: string, options: ApiRequestOptions = {}): ApiRequest => {
+  const headers = new Headers({ 'Accept': 'application/vnd.github.v3+json' });
+  if (options.body !== undefined) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  return {
+    url,
+    method: options.method ?? 'GET',
+    headers,
+    ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+    ...(options.token !== undefined && { token: options.token }),
+    ...(options.cache !== undefined && { cache: options.cache }),
+    ...(options.signal && { signal: options.signal }),
+  };
+};
+
+export type ApiHandler = (request: ApiRequest) => Promise<Response>;
+
+// A middleware wraps the rest of the pipeline: it may adjust the request,
+// inspect or replace the response, or throw
+export type Middleware = (request: ApiRequest, next: ApiHandler) => Promise<Response>;
+
+export const createPipeline = (middlewares: Middleware[], transport: ApiHandler): ApiHandler => {
+  return middlewares.reduceRight<ApiHandler>(
+    (next, middleware) => (request) => middleware(request, next),
+    transport
+  );
+};
+
+export const fetchTransport: ApiHandler = (request) => {
+  return fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    ...(request.body !== undefined && { body: request.body }),
+    ...(request.signal && { signal: request.signal }),
+  });
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Turns non-2xx responses and network failures into GitHubApiError / RateLimitError
+export const normalizeErrors: Middleware = async (request, next) => {
+  let response: Response;
+  try {
+    response = await next(request);
+  } catch (error) {
+    // Cancellations pass through untouched so callers (and React Query) recognise them
+    if (error instanceof GitHubApiError || isAbortError(error)) throw error;
+    throw new GitHubApiError(error instanceof Error ? `Network error: ${error.message}` : 'Network error');
+  }
+
+  if (response.ok) return response;
+
+  if (
+    (response.status === 403 || response.status === 429) &&
+    response.headers.get('X-RateLimit-Remaining') === '0'
+  ) {
+    const resetAt = Date.now() + getRetryDelay(response.headers);
+    throw new RateLimitError(
+      `GitHub API rate limit exceeded. Requests will resume at ${new Date(resetAt).toLocaleTimeString()}.`,
+      response.status,
+      resetAt
+    );
+  }
+
+  let errorData: GitHubErrorBody | undefined;
+  try {
+    errorData = await response.json() as GitHubErrorBody;
+  } catch {
+    // If JSON parsing fails, use default error
+  }
+
+  throw new GitHubApiError(
+    errorData?.message || `Request failed with status ${response.status}: ${response.statusText}`,
+    response.status,
+    errorData?.errors
+  );
+};
+
+// Holds requests made with a revoked or expired token until the user
+// re-authenticates, then replays them with the new token. Sign-in checks pass
+// an explicit token and see the 401 directly.
+export const handleExpiredSession: Middleware = async (request, next) => {
+  if (request.token !== undefined) return next(request);
+
+  await sessionMonitor.waitForReauth(request.signal);
+
+  const response = await next(request);
+  const accountId = accountKeyring.getSnapshot().activeId;
+  if (response.status !== 401 || !accountId) return response;
+
+  sessionMonitor.markExpired(accountId);
+  return handleExpiredSession(request, next);
+};
+
+export const logRequests: Middleware = async (request, next) => {
+  if (!config.githubApi.logRequests) return next(request);
+
+  const startedAt = performance.now();
+  try {
+    const response = await next(request);
+    console.debug(`[github] ${request.method} ${request.url} → ${response.status} (${Math.round(performance.now() - startedAt)}ms)`);
+    return response;
+  } catch (error) {
+    console.debug(`[github] ${request.method} ${request.url} failed`, error);
+    throw error;
+  }
+};
+
+interface InFlightRequest {
+  response: Promise<Response>;
+  controller: AbortController;
+  consumers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+// Resolves with the shared response unless this caller's own signal aborts first
+const joinInFlight = (entry: InFlightRequest, signal?: AbortSignal): Promise<Response> => {
+  entry.consumers++;
+  if (!signal) return entry.response;
+
+  // The shared fetch is only cancelled once every caller has given up on it
+  const leave = () => {
+    entry.consumers--;
+    if (entry.consumers === 0) {
+      entry.controller.abort();
+    }
+  };
+
+  if (signal.aborted) {
+    leave();
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      leave();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.response
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Identical GETs issued while one is still in flight share its response
+export const dedupeRequests: Middleware = async (request, next) => {
+  if (request.method !== 'GET') return next(request);
+
+  const key = `${request.token ?? accountKeyring.getSnapshot().activeId}:${request.url}`;
+  let entry = inFlightRequests.get(key);
+
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      response: next({ ...request, signal: controller.signal }),
+      controller,
+      consumers: 0,
+    };
+    created.response
+      .catch(() => undefined)
+      .finally(() => {
+        if (inFlightRequests.get(key) === created) {
+          inFlightRequests.delete(key);
+        }
+      });
+    inFlightRequests.set(key, created);
+    entry = created;
+  }
+
+  // Each caller gets its own copy of the body
+  const response = await joinInFlight(entry, request.signal);
+  return response.clone();
+};
+
+// Adds the bearer token and keeps the active account's token expiry current
+export const authenticate: Middleware = async (request, next) => {
+  const token = request.token ?? accountKeyring.getActiveToken();
+  if (!token) {
+    throw new GitHubApiError('No GitHub token found. Please submit your token first.');
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  const response = await next({ ...request, headers });
+
+  const account = accountKeyring.getActiveAccount();
+  const expiresAt = parseTokenExpiration(response.headers.get(TOKEN_EXPIRATION_HEADER));
+  if (
+    request.token === undefined &&
+    expiresAt !== null &&
+    account?.permissions &&
+    account.permissions.expiresAt !== expiresAt
+  ) {
+    accountKeyring.updateAccount(account.id, { permissions: { ...account.permissions, expiresAt } });
+  }
+
+  return response;
+};
+
+// Conditional GETs with If-None-Match / If-Modified-Since; a 304 is answered
+// from the cache. GitHub does not count 304 responses against the rate limit.
+export const cacheResponses: Middleware = async (request, next) => {
+  if (!request.cache || request.method !== 'GET' || request.token !== undefined) {
+    return next(request);
+  }
+
+  // Keyed per account: the same URL returns different bodies for different users
+  const cacheKey = `${accountKeyring.getSnapshot().activeId}:${request.url}`;
+  const cached = await httpCache.get(cacheKey);
+  const headers = new Headers(request.headers);
+
+  if (cached?.etag) {
+    headers.set('If-None-Match', cached.etag);
+  } else if (cached?.lastModified) {
+    headers.set('If-Modified-Since', cached.lastModified);
+  }
+
+  const response = await next({ ...request, headers });
+
+  if (response.status === 304 && cached) {
+    return new Response(JSON.stringify(cached.body), { status: 200, headers: response.headers });
+  }
+
+  const etag = response.headers.get('ETag');
+  const lastModified = response.headers.get('Last-Modified');
+  if (response.ok && (etag || lastModified)) {
+    const body: unknown = await response.clone().json();
+    await httpCache.set(cacheKey, { etag, lastModified, body, storedAt: Date.now() });
+  }
+
+  return response;
+};
+
+// Secondary limits come back as 403/429 with quota still remaining
+const isSecondaryRateLimit = async (response: Response): Promise<boolean> => {
+  if (response.status !== 403 && response.status !== 429) return false;
+  if (response.headers.get('X-RateLimit-Remaining') === '0') return false;
+  if (response.headers.has('Retry-After')) return true;
+
+  const body = await response.clone().json().catch(() => null) as { message?: string } | null;
+  return /secondary rate limit/i.test(body?.message ?? '');
+};
+
+// Waits while the rate limiter is paused and retries after secondary limit pauses
+export const retryRateLimits: Middleware = async (request, next) => {
+  for (let attempt = 0; ; attempt++) {
+    await rateLimitTracker.waitUntilReady(request.signal);
+
+    const response = await next(request);
+    rateLimitTracker.record(response.headers);
+
+    if (attempt >= config.githubApi.maxRateLimitRetries || !(await isSecondaryRateLimit(response))) {
+      return response;
+    }
+    rateLimitTracker.pause(getRetryDelay(response.headers));
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isOwnedBy, summarizeOwners } from './owners';
+import { buildRepository, mockOrganizations, mockUser, mockUsers } from '@/mocks/fixtures';
+
+const organization = mockOrganizations[0]!;
+const collaborator = mockUsers.find(({ login }) => login !== mockUser.login)!;
+
+describe('summarizeOwners', () => {
+  const repositories = [
+    buildRepository({ name: 'mine', stargazers: 3 }),
+    buildRepository({ name: 'also-mine', private: true, stargazers: 2 }),
+    buildRepository({ name: 'theirs', owner: collaborator }),
+    buildRepository({ name: 'shared', owner: organization.account, visibility: 'internal', stargazers: 10 }),
+  ];
+
+  it('lists the viewer, their organizations and then collaborators', () => {
+    const owners = summarizeOwners(repositories, [organization.organization], mockUser);
+
+    expect(owners.map(({ login, isViewer, isOrganization }) => ({ login, isViewer, isOrganization }))).toEqual([
+      { login: mockUser.login, isViewer: true, isOrganization: false },
+      { login: organization.account.login, isViewer: false, isOrganization: true },
+      { login: collaborator.login, isViewer: false, isOrganization: false },
+    ]);
+  });
+
+  it('calculates stats per owner and counts internal repositories as private', () => {
+    const [viewer, org] = summarizeOwners(repositories, [organization.organization], mockUser);
+
+    expect(viewer?.stats).toMatchObject({ totalRepos: 2, totalStars: 5, publicRepos: 1, privateRepos: 1 });
+    expect(org?.stats).toMatchObject({ totalRepos: 1, totalStars: 10, privateRepos: 1 });
+  });
+
+  it('keeps organizations without repositories', () => {
+    const owners = summarizeOwners([], [organization.organization], mockUser);
+
+    expect(owners.map(({ login, stats }) => [login, stats.totalRepos])).toEqual([
+      [mockUser.login, 0],
+      [organization.account.login, 0],
+    ]);
+  });
+});
+
+describe('isOwnedBy', () => {
+  it('ignores case like GitHub logins do', () => {
+    expect(isOwnedBy(buildRepository({ name: 'mine' }), mockUser.login.toUpperCase())).toBe(true);
+  });
+});
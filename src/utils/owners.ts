@@ -0,0 +1,42 @@
+import type { GitHubUser, Organization, OwnerSummary, Repository } from '@/types';
+import { calculateRepositoryStats } from '@/utils/formatters';
+
+export const isOwnedBy = (repository: Repository, login: string): boolean => {
+  return repository.owner.login.toLowerCase() === login.toLowerCase();
+};
+
+/**
+ * Groups repositories by owner with stats for each: the signed-in user first,
+ * then their organizations (even those without repositories yet), then anyone
+ * else whose repositories the user collaborates on.
+ */
+export const summarizeOwners = (
+  repositories: Repository[],
+  organizations: Organization[],
+  viewer?: GitHubUser | null
+): OwnerSummary[] => {
+  const owners = new Map<string, Omit<OwnerSummary, 'stats'>>();
+  const add = (login: string, avatarUrl: string, isOrganization: boolean) => {
+    if (!owners.has(login.toLowerCase())) {
+      owners.set(login.toLowerCase(), {
+        login,
+        avatarUrl,
+        isOrganization,
+        isViewer: !!viewer && login.toLowerCase() === viewer.login.toLowerCase(),
+      });
+    }
+  };
+
+  if (viewer) add(viewer.login, viewer.avatar_url, false);
+  for (const organization of organizations) add(organization.login, organization.avatar_url, true);
+  const others = repositories
+    .map(({ owner }) => owner)
+    .filter(({ login }) => !owners.has(login.toLowerCase()))
+    .sort((a, b) => a.login.localeCompare(b.login));
+  for (const owner of others) add(owner.login, owner.avatar_url, owner.type === 'Organization');
+
+  return Array.from(owners.values(), (owner) => ({
+    ...owner,
+    stats: calculateRepositoryStats(repositories.filter((repository) => isOwnedBy(repository, owner.login))),
+  }));
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PROTECTION_SETTINGS,
+  parseStatusChecks,
+  protectionToSettings,
+  rulesToSettings,
+  settingsToProtectionRequest,
+  settingsToRules,
+  validateProtectionSettings,
+} from './protection';
+import type { ProtectionSettings } from '@/types';
+
+const strict: ProtectionSettings = {
+  requirePullRequest: true,
+  requiredApprovals: 2,
+  dismissStaleReviews: true,
+  requireCodeOwnerReviews: true,
+  requireLastPushApproval: false,
+  requireConversationResolution: true,
+  requireStatusChecks: true,
+  strictStatusChecks: true,
+  statusChecks: ['ci/build', 'ci/test'],
+  requireLinearHistory: true,
+  allowForcePushes: false,
+  allowDeletions: false,
+  enforceAdmins: true,
+};
+
+describe('branch protection conversion', () => {
+  it('round-trips settings through the request and response shapes', () => {
+    const request = settingsToProtectionRequest(strict);
+    const response = {
+      url: 'https://api.github.com/repos/octo-dev/vlast-cli/branches/main/protection',
+      required_status_checks: request.required_status_checks!,
+      required_pull_request_reviews: request.required_pull_request_reviews!,
+      enforce_admins: { enabled: true },
+      required_linear_history: { enabled: true },
+      allow_force_pushes: { enabled: false },
+      allow_deletions: { enabled: false },
+      required_conversation_resolution: { enabled: true },
+    };
+
+    expect(protectionToSettings(response)).toEqual(strict);
+  });
+
+  it('sends null for disabled sections and never sets push restrictions', () => {
+    const request = settingsToProtectionRequest({
+      ...DEFAULT_PROTECTION_SETTINGS,
+      requirePullRequest: false,
+    });
+
+    expect(request).toMatchObject({
+      required_status_checks: null,
+      required_pull_request_reviews: null,
+      restrictions: null,
+      enforce_admins: false,
+    });
+  });
+});
+
+describe('ruleset conversion', () => {
+  it('round-trips every setting except enforce admins', () => {
+    expect(rulesToSettings(settingsToRules(strict))).toEqual({ ...strict, enforceAdmins: false });
+  });
+
+  it('expresses allowed force pushes and deletions by leaving the rules out', () => {
+    const rules = settingsToRules({ ...DEFAULT_PROTECTION_SETTINGS, requirePullRequest: false, allowForcePushes: true });
+
+    expect(rules.map(({ type }) => type)).toEqual(['deletion']);
+  });
+
+  it('treats an empty ruleset as allowing everything', () => {
+    expect(rulesToSettings([])).toMatchObject({
+      requirePullRequest: false,
+      allowForcePushes: true,
+      allowDeletions: true,
+    });
+  });
+});
+
+describe('validateProtectionSettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateProtectionSettings(DEFAULT_PROTECTION_SETTINGS)).toBeNull();
+  });
+
+  it.each([-1, 7, 1.5])('rejects %s required approvals', (requiredApprovals) => {
+    expect(validateProtectionSettings({ ...DEFAULT_PROTECTION_SETTINGS, requiredApprovals })).toMatch(/0 to 6/);
+  });
+
+  it('requires a check name when status checks are required', () => {
+    expect(validateProtectionSettings({ ...DEFAULT_PROTECTION_SETTINGS, requireStatusChecks: true })).toMatch(
+      /at least one status check/
+    );
+  });
+});
+
+describe('parseStatusChecks', () => {
+  it('splits on commas and newlines, trimming and de-duplicating', () => {
+    expect(parseStatusChecks('ci/build, ci/test\nlint,, ci/build ')).toEqual(['ci/build', 'ci/test', 'lint']);
+  });
+});
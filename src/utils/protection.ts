@@ -0,0 +1,194 @@
+import type {
+  AuditValues,
+  BranchProtection,
+  BranchProtectionRequest,
+  ProtectionSettings,
+  RepositoryRuleset,
+  RulesetRequest,
+  RulesetRule,
+} from '@/types';
+
+// GitHub accepts 0–6 required approving reviews
+export const MAX_REQUIRED_APPROVALS = 6;
+
+// Targets whatever the default branch is at evaluation time, so renames do not break the ruleset
+export const DEFAULT_BRANCH_CONDITION = '~DEFAULT_BRANCH';
+
+export const DEFAULT_PROTECTION_SETTINGS: ProtectionSettings = {
+  requirePullRequest: true,
+  requiredApprovals: 1,
+  dismissStaleReviews: false,
+  requireCodeOwnerReviews: false,
+  requireLastPushApproval: false,
+  requireConversationResolution: false,
+  requireStatusChecks: false,
+  strictStatusChecks: false,
+  statusChecks: [],
+  requireLinearHistory: false,
+  allowForcePushes: false,
+  allowDeletions: false,
+  enforceAdmins: false,
+};
+
+export const protectionToSettings = (protection: BranchProtection): ProtectionSettings => {
+  const reviews = protection.required_pull_request_reviews;
+  const checks = protection.required_status_checks;
+
+  return {
+    requirePullRequest: !!reviews,
+    requiredApprovals: reviews?.required_approving_review_count ?? DEFAULT_PROTECTION_SETTINGS.requiredApprovals,
+    dismissStaleReviews: reviews?.dismiss_stale_reviews ?? false,
+    requireCodeOwnerReviews: reviews?.require_code_owner_reviews ?? false,
+    requireLastPushApproval: reviews?.require_last_push_approval ?? false,
+    requireConversationResolution: protection.required_conversation_resolution.enabled,
+    requireStatusChecks: !!checks,
+    strictStatusChecks: checks?.strict ?? false,
+    statusChecks: checks?.contexts ?? [],
+    requireLinearHistory: protection.required_linear_history.enabled,
+    allowForcePushes: protection.allow_force_pushes.enabled,
+    allowDeletions: protection.allow_deletions.enabled,
+    enforceAdmins: protection.enforce_admins.enabled,
+  };
+};
+
+// Push restrictions are left off: they only apply to organization repositories
+export const settingsToProtectionRequest = (settings: ProtectionSettings): BranchProtectionRequest => ({
+  required_status_checks: settings.requireStatusChecks
+    ? { strict: settings.strictStatusChecks, contexts: settings.statusChecks }
+    : null,
+  enforce_admins: settings.enforceAdmins,
+  required_pull_request_reviews: settings.requirePullRequest
+    ? {
+        required_approving_review_count: settings.requiredApprovals,
+        dismiss_stale_reviews: settings.dismissStaleReviews,
+        require_code_owner_reviews: settings.requireCodeOwnerReviews,
+        require_last_push_approval: settings.requireLastPushApproval,
+      }
+    : null,
+  restrictions: null,
+  required_linear_history: settings.requireLinearHistory,
+  allow_force_pushes: settings.allowForcePushes,
+  allow_deletions: settings.allowDeletions,
+  required_conversation_resolution: settings.requireConversationResolution,
+});
+
+// Rulesets express "allow" settings by leaving the blocking rule out
+export const rulesToSettings = (rules: RulesetRule[] = []): ProtectionSettings => {
+  const settings: ProtectionSettings = {
+    ...DEFAULT_PROTECTION_SETTINGS,
+    requirePullRequest: false,
+    allowForcePushes: true,
+    allowDeletions: true,
+  };
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'pull_request':
+        settings.requirePullRequest = true;
+        settings.requiredApprovals = rule.parameters.required_approving_review_count;
+        settings.dismissStaleReviews = rule.parameters.dismiss_stale_reviews_on_push;
+        settings.requireCodeOwnerReviews = rule.parameters.require_code_owner_review;
+        settings.requireLastPushApproval = rule.parameters.require_last_push_approval;
+        settings.requireConversationResolution = rule.parameters.required_review_thread_resolution;
+        break;
+      case 'required_status_checks':
+        settings.requireStatusChecks = true;
+        settings.strictStatusChecks = rule.parameters.strict_required_status_checks_policy;
+        settings.statusChecks = rule.parameters.required_status_checks.map(({ context }) => context);
+        break;
+      case 'required_linear_history':
+        settings.requireLinearHistory = true;
+        break;
+      case 'non_fast_forward':
+        settings.allowForcePushes = false;
+        break;
+      case 'deletion':
+        settings.allowDeletions = false;
+        break;
+    }
+  }
+
+  return settings;
+};
+
+// Conversation resolution is a pull request parameter in rulesets, so it needs that rule to stick
+export const settingsToRules = (settings: ProtectionSettings): RulesetRule[] => {
+  const rules: RulesetRule[] = [];
+
+  if (settings.requirePullRequest) {
+    rules.push({
+      type: 'pull_request',
+      parameters: {
+        required_approving_review_count: settings.requiredApprovals,
+        dismiss_stale_reviews_on_push: settings.dismissStaleReviews,
+        require_code_owner_review: settings.requireCodeOwnerReviews,
+        require_last_push_approval: settings.requireLastPushApproval,
+        required_review_thread_resolution: settings.requireConversationResolution,
+      },
+    });
+  }
+  if (settings.requireStatusChecks) {
+    rules.push({
+      type: 'required_status_checks',
+      parameters: {
+        strict_required_status_checks_policy: settings.strictStatusChecks,
+        required_status_checks: settings.statusChecks.map((context) => ({ context })),
+      },
+    });
+  }
+  if (settings.requireLinearHistory) rules.push({ type: 'required_linear_history' });
+  if (!settings.allowForcePushes) rules.push({ type: 'non_fast_forward' });
+  if (!settings.allowDeletions) rules.push({ type: 'deletion' });
+
+  return rules;
+};
+
+// The repository endpoints also list rulesets inherited from the organization;
+// those can only be changed by the organization, so they are never copied or edited here
+export const isRepositoryRuleset = (ruleset: Pick<RepositoryRuleset, 'source_type'>): boolean => {
+  return ruleset.source_type === 'Repository';
+};
+
+// Strips the server-assigned fields so a ruleset can be re-created in another repository
+export const toRulesetRequest = (ruleset: RepositoryRuleset): RulesetRequest => ({
+  name: ruleset.name,
+  target: ruleset.target,
+  enforcement: ruleset.enforcement,
+  conditions: ruleset.conditions ?? { ref_name: { include: [DEFAULT_BRANCH_CONDITION], exclude: [] } },
+  rules: ruleset.rules ?? [],
+});
+
+// Flat summaries of protection and rulesets for the audit log; null when there is none
+export const protectionAuditValues = (protection: BranchProtection | null | undefined): AuditValues | null => {
+  return protection ? { ...protectionToSettings(protection) } : null;
+};
+
+export const rulesetAuditValues = (
+  ruleset: Pick<RepositoryRuleset, 'name' | 'enforcement' | 'conditions' | 'rules'> | undefined
+): AuditValues | null => {
+  if (!ruleset) return null;
+  return {
+    name: ruleset.name,
+    enforcement: ruleset.enforcement,
+    include: ruleset.conditions?.ref_name.include ?? [],
+    rules: (ruleset.rules ?? []).map(({ type }) => type),
+  };
+};
+
+// Status check names from a comma- or newline-separated list
+export const parseStatusChecks = (value: string): string[] => {
+  return [...new Set(value.split(/[\n,]/).map((check) => check.trim()).filter(Boolean))];
+};
+
+export const validateProtectionSettings = (settings: ProtectionSettings): string | null => {
+  const { requiredApprovals } = settings;
+  if (settings.requirePullRequest && (!Number.isInteger(requiredApprovals) || requiredApprovals < 0 || requiredApprovals > MAX_REQUIRED_APPROVALS)) {
+    return `Required approvals must be a whole number from 0 to ${MAX_REQUIRED_APPROVALS}`;
+  }
+
+  if (settings.requireStatusChecks && settings.statusChecks.length === 0) {
+    return 'Add at least one status check, or turn off required status checks';
+  }
+
+  return null;
+};
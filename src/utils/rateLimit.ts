@@ -0,0 +1,151 @@
+import type { RateLimitBucket, RateLimitResource, RateLimitState } from '@/types';
+
+type Listener = () => void;
+
+const RATE_LIMIT_RESOURCES: readonly RateLimitResource[] = ['core', 'search', 'graphql'];
+
+// Default pause when a secondary limit is hit without a Retry-After header
+const DEFAULT_SECONDARY_BACKOFF_MS = 60 * 1000;
+
+const parseIntHeader = (headers: Headers, name: string): number | null => {
+  const value = headers.get(name);
+  if (value === null) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const isRateLimitResource = (value: string | null): value is RateLimitResource => {
+  return value !== null && (RATE_LIMIT_RESOURCES as readonly string[]).includes(value);
+};
+
+// Reads the X-RateLimit-* headers of a response into a bucket snapshot
+export const parseRateLimitHeaders = (
+  headers: Headers
+): { resource: RateLimitResource; bucket: RateLimitBucket } | null => {
+  const limit = parseIntHeader(headers, 'X-RateLimit-Limit');
+  const remaining = parseIntHeader(headers, 'X-RateLimit-Remaining');
+  const reset = parseIntHeader(headers, 'X-RateLimit-Reset');
+
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+
+  const resourceHeader = headers.get('X-RateLimit-Resource');
+
+  return {
+    resource: isRateLimitResource(resourceHeader) ? resourceHeader : 'core',
+    bucket: {
+      limit,
+      remaining,
+      used: parseIntHeader(headers, 'X-RateLimit-Used') ?? limit - remaining,
+      resetAt: reset * 1000,
+    },
+  };
+};
+
+// Milliseconds to wait before retrying a rate-limited response
+export const getRetryDelay = (headers: Headers): number => {
+  const retryAfter = parseIntHeader(headers, 'Retry-After');
+  if (retryAfter !== null) {
+    return retryAfter * 1000;
+  }
+
+  const remaining = parseIntHeader(headers, 'X-RateLimit-Remaining');
+  const reset = parseIntHeader(headers, 'X-RateLimit-Reset');
+  if (remaining === 0 && reset !== null) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return DEFAULT_SECONDARY_BACKOFF_MS;
+};
+
+/**
+ * Holds the latest rate-limit state seen on API responses and gates outgoing
+ * requests while a secondary limit pause is in effect.
+ */
+class RateLimitTracker {
+  private state: RateLimitState = {
+    core: null,
+    search: null,
+    graphql: null,
+    pausedUntil: null,
+  };
+  private readonly listeners = new Set<Listener>();
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private waiters: Array<() => void> = [];
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): RateLimitState => this.state;
+
+  private setState(updates: Partial<RateLimitState>) {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  record(headers: Headers) {
+    const parsed = parseRateLimitHeaders(headers);
+    if (parsed) {
+      this.setState({ [parsed.resource]: parsed.bucket });
+    }
+  }
+
+  isPaused(): boolean {
+    return this.state.pausedUntil !== null && this.state.pausedUntil > Date.now();
+  }
+
+  // Holds every queued request until `delayMs` has elapsed
+  pause(delayMs: number) {
+    const pausedUntil = Date.now() + delayMs;
+    if (this.state.pausedUntil !== null && this.state.pausedUntil >= pausedUntil) {
+      return;
+    }
+
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+    }
+
+    this.setState({ pausedUntil });
+    this.resumeTimer = setTimeout(() => this.resume(), delayMs);
+  }
+
+  private resume() {
+    this.resumeTimer = null;
+    this.setState({ pausedUntil: null });
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  // Resolves immediately unless requests are paused, in which case it waits for the resume;
+  // a request cancelled while waiting leaves the queue and rejects with its abort reason
+  waitUntilReady(signal?: AbortSignal): Promise<void> {
+    if (!this.isPaused()) {
+      return Promise.resolve();
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== ready);
+        reject(signal?.reason);
+      };
+      const ready = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiters.push(ready);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export const rateLimitTracker = new RateLimitTracker();
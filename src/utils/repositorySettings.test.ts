@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffRepositorySettings,
+  getRepositorySettings,
+  toUpdateRequest,
+  validateRepositorySettings,
+} from './repositorySettings';
+import { buildRepository } from '@/mocks/fixtures';
+
+const original = getRepositorySettings(buildRepository({ name: 'dotfiles' }));
+
+const check = (edits: Partial<typeof original>) => validateRepositorySettings({ ...original, ...edits });
+
+describe('repository settings', () => {
+  it('lists only changed fields, in section order, as an update request', () => {
+    const edited = { ...original, has_wiki: !original.has_wiki, description: 'My config', name: 'config' };
+    const changes = diffRepositorySettings(original, edited);
+
+    expect(changes.map(({ field }) => field)).toEqual(['name', 'description', 'has_wiki']);
+    expect(changes[0]).toEqual({ field: 'name', label: 'Repository name', from: 'dotfiles', to: 'config' });
+    expect(toUpdateRequest(changes)).toEqual({ name: 'config', description: 'My config', has_wiki: !original.has_wiki });
+  });
+
+  it('reports no changes for identical settings', () => {
+    expect(diffRepositorySettings(original, { ...original })).toEqual([]);
+  });
+
+  it('requires at least one merge method', () => {
+    expect(check({ allow_merge_commit: false, allow_squash_merge: false })).toBeNull();
+    expect(check({ allow_merge_commit: false, allow_squash_merge: false, allow_rebase_merge: false })).toMatch(
+      /at least one merge method/
+    );
+  });
+
+  it('checks the name and website', () => {
+    expect(check({ name: '' })).not.toBeNull();
+    expect(check({ homepage: 'example.com' })).toMatch(/http/);
+    expect(check({ homepage: 'ftp://example.com' })).toMatch(/http/);
+    expect(check({ homepage: 'https://example.com' })).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import type { EditRepoFormData, Repository, RepositorySettingChange, UpdateRepositoryRequest } from '@/types';
+import { validateRepositoryName } from '@/utils/formatters';
+
+export const SETTING_LABELS: Record<keyof EditRepoFormData, string> = {
+  name: 'Repository name',
+  description: 'Description',
+  homepage: 'Website',
+  has_issues: 'Issues',
+  has_projects: 'Projects',
+  has_wiki: 'Wiki',
+  is_template: 'Template repository',
+  allow_merge_commit: 'Allow merge commits',
+  allow_squash_merge: 'Allow squash merging',
+  allow_rebase_merge: 'Allow rebase merging',
+  allow_auto_merge: 'Allow auto-merge',
+  delete_branch_on_merge: 'Automatically delete head branches',
+};
+
+// Grouped as in the Edit tab; the diff preview lists changes in the same order
+export const SETTING_SECTIONS: Array<{ title: string; fields: Array<keyof EditRepoFormData> }> = [
+  { title: 'General', fields: ['name', 'description', 'homepage', 'is_template'] },
+  { title: 'Features', fields: ['has_issues', 'has_projects', 'has_wiki'] },
+  {
+    title: 'Pull Requests',
+    fields: ['allow_merge_commit', 'allow_squash_merge', 'allow_rebase_merge', 'allow_auto_merge', 'delete_branch_on_merge'],
+  },
+];
+
+export const MERGE_METHOD_FIELDS = ['allow_merge_commit', 'allow_squash_merge', 'allow_rebase_merge'] as const;
+
+export const getRepositorySettings = (repository: Repository): EditRepoFormData => ({
+  name: repository.name,
+  description: repository.description ?? '',
+  homepage: repository.homepage ?? '',
+  has_issues: repository.has_issues,
+  has_projects: repository.has_projects,
+  has_wiki: repository.has_wiki,
+  is_template: repository.is_template,
+  allow_merge_commit: repository.allow_merge_commit,
+  allow_squash_merge: repository.allow_squash_merge,
+  allow_rebase_merge: repository.allow_rebase_merge,
+  allow_auto_merge: repository.allow_auto_merge,
+  delete_branch_on_merge: repository.delete_branch_on_merge,
+});
+
+export const diffRepositorySettings = (
+  original: EditRepoFormData,
+  edited: EditRepoFormData
+): RepositorySettingChange[] => {
+  return SETTING_SECTIONS.flatMap(({ fields }) => fields)
+    .filter((field) => original[field] !== edited[field])
+    .map((field) => ({ field, label: SETTING_LABELS[field], from: original[field], to: edited[field] }));
+};
+
+export const toUpdateRequest = (changes: RepositorySettingChange[]): UpdateRepositoryRequest => {
+  return Object.fromEntries(changes.map(({ field, to }) => [field, to])) as UpdateRepositoryRequest;
+};
+
+// Checks the edited settings as a whole; returns the first problem found
+export const validateRepositorySettings = (settings: EditRepoFormData): string | null => {
+  const nameError = validateRepositoryName(settings.name);
+  if (nameError) return nameError;
+
+  if (settings.homepage) {
+    let url: URL | null = null;
+    try {
+      url = new URL(settings.homepage);
+    } catch {
+      url = null;
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return 'Website must be a full http:// or https:// URL';
+    }
+  }
+
+  if (!MERGE_METHOD_FIELDS.some((field) => settings[field])) {
+    return 'Enable at least one merge method: merge commits, squash merging or rebase merging';
+  }
+
+  return null;
+};
@@ -0,0 +1,98 @@
+import { config } from '@/config/environment';
+import type { Repository, TokenKind, TokenPermissions } from '@/types';
+
+// Classic OAuth scopes that grant narrower scopes implicitly
+const IMPLIED_SCOPES: Record<string, readonly string[]> = {
+  repo: ['repo:status', 'repo_deployment', 'public_repo', 'repo:invite', 'security_events'],
+  user: ['read:user', 'user:email', 'user:follow'],
+  'admin:org': ['write:org', 'read:org'],
+  'write:org': ['read:org'],
+};
+
+export const parseScopesHeader = (header: string | null): string[] | null => {
+  if (header === null) return null;
+  return header.split(',').map((scope) => scope.trim()).filter(Boolean);
+};
+
+// Fine-grained tokens do not report X-OAuth-Scopes; prefixes tell the rest apart
+export const detectTokenKind = (token: string, scopesHeader: string | null): TokenKind => {
+  if (token.startsWith('github_pat_')) return 'fine-grained';
+  if (token.startsWith('gho_')) return 'oauth';
+  if (token.startsWith('ghp_')) return 'classic';
+  return scopesHeader === null ? 'fine-grained' : 'unknown';
+};
+
+export const TOKEN_EXPIRATION_HEADER = 'github-authentication-token-expiration';
+
+// GitHub formats the expiry as "2024-05-01 12:00:00 UTC" (or with a numeric offset)
+export const parseTokenExpiration = (header: string | null): number | null => {
+  const match = header?.trim().match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) (UTC|[+-]\d{2}:?\d{2})$/);
+  if (!match) return null;
+
+  const [, date, time, zone] = match;
+  const offset = zone === 'UTC' ? 'Z' : `${zone!.slice(0, 3)}:${zone!.slice(-2)}`;
+  const timestamp = Date.parse(`${date}T${time}${offset}`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+export const getTokenPermissions = (token: string, headers: Headers): TokenPermissions => {
+  const scopesHeader = headers.get('X-OAuth-Scopes');
+  return {
+    kind: detectTokenKind(token, scopesHeader),
+    scopes: parseScopesHeader(scopesHeader),
+    expiresAt: parseTokenExpiration(headers.get(TOKEN_EXPIRATION_HEADER)),
+  };
+};
+
+/**
+ * Whether the token grants `scope`. Returns true when scopes cannot be
+ * introspected (fine-grained tokens, accounts added before scopes were
+ * recorded) so the UI never blocks an action GitHub might still allow.
+ */
+export const hasScope = (permissions: TokenPermissions | null, scope: string): boolean => {
+  if (!permissions?.scopes) return true;
+
+  return permissions.scopes.some((granted) =>
+    granted === scope || (IMPLIED_SCOPES[granted]?.includes(scope) ?? false)
+  );
+};
+
+export const getMissingScopes = (permissions: TokenPermissions | null): string[] => {
+  return config.requiredScopes.filter((scope) => !hasScope(permissions, scope));
+};
+
+export const canDeleteRepository = (permissions: TokenPermissions | null): boolean => {
+  return hasScope(permissions, 'delete_repo');
+};
+
+// Editing settings or files of a private repository needs `repo`; public ones also accept `public_repo`
+export const canModifyRepository = (
+  permissions: TokenPermissions | null,
+  repository: Pick<Repository, 'private' | 'permissions'>
+): boolean => {
+  if (isReadOnlyRepository(permissions, repository)) return false;
+  return hasScope(permissions, 'repo') || (!repository.private && hasScope(permissions, 'public_repo'));
+};
+
+// Fine-grained tokens only reach the repositories they were granted; the
+// permissions block reports what the token can actually do there
+export const isReadOnlyRepository = (
+  permissions: TokenPermissions | null,
+  repository: Pick<Repository, 'permissions'>
+): boolean => {
+  return permissions?.kind === 'fine-grained' && repository.permissions?.push === false;
+};
+
+// Changing visibility touches a private repository either before or after the change
+export const canChangeVisibility = (permissions: TokenPermissions | null): boolean => {
+  return hasScope(permissions, 'repo');
+};
+
+export const getMissingScopeMessage = (scope: string): string => {
+  return `Your token is missing the "${scope}" scope. Create a token that includes it to enable this action.`;
+};
+
+export const READ_ONLY_MESSAGE = 'This fine-grained token has read-only access to this repository.';
+
+// Not a token limit, but shown in the same places: GitHub rejects every write to an archived repository
+export const ARCHIVED_MESSAGE = 'This repository is archived and read-only. Unarchive it to make changes.';
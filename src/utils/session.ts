@@ -0,0 +1,95 @@
+import { GitHubApiError } from '@/utils/apiErrors';
+import type { SessionState } from '@/types';
+
+type Listener = () => void;
+
+interface PausedRequest {
+  resume: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Tracks whether the active account's token has been rejected with a 401.
+ * While expired, requests wait here instead of failing; re-authenticating
+ * replays them in order, signing out rejects them.
+ */
+class SessionMonitor {
+  private state: SessionState = { expiredAccountId: null, pausedRequests: 0 };
+  private readonly listeners = new Set<Listener>();
+  private paused: PausedRequest[] = [];
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): SessionState => this.state;
+
+  private setState(updates: Partial<SessionState>) {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  isExpired(): boolean {
+    return this.state.expiredAccountId !== null;
+  }
+
+  markExpired(accountId: string) {
+    if (this.state.expiredAccountId === accountId) return;
+    this.setState({ expiredAccountId: accountId });
+  }
+
+  // Resolves once the session is restored; rejects if it is abandoned instead,
+  // or with the abort reason if the request is cancelled while it waits
+  waitForReauth(signal?: AbortSignal): Promise<void> {
+    if (!this.isExpired()) {
+      return Promise.resolve();
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.paused = this.paused.filter((request) => request !== paused);
+        this.setState({ pausedRequests: this.paused.length });
+        reject(signal?.reason);
+      };
+      const paused: PausedRequest = {
+        resume: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      this.paused.push(paused);
+      this.setState({ pausedRequests: this.paused.length });
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private settle(run: (request: PausedRequest) => void) {
+    const paused = this.paused;
+    this.paused = [];
+    this.setState({ expiredAccountId: null, pausedRequests: 0 });
+    paused.forEach(run);
+  }
+
+  // Called after the account received a working token
+  restore() {
+    this.settle((request) => request.resume());
+  }
+
+  // Called when the user signs out instead of re-authenticating
+  abandon() {
+    const error = new GitHubApiError('Your GitHub session expired. Please sign in again.', 401);
+    this.settle((request) => request.reject(error));
+  }
+}
+
+export const sessionMonitor = new SessionMonitor();
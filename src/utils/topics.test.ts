@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { applyTopicChanges, countTopics, normalizeTopic, suggestTopics, validateTopicName } from './topics';
+import { buildRepository } from '@/mocks/fixtures';
+
+describe('topics', () => {
+  it('normalizes input the way GitHub does', () => {
+    expect(normalizeTopic('  Machine Learning ')).toBe('machine-learning');
+  });
+
+  it('validates topic names', () => {
+    expect(validateTopicName('react')).toBeNull();
+    expect(validateTopicName('web-3')).toBeNull();
+    expect(validateTopicName('')).toBe('Topic is required');
+    expect(validateTopicName('-react')).toMatch(/must start with/);
+    expect(validateTopicName('c++')).toMatch(/must start with/);
+    expect(validateTopicName('a'.repeat(51))).toMatch(/50 characters/);
+  });
+
+  it('counts topics across repositories, most used first', () => {
+    const repositories = [
+      buildRepository({ name: 'a', topics: ['cli', 'go'] }),
+      buildRepository({ name: 'b', topics: ['go'] }),
+      buildRepository({ name: 'c', topics: ['api', 'go', 'cli'] }),
+    ];
+
+    expect(countTopics(repositories)).toEqual([
+      { topic: 'go', count: 3 },
+      { topic: 'cli', count: 2 },
+      { topic: 'api', count: 1 },
+    ]);
+  });
+
+  it('suggests unused topics, prefix matches first', () => {
+    expect(suggestTopics('ap', ['rest-api', 'api', 'apps', 'go'], ['apps'])).toEqual(['api', 'rest-api']);
+  });
+
+  it('applies bulk additions and removals while keeping other topics', () => {
+    expect(applyTopicChanges(['cli', 'go'], ['api', 'go'], ['cli'])).toEqual(['go', 'api']);
+    expect(applyTopicChanges(['cli'], ['api'], ['api'])).toEqual(['cli']);
+  });
+});
@@ -0,0 +1,60 @@
+import type { Repository } from '@/types';
+
+// GitHub's limits for repository topics
+export const MAX_TOPICS = 20;
+export const MAX_TOPIC_LENGTH = 50;
+
+const TOPIC_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Matches how GitHub's own topic field treats input: case-insensitive, spaces become hyphens
+export const normalizeTopic = (topic: string): string => {
+  return topic.trim().toLowerCase().replace(/\s+/g, '-');
+};
+
+export const validateTopicName = (topic: string): string | null => {
+  if (!topic) {
+    return 'Topic is required';
+  }
+
+  if (topic.length > MAX_TOPIC_LENGTH) {
+    return `Topics must be ${MAX_TOPIC_LENGTH} characters or less`;
+  }
+
+  if (!TOPIC_PATTERN.test(topic)) {
+    return 'Topics must start with a lowercase letter or number and can only contain letters, numbers and hyphens';
+  }
+
+  return null;
+};
+
+// Every topic used across the repositories with how often it appears, most used first
+export const countTopics = (repositories: Repository[]): Array<{ topic: string; count: number }> => {
+  const counts = new Map<string, number>();
+  for (const repository of repositories) {
+    for (const topic of repository.topics ?? []) {
+      counts.set(topic, (counts.get(topic) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([topic, count]) => ({ topic, count })).sort(
+    (a, b) => b.count - a.count || a.topic.localeCompare(b.topic)
+  );
+};
+
+// Suggestions for a partly typed topic, excluding ones already applied
+export const suggestTopics = (input: string, known: string[], current: string[], limit = 8): string[] => {
+  const query = normalizeTopic(input);
+  return known
+    .filter((topic) => !current.includes(topic) && topic.includes(query))
+    .sort((a, b) => Number(b.startsWith(query)) - Number(a.startsWith(query)))
+    .slice(0, limit);
+};
+
+// The topic list after a bulk edit; removals win over additions of the same topic
+export const applyTopicChanges = (current: string[], add: string[], remove: string[]): string[] => {
+  const next = current.filter((topic) => !remove.includes(topic));
+  for (const topic of add) {
+    if (!next.includes(topic) && !remove.includes(topic)) next.push(topic);
+  }
+  return next;
+};
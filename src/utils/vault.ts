@@ -0,0 +1,101 @@
+import { config } from '@/config/environment';
+import type { EncryptedSecret, VaultMetadata } from '@/types';
+
+export type VaultErrorCode = 'unsupported' | 'invalid_passphrase' | 'locked';
+
+export class VaultError extends Error {
+  public readonly code: VaultErrorCode;
+
+  constructor(message: string, code: VaultErrorCode) {
+    super(message);
+    this.name = 'VaultError';
+    this.code = code;
+  }
+}
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // recommended nonce size for AES-GCM
+const CHECK_PLAINTEXT = 'vlast-vault';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+};
+
+export const isVaultSupported = (): boolean => {
+  return typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+};
+
+// Derives a non-extractable AES-GCM key from the passphrase
+export const deriveVaultKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = config.vault.pbkdf2Iterations
+): Promise<CryptoKey> => {
+  if (!isVaultSupported()) {
+    throw new VaultError('This browser does not support WebCrypto', 'unsupported');
+  }
+
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (key: CryptoKey, plaintext: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// AES-GCM authenticates the ciphertext, so a wrong key rejects instead of returning garbage
+export const decryptSecret = async (key: CryptoKey, secret: EncryptedSecret): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+      key,
+      fromBase64(secret.ciphertext)
+    );
+    return decoder.decode(plaintext);
+  } catch {
+    throw new VaultError('Incorrect passphrase', 'invalid_passphrase');
+  }
+};
+
+export const createVault = async (
+  passphrase: string,
+  idleTimeoutMinutes: number
+): Promise<{ key: CryptoKey; metadata: VaultMetadata }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveVaultKey(passphrase, salt);
+
+  return {
+    key,
+    metadata: {
+      salt: toBase64(salt),
+      iterations: config.vault.pbkdf2Iterations,
+      check: await encryptSecret(key, CHECK_PLAINTEXT),
+      idleTimeoutMinutes,
+    },
+  };
+};
+
+export const openVault = async (passphrase: string, metadata: VaultMetadata): Promise<CryptoKey> => {
+  const key = await deriveVaultKey(passphrase, fromBase64(metadata.salt), metadata.iterations);
+  await decryptSecret(key, metadata.check);
+  return key;
+};
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GITHUB_OAUTH_CLIENT_ID?: string;
+  readonly VITE_GITHUB_OAUTH_PROXY_URL?: string;
+  readonly VITE_GITHUB_MOCK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}